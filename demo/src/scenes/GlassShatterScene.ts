@@ -10,7 +10,7 @@ import {
  * Glass Shattering Demo
  * - Vertical glass pane
  * - Click to shatter at impact point
- * - Choose between Voronoi or Simple fracturing
+ * - Choose between Glass, Voronoi or Simple fracturing
  */
 export class GlassShatterScene extends BaseScene {
   private glassPane: DestructibleMesh | null = null;
@@ -25,7 +25,7 @@ export class GlassShatterScene extends BaseScene {
     },
   });
   private settings = {
-    fractureMethod: "Voronoi" as "Voronoi" | "Simple",
+    fractureMethod: "Glass" as "Glass" | "Voronoi" | "Simple",
     useImpactPoint: true,
     impactRadius: 1.0,
   };
@@ -98,7 +98,7 @@ export class GlassShatterScene extends BaseScene {
         // Position and scale the radius marker
         this.radiusMarker.position.copy(intersectionPoint);
         this.radiusMarker.scale.setScalar(this.settings.impactRadius);
-        this.radiusMarker.visible = true;
+        this.radiusMarker.visible = this.settings.fractureMethod !== "Glass";
       }
     } else {
       // Hide markers when not hovering over glass
@@ -151,7 +151,19 @@ export class GlassShatterScene extends BaseScene {
 
       // Configure fracture options based on settings
       this.fractureOptions.fractureMethod =
-        this.settings.fractureMethod === "Voronoi" ? "voronoi" : "simple";
+        this.settings.fractureMethod === "Glass"
+          ? "glass"
+          : this.settings.fractureMethod === "Voronoi"
+            ? "voronoi"
+            : "simple";
+
+      // Radial and ring cracks around the impact point
+      if (this.settings.fractureMethod === "Glass") {
+        this.fractureOptions.glassOptions = {
+          impactPoint: this.settings.useImpactPoint ? localPoint : undefined,
+          projectionAxis: "z", // Cracks run through the thin axis
+        };
+      }
 
       // Configure Voronoi-specific options
       if (
@@ -216,14 +228,18 @@ export class GlassShatterScene extends BaseScene {
 
     folder
       .addBinding(this.settings, "fractureMethod", {
-        options: BaseScene.FRACTURE_METHOD_OPTIONS,
+        options: {
+          "Glass (Radial Cracks)": "Glass",
+          ...BaseScene.FRACTURE_METHOD_OPTIONS,
+        },
         label: "Fracture Method",
       })
       .on("change", () => {
         // Enable/disable impact controls based on fracture method
         const isSimple = this.settings.fractureMethod === "Simple";
         useImpactPointBinding.disabled = isSimple;
-        impactRadiusBinding.disabled = isSimple;
+        impactRadiusBinding.disabled =
+          isSimple || this.settings.fractureMethod === "Glass";
       });
 
     folder.addBinding(this.fractureOptions, "fragmentCount", {
@@ -251,6 +267,7 @@ export class GlassShatterScene extends BaseScene {
         label: "Impact Radius",
       },
     );
+    impactRadiusBinding.disabled = this.settings.fractureMethod === "Glass";
 
     this.resetButton = folder.addButton({ title: "Reset" }).on("click", () => {
       this.reset();
@@ -30,7 +30,7 @@ export class ProgressiveDestructionScene extends BaseScene {
 
   private settings = {
     primitiveType: "torusKnot" as PrimitiveType,
-    fractureMethod: "Voronoi" as "Voronoi" | "Radial",
+    fractureMethod: "Voronoi" as "Voronoi" | "Simple" | "Radial",
   };
 
   private collisionHandled = new WeakSet<THREE.Mesh>();
@@ -108,7 +108,11 @@ export class ProgressiveDestructionScene extends BaseScene {
 
       // Configure fracture options based on settings
       this.fractureOptions.fractureMethod =
-        this.settings.fractureMethod === "Voronoi" ? "voronoi" : "simple";
+        this.settings.fractureMethod === "Voronoi"
+          ? "voronoi"
+          : this.settings.fractureMethod === "Radial"
+            ? "glass"
+            : "simple";
 
       // Pre-fracture
       this.fragments = this.object.fracture(
@@ -266,7 +270,10 @@ export class ProgressiveDestructionScene extends BaseScene {
 
     folder
       .addBinding(this.settings, "fractureMethod", {
-        options: BaseScene.FRACTURE_METHOD_OPTIONS,
+        options: {
+          ...BaseScene.FRACTURE_METHOD_OPTIONS,
+          "Radial (Shattered Glass)": "Radial",
+        },
         label: "Fracture Method",
       })
       .on("change", () => {
@@ -5,11 +5,11 @@ import { DestructibleMesh, FractureOptions } from "@dgreenheck/three-pinata";
 
 /**
  * Refracturing Demo
- * - Demonstrates external generation tracking for refracturing
+ * - Demonstrates refracturing using the built-in fragment lineage
  * - Click object to fracture it
  * - Click fragments to refracture them
  * - Progressive fragment counts configurable per generation
- * - Generation tracking handled externally via userData
+ * - Generations are read from each fragment's lineage
  */
 export class RefractureScene extends BaseScene {
   private object: DestructibleMesh | null = null;
@@ -83,9 +83,6 @@ export class RefractureScene extends BaseScene {
     );
     this.object.castShadow = true;
 
-    // Initialize generation tracking in userData
-    this.object.userData.generation = 0;
-
     // Position on floor - calculate height based on bounding box
     const bbox = new THREE.Box3().setFromObject(mesh);
     const height = (bbox.max.y - bbox.min.y) / 2;
@@ -112,13 +109,10 @@ export class RefractureScene extends BaseScene {
     }
   }
 
-  private createFragmentCallback(generation: number) {
+  private createFragmentCallback() {
     return (fragment: DestructibleMesh) => {
       fragment.castShadow = true;
 
-      // Track generation in userData
-      fragment.userData.generation = generation;
-
       // Add physics
       const body = this.physics.add(fragment, {
         type: "dynamic",
@@ -176,10 +170,10 @@ export class RefractureScene extends BaseScene {
   };
 
   private fractureObject(mesh: DestructibleMesh): void {
-    // Get current generation (external tracking via userData)
-    const currentGeneration = mesh.userData.generation || 0;
+    // Get current generation from the fragment lineage
+    const currentGeneration = mesh.lineage.generation;
 
-    // Check if max generation reached (external refracture limiting)
+    // Check if max generation reached
     if (currentGeneration >= this.settings.maxGeneration) {
       return;
     }
@@ -200,7 +194,7 @@ export class RefractureScene extends BaseScene {
     // Fracture the mesh
     const newFragments = mesh.fracture(
       fractureOptions,
-      this.createFragmentCallback(nextGeneration),
+      this.createFragmentCallback(),
     );
 
     // Add new fragments to scene and tracking array
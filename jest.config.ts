@@ -4,6 +4,8 @@ const config: Config = {
   preset: "ts-jest",
   testEnvironment: "node",
   verbose: true,
+  // Shared test helpers live next to the tests but aren't tests themselves
+  testPathIgnorePatterns: ["/node_modules/", "/__tests__/utils/"],
   collectCoverageFrom: [
     "lib/src/**/*.{ts,tsx}",
     "!lib/src/**/*.test.{ts,tsx}",
@@ -1,9 +1,103 @@
 import * as THREE from "three";
+import { FragmentBatch, FragmentBatchMode } from "./FragmentBatch";
 import { FractureOptions } from "./entities/FractureOptions";
+import { FragmentLineage } from "./entities/FragmentLineage";
 import { SliceOptions } from "./entities/SliceOptions";
-import { voronoiFracture } from "./fracture/VoronoiFracture";
-import { fracture as simpleFracture } from "./fracture/Fracture";
-import { slice } from "./fracture/Slice";
+import {
+  fractureGeometry,
+  toVoronoiFractureOptions,
+} from "./fracture/FractureGeometry";
+import { VoronoiFractureJob } from "./fracture/VoronoiFractureJob";
+import { toGlassFractureOptions } from "./fracture/GlassFracture";
+import { createGridPlanes, slice, sliceMany } from "./fracture/Slice";
+import { cut } from "./fracture/Cut";
+import { crackGeometry } from "./fracture/Crack";
+import { CrackOptions } from "./entities/CrackOptions";
+import {
+  BakedFragments,
+  deserializeFragments,
+} from "./utils/FragmentSerialization";
+import {
+  deserializeGeometry,
+  serializeGeometry,
+} from "./utils/GeometrySerialization";
+import {
+  getCutFaceMaterialIndex,
+  getSourceOrigin,
+  mergeSourceMaterialGroups,
+  setSourceOrigin,
+} from "./utils/GeometryConversion";
+import { MassProperties, computeMassProperties } from "./utils/MassProperties";
+import { SeededRandom } from "./utils/SeededRandom";
+import { bakeSkinnedPose, restoreBindPose } from "./utils/Skinning";
+import {
+  getFractureWorkerPool,
+  runFractureTask,
+} from "./worker/FractureWorkerClient";
+import {
+  serializeFractureOptions,
+  serializeSliceOptions,
+} from "./worker/FractureWorkerMessages";
+import { voronoiFractureParallel } from "./worker/ParallelVoronoiFracture";
+
+/**
+ * A fracture that is computed incrementally over multiple calls to `step()`.
+ * Returned by `DestructibleMesh.fractureIncremental()`.
+ */
+export interface FractureJob {
+  /**
+   * True once every fragment has been created
+   */
+  readonly done: boolean;
+
+  /**
+   * Fraction of the fracture completed so far, between 0 and 1
+   */
+  readonly progress: number;
+
+  /**
+   * Continues the fracture until `maxMilliseconds` have elapsed
+   * @param maxMilliseconds Time budget for this step
+   * @returns The fragment meshes completed during this step (NOT added to scene)
+   */
+  step(maxMilliseconds?: number): DestructibleMesh[];
+}
+
+/**
+ * Returns the material of a fragment created from a mesh with the given
+ * outer and inner materials
+ * @param geometry The fragment geometry. With a single outer material, its
+ * source material groups are merged to keep fragments at two draw calls.
+ * @param outer Material for the original surface, or one per material group
+ * @param inner Material for the cut faces
+ */
+function getFragmentMaterial(
+  geometry: THREE.BufferGeometry,
+  outer?: THREE.Material | THREE.Material[],
+  inner?: THREE.Material,
+): THREE.Material | THREE.Material[] | undefined {
+  if (!Array.isArray(outer)) {
+    mergeSourceMaterialGroups(geometry);
+  }
+
+  // Set material array for geometries with material groups
+  // Groups 0..N-1 = outer materials, group N (the cut faces) = inner material
+  const outerMaterials = Array.isArray(outer) ? outer : outer ? [outer] : [];
+  if (outerMaterials.length > 0 && (Array.isArray(outer) || inner)) {
+    const cutFaceIndex = getCutFaceMaterialIndex(geometry) ?? 1;
+
+    const materials: THREE.Material[] = [];
+    for (let i = 0; i < cutFaceIndex; i++) {
+      // Groups without a matching material use the first outer material
+      materials.push(outerMaterials[i] ?? outerMaterials[0]);
+    }
+    materials.push(inner ?? outerMaterials[0]);
+
+    return materials;
+  }
+
+  return outer;
+}
 
 /**
  * A THREE.Mesh that can be fractured or sliced into fragments.
@@ -11,41 +105,197 @@ import { slice } from "./fracture/Slice";
  * you must manually add them using scene.add(...fragments).
  */
 export class DestructibleMesh extends THREE.Mesh {
-  private _outsideMaterial?: THREE.Material;
+  private _outsideMaterial?: THREE.Material | THREE.Material[];
   private _insideMaterial?: THREE.Material;
+  private _lineage?: FragmentLineage;
 
+  /**
+   * @param geometry The geometry of the mesh
+   * @param outerMaterial Material for the original surface of the mesh, or one
+   * material per material group of the geometry
+   * @param innerMaterial Material for the cut faces
+   */
   constructor(
     geometry?: THREE.BufferGeometry<THREE.NormalBufferAttributes>,
-    outerMaterial?: THREE.Material,
+    outerMaterial?: THREE.Material | THREE.Material[],
     innerMaterial?: THREE.Material,
   ) {
-    // Always start with single outer material
-    // Material arrays will be set explicitly in fracture/slice methods
+    // Always start with the outer material(s)
+    // The cut-face material is added explicitly in fracture/slice methods
     super(geometry, outerMaterial);
 
     this._outsideMaterial = outerMaterial;
     this._insideMaterial = innerMaterial;
   }
 
+  /**
+   * Where this mesh came from: its fragment id, parent and root ids,
+   * generation and the options that created it. A mesh that was not created
+   * by a fracture or slice is the root of a new lineage.
+   */
+  get lineage(): FragmentLineage {
+    if (!this._lineage) {
+      this._lineage = new FragmentLineage();
+    }
+    return this._lineage;
+  }
+
+  /**
+   * Recreates fragments that were baked with `serializeFragments()`, without
+   * running any fracture code
+   * @param data The serialized fragments, or the result of `deserializeFragments()`
+   * @param outerMaterial Material for the original surface of the mesh, or one
+   * material per material group of the original geometry
+   * @param innerMaterial Material for the cut faces
+   * @param onFragment Optional callback called for each fragment for custom setup
+   * @returns The array of fragment meshes, positioned at their baked offsets (NOT added to scene)
+   */
+  static fromBaked(
+    data: ArrayBuffer | ArrayBufferView | BakedFragments,
+    outerMaterial?: THREE.Material | THREE.Material[],
+    innerMaterial?: THREE.Material,
+    onFragment?: (fragment: DestructibleMesh, index: number) => void,
+  ): DestructibleMesh[] {
+    const { geometries, offsets, options } =
+      data instanceof ArrayBuffer || ArrayBuffer.isView(data)
+        ? deserializeFragments(data)
+        : data;
+
+    // Fragments inherit their materials the same way as a regular fracture
+    const parent = new DestructibleMesh(
+      undefined,
+      outerMaterial,
+      innerMaterial,
+    );
+
+    const siblings: FragmentLineage[] = [];
+    return geometries.map((geometry, index) => {
+      geometry.computeBoundingSphere();
+
+      const fragment = parent.createFragment(
+        geometry,
+        new FragmentLineage(parent.lineage, {
+          operation: options instanceof SliceOptions ? "slice" : "fracture",
+          siblings,
+          options,
+          seed: options instanceof FractureOptions ? options.seed : undefined,
+        }),
+      );
+      fragment.position.copy(offsets[index]);
+
+      if (onFragment) {
+        onFragment(fragment, index);
+      }
+
+      return fragment;
+    });
+  }
+
+  /**
+   * Creates a static mesh from a skinned mesh in its current pose, so it can
+   * be fractured or sliced like any other mesh. Fragments keep the pose and no
+   * longer follow the skeleton (see `fractureSkinnedMesh()` for fragments that
+   * keep animating). Morph targets are ignored. A skinned mesh has no
+   * lineage, so the posed mesh is the root of a new lineage.
+   * @param mesh The skinned mesh
+   * @param innerMaterial Material for the cut faces
+   * @returns The posed mesh, with the same transform as the skinned mesh (NOT added to scene)
+   */
+  static fromSkinnedMesh(
+    mesh: THREE.SkinnedMesh,
+    innerMaterial?: THREE.Material,
+  ): DestructibleMesh {
+    const geometry = bakeSkinnedPose(mesh);
+    geometry.deleteAttribute("skinIndex");
+    geometry.deleteAttribute("skinWeight");
+
+    const posed = new DestructibleMesh(geometry, mesh.material, innerMaterial);
+    posed.position.copy(mesh.position);
+    posed.quaternion.copy(mesh.quaternion);
+    posed.scale.copy(mesh.scale);
+    posed.matrixWorld.copy(mesh.matrixWorld);
+    posed.castShadow = mesh.castShadow;
+    posed.receiveShadow = mesh.receiveShadow;
+
+    return posed;
+  }
+
+  /**
+   * Fractures a skinned mesh in its current pose into skinned fragments that
+   * stay bound to the original skeleton, so severed parts keep animating.
+   * Bone weights are blended along the cuts, and the cut faces follow the
+   * bones of the vertices around them.
+   *
+   * Fragments are `THREE.SkinnedMesh` instances in the local space of the
+   * source mesh and are not re-centered. Add them to the parent of the source
+   * mesh. Morph targets are ignored.
+   *
+   * Fragments are not `DestructibleMesh` instances, so they have no lineage.
+   * Fracture the mesh returned by `fromSkinnedMesh()` instead for fragments
+   * that record their parent, options and seed.
+   * @param mesh The skinned mesh
+   * @param options Fracture options controlling the fracture behavior
+   * @param innerMaterial Material for the cut faces
+   * @param onFragment Optional callback called for each fragment for custom setup
+   * @returns The array of skinned fragment meshes (NOT added to scene)
+   */
+  static fractureSkinnedMesh(
+    mesh: THREE.SkinnedMesh,
+    options: FractureOptions,
+    innerMaterial?: THREE.Material,
+    onFragment?: (fragment: THREE.SkinnedMesh, index: number) => void,
+  ): THREE.SkinnedMesh[] {
+    const geometry = bakeSkinnedPose(mesh);
+    const fragmentGeometries = fractureGeometry(geometry, options);
+    geometry.dispose();
+
+    return fragmentGeometries.map((fragmentGeometry, index) => {
+      restoreBindPose(fragmentGeometry, mesh);
+
+      const fragment = new THREE.SkinnedMesh(
+        fragmentGeometry,
+        getFragmentMaterial(fragmentGeometry, mesh.material, innerMaterial),
+      );
+      fragment.position.copy(mesh.position);
+      fragment.quaternion.copy(mesh.quaternion);
+      fragment.scale.copy(mesh.scale);
+      fragment.bind(mesh.skeleton, mesh.bindMatrix);
+
+      fragment.castShadow = mesh.castShadow;
+      fragment.receiveShadow = mesh.receiveShadow;
+      fragment.frustumCulled = mesh.frustumCulled;
+      fragment.renderOrder = mesh.renderOrder;
+
+      if (onFragment) {
+        onFragment(fragment, index);
+      }
+
+      return fragment;
+    });
+  }
+
   /**
    * Helper method to create a fragment with inherited properties and materials
    * @internal
    */
   private createFragment(
     geometry: THREE.BufferGeometry,
+    lineage: FragmentLineage,
   ): DestructibleMesh {
     const fragment = new DestructibleMesh(
       geometry,
       this._outsideMaterial,
       this._insideMaterial,
     );
+    fragment._lineage = lineage;
 
-    // Set material array for geometries with material groups
-    // Group 0 (materialIndex 0) = outer material, Group 1 (materialIndex 1) = inner material
-    if (this._outsideMaterial && this._insideMaterial) {
-      fragment.material = [this._outsideMaterial, this._insideMaterial];
-    } else if (this._outsideMaterial) {
-      fragment.material = this._outsideMaterial;
+    const material = getFragmentMaterial(
+      geometry,
+      this._outsideMaterial,
+      this._insideMaterial,
+    );
+    if (material) {
+      fragment.material = material;
     }
 
     // Copy rendering properties from parent mesh
@@ -59,73 +309,48 @@ export class DestructibleMesh extends THREE.Mesh {
   }
 
   /**
-   * Fractures the mesh into fragments
-   * @param options Fracture options controlling the fracture behavior
-   * @param onFragment Optional callback called for each fragment for custom setup
-   * @param onComplete Optional callback called once after all fragments are created
-   * @returns The array of created fragment meshes (NOT added to scene)
+   * Creates the fragment meshes for the geometries produced by a fracture.
+   * Each geometry is re-centered on its pivot and the fragment is positioned
+   * so that it lines up with the parent mesh.
+   * @param siblings Lineage of the fragments created by the fracture so far
+   * @internal
    */
-  fracture(
+  private createFractureFragments(
+    fragmentGeometries: THREE.BufferGeometry[],
     options: FractureOptions,
     onFragment?: (fragment: DestructibleMesh, index: number) => void,
-    onComplete?: () => void,
+    siblings: FragmentLineage[] = [],
   ): DestructibleMesh[] {
-    if (!this.geometry) {
-      throw new Error("DestructibleMesh has no geometry to fracture");
-    }
-
-    // Perform the fracture operation based on the method
-    let fragmentGeometries: THREE.BufferGeometry[];
-
-    try {
-      if (options.fractureMethod === "voronoi") {
-        if (!options.voronoiOptions) {
-          throw new Error(
-            "voronoiOptions is required when fractureMethod is 'voronoi'",
-          );
-        }
-
-        // Convert FractureOptions to VoronoiFractureOptions format for the voronoiFracture function
-        const voronoiOptions = {
-          fragmentCount: options.fragmentCount,
-          mode: options.voronoiOptions.mode,
-          seedPoints: options.voronoiOptions.seedPoints,
-          impactPoint: options.voronoiOptions.impactPoint,
-          impactRadius: options.voronoiOptions.impactRadius,
-          projectionAxis: options.voronoiOptions.projectionAxis || "auto",
-          projectionNormal: options.voronoiOptions.projectionNormal,
-          useApproximation: options.voronoiOptions.useApproximation || false,
-          approximationNeighborCount:
-            options.voronoiOptions.approximationNeighborCount || 12,
-          textureScale: options.textureScale,
-          textureOffset: options.textureOffset,
-          seed: options.seed,
-        };
-
-        fragmentGeometries = voronoiFracture(this.geometry, voronoiOptions);
+    return fragmentGeometries.map((fragmentGeometry, index) => {
+      // Get the pivot point of this fragment
+      const center = new THREE.Vector3();
+      if (options.pivot === "centerOfMass") {
+        center.copy(computeMassProperties(fragmentGeometry).centroid);
       } else {
-        fragmentGeometries = simpleFracture(this.geometry, options);
+        fragmentGeometry.computeBoundingBox();
+        fragmentGeometry.boundingBox!.getCenter(center);
       }
-    } catch (error) {
-      console.error("Fracture operation failed:", error);
-      throw error;
-    }
-
-    // Create mesh objects for each fragment
-    const fragments = fragmentGeometries.map((fragmentGeometry, index) => {
-      // Compute bounding box to get the center of this fragment
-      fragmentGeometry.computeBoundingBox();
-      const center = new THREE.Vector3();
-      fragmentGeometry.boundingBox!.getCenter(center);
 
       // Translate the geometry so its center is at the origin
       fragmentGeometry.translate(-center.x, -center.y, -center.z);
+      setSourceOrigin(
+        fragmentGeometry,
+        getSourceOrigin(fragmentGeometry).add(center),
+      );
 
       // Recompute bounding sphere after translation
       fragmentGeometry.computeBoundingSphere();
 
       // Create fragment with inherited properties and materials
-      const fragment = this.createFragment(fragmentGeometry);
+      const fragment = this.createFragment(
+        fragmentGeometry,
+        new FragmentLineage(this.lineage, {
+          operation: "fracture",
+          siblings,
+          options,
+          seed: options.seed,
+        }),
+      );
 
       // Apply the parent's transform to the fragment position
       const worldCenter = center.clone().applyMatrix4(this.matrixWorld);
@@ -140,6 +365,82 @@ export class DestructibleMesh extends THREE.Mesh {
 
       return fragment;
     });
+  }
+
+  /**
+   * Creates the piece meshes for the geometries produced by a slice
+   * @internal
+   */
+  private createSlicePieces(
+    geometries: THREE.BufferGeometry[],
+    options: SliceOptions,
+    onSlice?: (piece: DestructibleMesh, index: number) => void,
+    {
+      operation = "slice",
+      planes,
+    }: { operation?: "slice" | "cut"; planes?: THREE.Plane[][] } = {},
+  ): DestructibleMesh[] {
+    const siblings: FragmentLineage[] = [];
+    return geometries.map((geometry, index) => {
+      // Create piece with inherited properties and materials
+      const piece = this.createFragment(
+        geometry,
+        new FragmentLineage(this.lineage, {
+          operation,
+          siblings,
+          options,
+          planes: planes?.[index],
+        }),
+      );
+
+      // Apply world transform
+      piece.position.copy(this.position);
+      piece.quaternion.copy(this.quaternion);
+      piece.scale.copy(this.scale);
+
+      // Call the onSlice callback if provided
+      if (onSlice) {
+        onSlice(piece, index);
+      }
+
+      return piece;
+    });
+  }
+
+  /**
+   * Fractures the mesh into fragments
+   * @param options Fracture options controlling the fracture behavior
+   * @param onFragment Optional callback called for each fragment for custom setup
+   * @param onComplete Optional callback called once after all fragments are created
+   * @returns The array of created fragment meshes (NOT added to scene)
+   */
+  fracture(
+    options: FractureOptions,
+    onFragment?: (fragment: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): DestructibleMesh[] {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to fracture");
+    }
+
+    // Fix the seed up front so it can be recorded in the fragment lineage
+    options = this.resolveSeed(options);
+
+    // Perform the fracture operation based on the method
+    let fragmentGeometries: THREE.BufferGeometry[];
+
+    try {
+      fragmentGeometries = fractureGeometry(this.geometry, options);
+    } catch (error) {
+      console.error("Fracture operation failed:", error);
+      throw error;
+    }
+
+    const fragments = this.createFractureFragments(
+      fragmentGeometries,
+      options,
+      onFragment,
+    );
 
     // Call the onComplete callback if provided
     if (onComplete) {
@@ -149,6 +450,44 @@ export class DestructibleMesh extends THREE.Mesh {
     return fragments;
   }
 
+  /**
+   * Returns the options with the random seed filled in, so the seed used by
+   * a Voronoi or glass fracture can be recorded in the lineage of its
+   * fragments. The options passed in are not modified.
+   * @internal
+   */
+  private resolveSeed(options: FractureOptions): FractureOptions {
+    if (options.seed !== undefined || options.fractureMethod === "simple") {
+      return options;
+    }
+    return new FractureOptions({
+      ...options,
+      seed: new SeededRandom().getSeed(),
+    });
+  }
+
+  /**
+   * Computes the cracks that `fracture()` would break the mesh along, without
+   * breaking it, so a cracked but intact object can be shown before it
+   * finally breaks. Fracturing the mesh with the same options afterwards
+   * breaks it along the cracks. If `options.seed` is not set, a random seed is
+   * chosen and stored in `options.seed`.
+   * @param options Fracture options of the later fracture
+   * @param crackOptions How the cracks are drawn
+   * @returns The crack geometry in local space, to draw as `THREE.LineSegments`
+   * (or as a `THREE.Mesh` for the "ribbon" style) added to this mesh
+   */
+  crack(
+    options: FractureOptions,
+    crackOptions?: CrackOptions,
+  ): THREE.BufferGeometry {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to crack");
+    }
+
+    return crackGeometry(this.geometry, options, crackOptions);
+  }
+
   /**
    * Slices the mesh into top and bottom parts using a plane in local space
    * @param sliceNormal Normal of the slice plane in local space (points towards the top slice)
@@ -179,27 +518,269 @@ export class DestructibleMesh extends THREE.Mesh {
       sliceOrigin,
       sliceOptions.textureScale,
       sliceOptions.textureOffset,
+      sliceOptions.attributeFill,
+      sliceOptions.cutFaceNoise,
+      sliceOptions.cutFaceUVMode,
+      sliceOptions.generateTangents,
+      sliceOptions.generateSourcePositions,
     );
 
     // Create DestructibleMesh instances for all fragments
-    const pieces = fragments.map((geometry, index) => {
-      // Create piece with inherited properties and materials
-      const piece = this.createFragment(geometry);
+    const pieces = this.createSlicePieces(fragments, sliceOptions, onSlice);
 
-      // Apply world transform
-      piece.position.copy(this.position);
-      piece.quaternion.copy(this.quaternion);
-      piece.scale.copy(this.scale);
+    // Call the onComplete callback if provided
+    if (onComplete) {
+      onComplete();
+    }
 
-      // Call the onSlice callback if provided
-      if (onSlice) {
-        onSlice(piece, index);
+    return pieces;
+  }
+
+  /**
+   * Fractures the mesh and packs the fragments into a single `FragmentBatch`,
+   * so they are drawn with one draw call per material
+   * @param options Fracture options controlling the fracture behavior
+   * @param mode How the fragments are packed into draw calls
+   * @param onFragment Optional callback called for each fragment before it is
+   * batched, e.g. to create its rigid body. `index` is the fragment's index in the batch.
+   * @returns The batch of fragments, in the same space as the fragments returned by `fracture()` (NOT added to scene)
+   */
+  fractureBatched(
+    options: FractureOptions,
+    mode: FragmentBatchMode = "batched",
+    onFragment?: (fragment: DestructibleMesh, index: number) => void,
+  ): FragmentBatch {
+    const fragments = this.fracture(options, onFragment);
+    const batch = new FragmentBatch(fragments, mode);
+
+    // The batch has its own copy of the geometry
+    fragments.forEach((fragment) => fragment.geometry.dispose());
+
+    return batch;
+  }
+
+  /**
+   * Fractures the mesh into fragments without blocking the main thread.
+   * The fracture runs in the workers configured with `setFractureWorkerFactory()`,
+   * or on the main thread if no worker is available. Voronoi cells are spread
+   * across all workers in the pool.
+   * @param options Fracture options controlling the fracture behavior
+   * @param onFragment Optional callback called for each fragment for custom setup
+   * @param onComplete Optional callback called once after all fragments are created
+   * @returns Promise resolving to the array of created fragment meshes (NOT added to scene)
+   */
+  async fractureAsync(
+    options: FractureOptions,
+    onFragment?: (fragment: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): Promise<DestructibleMesh[]> {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to fracture");
+    }
+
+    // Fix the seed up front so it can be recorded in the fragment lineage
+    options = this.resolveSeed(options);
+
+    let fragmentGeometries: THREE.BufferGeometry[];
+
+    try {
+      const pool = getFractureWorkerPool();
+      if (pool && options.fractureMethod === "voronoi") {
+        // Voronoi cells are independent, so spread them across the pool
+        fragmentGeometries = await voronoiFractureParallel(
+          this.geometry,
+          options,
+          pool,
+        );
+      } else {
+        const { geometries } = await runFractureTask({
+          type: "fracture",
+          geometry: serializeGeometry(this.geometry),
+          options: serializeFractureOptions(options),
+        });
+        fragmentGeometries = geometries.map((data) =>
+          deserializeGeometry(data),
+        );
       }
+    } catch (error) {
+      console.error("Fracture operation failed:", error);
+      throw error;
+    }
 
-      return piece;
+    const fragments = this.createFractureFragments(
+      fragmentGeometries,
+      options,
+      onFragment,
+    );
+
+    if (onComplete) {
+      onComplete();
+    }
+
+    return fragments;
+  }
+
+  /**
+   * Creates a job that fractures the mesh incrementally, so a large fracture
+   * can be spread across multiple frames. Each call to `step()` computes as
+   * many Voronoi cells as fit in the time budget and returns the fragments
+   * that were completed. Only the 'voronoi' and 'glass' fracture methods are
+   * supported.
+   * @param options Fracture options controlling the fracture behavior
+   * @param onFragment Optional callback called for each fragment for custom setup
+   * @param onComplete Optional callback called once after the last fragment is created
+   * @returns The fracture job
+   */
+  fractureIncremental(
+    options: FractureOptions,
+    onFragment?: (fragment: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): FractureJob {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to fracture");
+    }
+
+    if (
+      options.fractureMethod !== "voronoi" &&
+      options.fractureMethod !== "glass"
+    ) {
+      throw new Error(
+        "fractureIncremental only supports the 'voronoi' and 'glass' fracture methods",
+      );
+    }
+
+    // Fix the seed up front so it can be recorded in the fragment lineage
+    options = this.resolveSeed(options);
+
+    // The glass pattern is a 2.5D Voronoi fracture with its own seed points
+    this.geometry.computeBoundingBox();
+    const job = new VoronoiFractureJob(
+      this.geometry,
+      options.fractureMethod === "glass"
+        ? toGlassFractureOptions(options, this.geometry.boundingBox!)
+        : toVoronoiFractureOptions(options),
+    );
+
+    let fragmentCount = 0;
+    // All steps are one operation, so their fragments are siblings
+    const siblings: FragmentLineage[] = [];
+
+    return {
+      get done() {
+        return job.done;
+      },
+      get progress() {
+        return job.progress;
+      },
+      step: (maxMilliseconds?: number) => {
+        if (job.done) return [];
+
+        // Offset the indices so they continue from the previous step
+        const offset = fragmentCount;
+        const fragments = this.createFractureFragments(
+          job.step(maxMilliseconds),
+          options,
+          onFragment
+            ? (fragment, index) => onFragment(fragment, offset + index)
+            : undefined,
+          siblings,
+        );
+        fragmentCount += fragments.length;
+
+        if (job.done && onComplete) {
+          onComplete();
+        }
+
+        return fragments;
+      },
+    };
+  }
+
+  /**
+   * Slices the mesh into top and bottom parts without blocking the main thread.
+   * The slice runs in the worker configured with `setFractureWorkerFactory()`,
+   * or on the main thread if no worker is available.
+   * @param sliceNormal Normal of the slice plane in local space (points towards the top slice)
+   * @param sliceOrigin Origin of the slice plane in local space
+   * @param options Optional slice options
+   * @param onSlice Optional callback called for each piece for custom setup (material, physics, etc.)
+   * @param onComplete Optional callback called once after all pieces are created
+   * @returns Promise resolving to the array of DestructibleMesh pieces (NOT added to scene)
+   */
+  async sliceAsync(
+    sliceNormal: THREE.Vector3,
+    sliceOrigin: THREE.Vector3,
+    options?: SliceOptions,
+    onSlice?: (piece: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): Promise<DestructibleMesh[]> {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to slice");
+    }
+
+    const sliceOptions = options || new SliceOptions();
+
+    const { geometries } = await runFractureTask({
+      type: "slice",
+      geometry: serializeGeometry(this.geometry),
+      options: serializeSliceOptions(sliceNormal, sliceOrigin, sliceOptions),
     });
 
-    // Call the onComplete callback if provided
+    const pieces = this.createSlicePieces(
+      geometries.map((data) => deserializeGeometry(data)),
+      sliceOptions,
+      onSlice,
+    );
+
+    if (onComplete) {
+      onComplete();
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Slices the mesh by several planes at once. Each piece is only sliced by
+   * the planes that reach it, and pieces stay in the internal representation
+   * between planes, so this is faster than chaining `slice()` calls.
+   * The planes that bound each piece are recorded in `piece.lineage.planes`.
+   * @param planes The slice planes, in the local space of the mesh
+   * @param options Optional slice options
+   * @param onSlice Optional callback called for each piece for custom setup (material, physics, etc.)
+   * @param onComplete Optional callback called once after all pieces are created
+   * @returns Array of DestructibleMesh pieces created by the slices (NOT added to scene)
+   */
+  sliceMany(
+    planes: THREE.Plane[],
+    options?: SliceOptions,
+    onSlice?: (piece: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): DestructibleMesh[] {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to slice");
+    }
+
+    const sliceOptions = options || new SliceOptions();
+
+    const slicedPieces = sliceMany(
+      this.geometry,
+      planes,
+      sliceOptions.textureScale,
+      sliceOptions.textureOffset,
+      sliceOptions.attributeFill,
+      sliceOptions.cutFaceNoise,
+      sliceOptions.cutFaceUVMode,
+      sliceOptions.generateTangents,
+      sliceOptions.generateSourcePositions,
+    );
+
+    const pieces = this.createSlicePieces(
+      slicedPieces.map((piece) => piece.geometry),
+      sliceOptions,
+      onSlice,
+      { planes: slicedPieces.map((piece) => piece.planes) },
+    );
+
     if (onComplete) {
       onComplete();
     }
@@ -207,6 +788,31 @@ export class DestructibleMesh extends THREE.Mesh {
     return pieces;
   }
 
+  /**
+   * Dices the mesh into a uniform grid of pieces by slicing its bounding box
+   * into `divisions.x` × `divisions.y` × `divisions.z` cells
+   * @param divisions Number of cells along each local axis
+   * @param options Optional slice options
+   * @param onSlice Optional callback called for each piece for custom setup (material, physics, etc.)
+   * @param onComplete Optional callback called once after all pieces are created
+   * @returns Array of DestructibleMesh pieces (NOT added to scene)
+   */
+  dice(
+    divisions: THREE.Vector3Like,
+    options?: SliceOptions,
+    onSlice?: (piece: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): DestructibleMesh[] {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to slice");
+    }
+
+    this.geometry.computeBoundingBox();
+    const planes = createGridPlanes(this.geometry.boundingBox!, divisions);
+
+    return this.sliceMany(planes, options, onSlice, onComplete);
+  }
+
   /**
    * Slices the mesh using a plane defined in world space
    * @param worldNormal Normal of the slice plane in world space
@@ -240,6 +846,99 @@ export class DestructibleMesh extends THREE.Mesh {
     return this.slice(localNormal, localOrigin, options, onSlice, onComplete);
   }
 
+  /**
+   * Cuts the mesh by a closed cutter mesh, such as a sphere for a bullet hole
+   * or a custom shape for a cookie cutter. The part of the cutter surface
+   * inside the mesh becomes the cut face of the pieces, textured with the
+   * cutter's UV coordinates.
+   * @param cutter The closed cutter geometry (local space)
+   * @param options Optional slice options
+   * @param onPiece Optional callback called for each piece for custom setup (material, physics, etc.)
+   * @param onComplete Optional callback called once after all pieces are created
+   * @returns The pieces inside and outside of the cutter (NOT added to scene)
+   */
+  cut(
+    cutter: THREE.BufferGeometry,
+    options?: SliceOptions,
+    onPiece?: (piece: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): { inside: DestructibleMesh[]; outside: DestructibleMesh[] } {
+    if (!this.geometry) {
+      throw new Error("DestructibleMesh has no geometry to cut");
+    }
+
+    const sliceOptions = options || new SliceOptions();
+
+    const { inside, outside } = cut(
+      this.geometry,
+      cutter,
+      sliceOptions.textureScale,
+      sliceOptions.textureOffset,
+      sliceOptions.attributeFill,
+      sliceOptions.generateSourcePositions,
+    );
+
+    // The inside pieces come first, so the callback indices are unique
+    const pieces = this.createSlicePieces(
+      [...inside, ...outside],
+      sliceOptions,
+      onPiece,
+      { operation: "cut" },
+    );
+
+    if (onComplete) {
+      onComplete();
+    }
+
+    return {
+      inside: pieces.slice(0, inside.length),
+      outside: pieces.slice(inside.length),
+    };
+  }
+
+  /**
+   * Cuts the mesh by a closed cutter mesh placed in the scene
+   * @param cutter The cutter mesh (world space). Its geometry is not modified.
+   * @param options Optional slice options
+   * @param onPiece Optional callback called for each piece for custom setup (material, physics, etc.)
+   * @param onComplete Optional callback called once after all pieces are created
+   * @returns The pieces inside and outside of the cutter (NOT added to scene)
+   */
+  cutWorld(
+    cutter: THREE.Mesh,
+    options?: SliceOptions,
+    onPiece?: (piece: DestructibleMesh, index: number) => void,
+    onComplete?: () => void,
+  ): { inside: DestructibleMesh[]; outside: DestructibleMesh[] } {
+    // Update the matrices to ensure accurate transformation
+    this.updateMatrixWorld(true);
+    cutter.updateMatrixWorld(true);
+
+    // Transform the cutter to the object's local space
+    const cutterToLocal = new THREE.Matrix4()
+      .copy(this.matrixWorld)
+      .invert()
+      .multiply(cutter.matrixWorld);
+    const localCutter = cutter.geometry.clone().applyMatrix4(cutterToLocal);
+
+    try {
+      return this.cut(localCutter, options, onPiece, onComplete);
+    } finally {
+      localCutter.dispose();
+    }
+  }
+
+  /**
+   * Computes the volume, center of mass, surface and cut-face area, and
+   * inertia tensor of this mesh from its (closed) triangles. The results are
+   * in the local space of the mesh and don't account for its scale.
+   * @param density Density of the material (default: 1)
+   * @returns The mass properties of the mesh
+   */
+  computeMassProperties(density: number = 1): MassProperties {
+    return computeMassProperties(this.geometry, density);
+  }
+
   /**
    * Disposes the mesh geometry and material
    */
@@ -0,0 +1,456 @@
+import * as THREE from "three";
+
+/**
+ * How a FragmentBatch packs fragments into draw calls
+ * - `"batched"`: One `THREE.BatchedMesh` per material. Fragment transforms are
+ *   applied on the GPU, so updates are cheap.
+ * - `"merged"`: A single `THREE.Mesh` whose geometry contains every fragment,
+ *   with a `fragmentId` vertex attribute. Fragment transforms are applied to
+ *   the vertices on the CPU, so it works with any material and renderer.
+ */
+export type FragmentBatchMode = "batched" | "merged";
+
+const _matrix = new THREE.Matrix4();
+const _normalMatrix = new THREE.Matrix3();
+const _vector = new THREE.Vector3();
+const _position = new THREE.Vector3();
+const _quaternion = new THREE.Quaternion();
+const _scale = new THREE.Vector3();
+const _hidden = new THREE.Matrix4().makeScale(0, 0, 0);
+
+/**
+ * Packs the fragments of a fracture into a single object with one draw call
+ * per material, instead of one mesh and draw call per fragment. Add the
+ * batch to the scene in place of the fragments, and update the transform of
+ * each fragment from physics with `setTransformAt()`.
+ *
+ * Fragment transforms are relative to the batch, which is at the origin of
+ * its parent by default.
+ */
+export class FragmentBatch extends THREE.Group {
+  /**
+   * How the fragments are packed into draw calls
+   */
+  readonly mode: FragmentBatchMode;
+
+  /**
+   * Number of fragments in the batch
+   */
+  readonly count: number;
+
+  private readonly matrices: THREE.Matrix4[];
+  private readonly visibility: boolean[];
+
+  /**
+   * BatchedMeshes (one per material) and the instance id of each fragment in
+   * them, or null if the fragment has no triangles with that material
+   */
+  private readonly batches: {
+    mesh: THREE.BatchedMesh;
+    instanceIds: (number | null)[];
+  }[] = [];
+
+  /**
+   * Merged mesh, with the untransformed vertex data of every fragment
+   */
+  private readonly merged?: {
+    mesh: THREE.Mesh;
+    vertexStarts: number[];
+    positions: Float32Array;
+    normals?: Float32Array;
+    tangents?: Float32Array;
+  };
+
+  /**
+   * Creates a batch from the fragments returned by a fracture or slice
+   * @param fragments The fragment meshes. They must share the same materials
+   * and vertex attributes. Their geometry is copied, so they can be disposed.
+   * @param mode How the fragments are packed into draw calls
+   */
+  constructor(fragments: THREE.Mesh[], mode: FragmentBatchMode = "batched") {
+    super();
+
+    this.mode = mode;
+    this.count = fragments.length;
+    this.visibility = fragments.map(() => true);
+    this.matrices = fragments.map((fragment) => {
+      fragment.updateMatrix();
+      return fragment.matrix.clone();
+    });
+
+    if (fragments.length === 0) {
+      return;
+    }
+
+    if (mode === "batched") {
+      this.createBatchedMeshes(fragments);
+    } else {
+      this.merged = this.createMergedMesh(fragments);
+      for (let i = 0; i < this.count; i++) {
+        this.updateMergedFragment(i);
+      }
+    }
+
+    // Copy rendering properties from the fragments
+    const [first] = fragments;
+    for (const child of this.children) {
+      child.castShadow = first.castShadow;
+      child.receiveShadow = first.receiveShadow;
+      child.renderOrder = first.renderOrder;
+    }
+  }
+
+  /**
+   * Sets the transform of a fragment, e.g. from its rigid body
+   * @param index Index of the fragment
+   * @param position Position of the fragment
+   * @param quaternion Rotation of the fragment
+   * @param scale Scale of the fragment. Defaults to the current scale.
+   */
+  setTransformAt(
+    index: number,
+    position: THREE.Vector3Like,
+    quaternion: THREE.QuaternionLike,
+    scale?: THREE.Vector3Like,
+  ): this {
+    this.matrices[index].decompose(_position, _quaternion, _scale);
+    _position.copy(position);
+    _quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    if (scale) {
+      _scale.copy(scale);
+    }
+
+    return this.setMatrixAt(
+      index,
+      _matrix.compose(_position, _quaternion, _scale),
+    );
+  }
+
+  /**
+   * Sets the local transform matrix of a fragment
+   * @param index Index of the fragment
+   * @param matrix The transform matrix
+   */
+  setMatrixAt(index: number, matrix: THREE.Matrix4): this {
+    this.matrices[index].copy(matrix);
+
+    for (const { mesh, instanceIds } of this.batches) {
+      const instanceId = instanceIds[index];
+      if (instanceId !== null) {
+        mesh.setMatrixAt(instanceId, matrix);
+      }
+    }
+
+    if (this.merged) {
+      this.updateMergedFragment(index);
+    }
+
+    return this;
+  }
+
+  /**
+   * Gets the local transform matrix of a fragment
+   * @param index Index of the fragment
+   * @param target The matrix to store the result in
+   */
+  getMatrixAt(index: number, target: THREE.Matrix4): THREE.Matrix4 {
+    return target.copy(this.matrices[index]);
+  }
+
+  /**
+   * Shows or hides a fragment, e.g. once its rigid body is removed
+   * @param index Index of the fragment
+   * @param visible Whether the fragment is visible
+   */
+  setVisibleAt(index: number, visible: boolean): this {
+    this.visibility[index] = visible;
+
+    for (const { mesh, instanceIds } of this.batches) {
+      const instanceId = instanceIds[index];
+      if (instanceId !== null) {
+        mesh.setVisibleAt(instanceId, visible);
+      }
+    }
+
+    if (this.merged) {
+      this.updateMergedFragment(index);
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns whether a fragment is visible
+   * @param index Index of the fragment
+   */
+  getVisibleAt(index: number): boolean {
+    return this.visibility[index];
+  }
+
+  /**
+   * Disposes the geometry created for the batch. The materials are shared
+   * with the fragments and are not disposed.
+   */
+  dispose(): void {
+    for (const { mesh } of this.batches) {
+      mesh.dispose();
+    }
+    this.merged?.mesh.geometry.dispose();
+  }
+
+  /**
+   * Creates one BatchedMesh per material, with one instance per fragment
+   */
+  private createBatchedMeshes(fragments: THREE.Mesh[]): void {
+    const materials = getMaterials(fragments[0]);
+    const singleMaterial = !Array.isArray(fragments[0].material);
+
+    materials.forEach((material, materialIndex) => {
+      // BatchedMesh doesn't support material groups, so each material gets
+      // the triangles of its group
+      const parts = fragments.map((fragment) =>
+        singleMaterial
+          ? extractTriangles(fragment.geometry, null)
+          : extractTriangles(fragment.geometry, materialIndex),
+      );
+
+      let vertexCount = 0;
+      let indexCount = 0;
+      for (const part of parts) {
+        if (!part) continue;
+        vertexCount += part.attributes.position.count;
+        indexCount += part.index!.count;
+      }
+      if (vertexCount === 0) return;
+
+      const mesh = new THREE.BatchedMesh(
+        fragments.length,
+        vertexCount,
+        indexCount,
+        material,
+      );
+
+      const instanceIds = parts.map((part, i) => {
+        if (!part) return null;
+        const instanceId = mesh.addInstance(mesh.addGeometry(part));
+        mesh.setMatrixAt(instanceId, this.matrices[i]);
+        part.dispose();
+        return instanceId;
+      });
+
+      this.batches.push({ mesh, instanceIds });
+      this.add(mesh);
+    });
+  }
+
+  /**
+   * Merges the fragments into a single mesh with one group per material
+   */
+  private createMergedMesh(
+    fragments: THREE.Mesh[],
+  ): NonNullable<FragmentBatch["merged"]> {
+    const materials = getMaterials(fragments[0]);
+    const singleMaterial = !Array.isArray(fragments[0].material);
+    const geometries = fragments.map((fragment) => fragment.geometry);
+
+    const vertexStarts = [0];
+    for (const geometry of geometries) {
+      vertexStarts.push(
+        vertexStarts[vertexStarts.length - 1] +
+          geometry.attributes.position.count,
+      );
+    }
+    const vertexCount = vertexStarts[vertexStarts.length - 1];
+
+    const merged = new THREE.BufferGeometry();
+
+    // Copy every vertex attribute of the fragments back to back
+    for (const [name, attribute] of Object.entries(geometries[0].attributes)) {
+      const { itemSize } = attribute;
+      const array = new Float32Array(vertexCount * itemSize);
+      geometries.forEach((geometry, i) => {
+        const source = geometry.attributes[name];
+        if (!source) {
+          throw new Error(
+            `Fragment ${i} is missing the "${name}" attribute. All fragments must have the same attributes.`,
+          );
+        }
+        const offset = vertexStarts[i] * itemSize;
+        for (let j = 0; j < source.count; j++) {
+          for (let k = 0; k < itemSize; k++) {
+            array[offset + j * itemSize + k] = source.getComponent(j, k);
+          }
+        }
+      });
+      merged.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+    }
+
+    // Identifies the fragment of each vertex, e.g. for custom shaders
+    const fragmentIds = new Float32Array(vertexCount);
+    geometries.forEach((_, i) =>
+      fragmentIds.fill(i, vertexStarts[i], vertexStarts[i + 1]),
+    );
+    merged.setAttribute(
+      "fragmentId",
+      new THREE.BufferAttribute(fragmentIds, 1),
+    );
+
+    // Triangles are grouped by material, so each material is one draw call
+    const indices: number[] = [];
+    materials.forEach((_, materialIndex) => {
+      const start = indices.length;
+      geometries.forEach((geometry, i) => {
+        forEachIndex(geometry, singleMaterial ? null : materialIndex, (index) =>
+          indices.push(vertexStarts[i] + index),
+        );
+      });
+      if (!singleMaterial) {
+        merged.addGroup(start, indices.length - start, materialIndex);
+      }
+    });
+    merged.setIndex(
+      new THREE.BufferAttribute(
+        vertexCount > 0xffff
+          ? new Uint32Array(indices)
+          : new Uint16Array(indices),
+        1,
+      ),
+    );
+
+    const mesh = new THREE.Mesh(merged, fragments[0].material);
+
+    // Fragments move independently, so the bounds of the merged geometry are
+    // not kept up to date
+    mesh.frustumCulled = false;
+    this.add(mesh);
+
+    const { position, normal, tangent } = merged.attributes;
+    return {
+      mesh,
+      vertexStarts,
+      positions: (position.array as Float32Array).slice(),
+      normals: normal ? (normal.array as Float32Array).slice() : undefined,
+      tangents: tangent ? (tangent.array as Float32Array).slice() : undefined,
+    };
+  }
+
+  /**
+   * Transforms the vertices of a fragment in the merged geometry
+   */
+  private updateMergedFragment(index: number): void {
+    const { mesh, vertexStarts, positions, normals, tangents } = this.merged!;
+    const { position, normal, tangent } = mesh.geometry.attributes;
+
+    // Hidden fragments are collapsed to a point so they aren't rendered
+    const visible = this.visibility[index];
+    const matrix = visible ? this.matrices[index] : _hidden;
+    _normalMatrix.getNormalMatrix(matrix);
+
+    for (let i = vertexStarts[index]; i < vertexStarts[index + 1]; i++) {
+      _vector.fromArray(positions, i * 3).applyMatrix4(matrix);
+      position.setXYZ(i, _vector.x, _vector.y, _vector.z);
+
+      if (!visible) continue;
+
+      if (normals) {
+        _vector.fromArray(normals, i * 3).applyMatrix3(_normalMatrix);
+        _vector.normalize();
+        normal.setXYZ(i, _vector.x, _vector.y, _vector.z);
+      }
+
+      if (tangents) {
+        _vector.fromArray(tangents, i * 4).transformDirection(matrix);
+        tangent.setXYZ(i, _vector.x, _vector.y, _vector.z);
+      }
+    }
+
+    position.needsUpdate = true;
+    if (normal) normal.needsUpdate = true;
+    if (tangent) tangent.needsUpdate = true;
+  }
+}
+
+/**
+ * Returns the material of each material index of a fragment
+ */
+function getMaterials(fragment: THREE.Mesh): THREE.Material[] {
+  return Array.isArray(fragment.material)
+    ? fragment.material
+    : [fragment.material];
+}
+
+/**
+ * Calls `callback` with each index of the triangles that use a material
+ * @param materialIndex The material index, or null for every triangle
+ */
+function forEachIndex(
+  geometry: THREE.BufferGeometry,
+  materialIndex: number | null,
+  callback: (index: number) => void,
+): void {
+  const count = geometry.index
+    ? geometry.index.count
+    : geometry.attributes.position.count;
+  const getIndex = (i: number) => (geometry.index ? geometry.index.getX(i) : i);
+
+  let ranges: { start: number; count: number }[];
+  if (materialIndex === null) {
+    ranges = [{ start: 0, count }];
+  } else if (geometry.groups.length === 0) {
+    // Without groups, every triangle uses the first material
+    ranges = materialIndex === 0 ? [{ start: 0, count }] : [];
+  } else {
+    ranges = geometry.groups.filter(
+      (group) => group.materialIndex === materialIndex,
+    );
+  }
+
+  for (const range of ranges) {
+    const end = Math.min(range.start + range.count, count);
+    for (let i = range.start; i < end; i++) {
+      callback(getIndex(i));
+    }
+  }
+}
+
+/**
+ * Copies the triangles of a geometry that use a material into a new indexed
+ * geometry containing only the vertices they use. Attributes are converted to
+ * floats so every part has the same attribute layout.
+ * @param materialIndex The material index, or null for every triangle
+ * @returns The new geometry, or null if no triangles use the material
+ */
+function extractTriangles(
+  geometry: THREE.BufferGeometry,
+  materialIndex: number | null,
+): THREE.BufferGeometry | null {
+  const vertexMap = new Map<number, number>();
+  const indices: number[] = [];
+  forEachIndex(geometry, materialIndex, (index) => {
+    let mapped = vertexMap.get(index);
+    if (mapped === undefined) {
+      mapped = vertexMap.size;
+      vertexMap.set(index, mapped);
+    }
+    indices.push(mapped);
+  });
+
+  if (indices.length === 0) {
+    return null;
+  }
+
+  const part = new THREE.BufferGeometry();
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    const { itemSize } = attribute;
+    const array = new Float32Array(vertexMap.size * itemSize);
+    vertexMap.forEach((mapped, index) => {
+      for (let k = 0; k < itemSize; k++) {
+        array[mapped * itemSize + k] = attribute.getComponent(index, k);
+      }
+    });
+    part.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  }
+  part.setIndex(indices);
+
+  return part;
+}
@@ -2,6 +2,37 @@ import * as THREE from "three";
 import { DestructibleMesh } from "../DestructibleMesh";
 import { FractureOptions } from "../entities/FractureOptions";
 import { SliceOptions } from "../entities/SliceOptions";
+import { projectCutFaceUV } from "../fracture/CutFaceUV";
+import { serializeFragments } from "../utils/FragmentSerialization";
+import { setFractureWorkerFactory } from "../worker/FractureWorkerClient";
+
+/**
+ * Returns the position of a fragment vertex in the original mesh. The tests
+ * fracture meshes with an identity transform, so this is its world position.
+ */
+function getOriginalPosition(
+  fragment: DestructibleMesh,
+  index: number,
+): THREE.Vector3 {
+  return new THREE.Vector3()
+    .fromBufferAttribute(fragment.geometry.attributes.position, index)
+    .add(fragment.position);
+}
+
+/**
+ * Expects the `sourcePosition` attribute of a fragment to hold the position
+ * of each vertex in the original mesh
+ */
+function expectSourcePositions(fragment: DestructibleMesh): void {
+  const { position, sourcePosition } = fragment.geometry.attributes;
+  expect(sourcePosition).toBeDefined();
+  for (let i = 0; i < position.count; i++) {
+    const expected = getOriginalPosition(fragment, i);
+    expect(sourcePosition.getX(i)).toBeCloseTo(expected.x, 4);
+    expect(sourcePosition.getY(i)).toBeCloseTo(expected.y, 4);
+    expect(sourcePosition.getZ(i)).toBeCloseTo(expected.z, 4);
+  }
+}
 
 describe("DestructibleMesh", () => {
   let geometry: THREE.BufferGeometry;
@@ -64,6 +95,24 @@ describe("DestructibleMesh", () => {
       expect(fragments.length).toBeLessThanOrEqual(5);
     });
 
+    it("should pivot fragments at their center of mass", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const fragments = mesh.fracture(
+        new FractureOptions({
+          fragmentCount: 4,
+          seed: 7,
+          pivot: "centerOfMass",
+        }),
+      );
+
+      expect(fragments.length).toBeGreaterThan(0);
+      fragments.forEach((fragment) => {
+        const { centroid } = fragment.computeMassProperties();
+        expect(centroid.length()).toBeCloseTo(0);
+      });
+    });
+
     it("should create fragments with inherited materials", () => {
       const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
 
@@ -316,6 +365,336 @@ describe("DestructibleMesh", () => {
 
       expect(pieces.length).toBe(2);
     });
+
+    it("should slice by several planes at once", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const planes = [
+        new THREE.Plane(new THREE.Vector3(1, 0, 0), 0),
+        new THREE.Plane(new THREE.Vector3(0, 1, 0), 0),
+      ];
+      const onSlice = jest.fn();
+      const onComplete = jest.fn();
+
+      const pieces = mesh.sliceMany(planes, undefined, onSlice, onComplete);
+
+      expect(pieces.length).toBe(4);
+      expect(onSlice).toHaveBeenCalledTimes(4);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      pieces.forEach((piece) => {
+        expect(piece.lineage.operation).toBe("slice");
+        expect(piece.lineage.planes.length).toBe(2);
+      });
+    });
+
+    it("should cut the mesh with a closed cutter", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const cutter = new THREE.SphereGeometry(0.5, 8, 8).translate(1, 0, 0);
+      const onPiece = jest.fn();
+
+      const { inside, outside } = mesh.cut(cutter, undefined, onPiece);
+
+      expect(inside.length).toBe(1);
+      expect(outside.length).toBe(1);
+      expect(onPiece).toHaveBeenCalledTimes(2);
+      [...inside, ...outside].forEach((piece) => {
+        expect(piece.material).toEqual([outerMaterial, innerMaterial]);
+        expect(piece.lineage.operation).toBe("cut");
+      });
+    });
+
+    it("should cut the mesh with a cutter placed in world space", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      mesh.position.set(10, 0, 0);
+      const cutter = new THREE.Mesh(new THREE.SphereGeometry(0.5, 8, 8));
+      cutter.position.set(11, 0, 0);
+
+      const { inside, outside } = mesh.cutWorld(cutter);
+
+      expect(inside.length).toBe(1);
+      expect(outside.length).toBe(1);
+      inside[0].geometry.computeBoundingBox();
+      expect(inside[0].geometry.boundingBox!.min.x).toBeGreaterThan(0.4);
+    });
+
+    it("should dice the mesh into a grid", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const pieces = mesh.dice({ x: 2, y: 2, z: 2 });
+
+      expect(pieces.length).toBe(8);
+      pieces.forEach((piece) => {
+        expect(piece.lineage.planes.length).toBe(3);
+      });
+    });
+  });
+
+  describe("Async", () => {
+    it("should fracture asynchronously without a worker", async () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const options = new FractureOptions({
+        fragmentCount: 4,
+        seed: 123,
+        voronoiOptions: {
+          mode: "3D",
+        },
+      });
+
+      const callback = jest.fn();
+      const onComplete = jest.fn();
+      const fragments = await mesh.fractureAsync(options, callback, onComplete);
+
+      expect(fragments.length).toBeGreaterThan(0);
+      expect(callback).toHaveBeenCalledTimes(fragments.length);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      fragments.forEach((fragment) => {
+        expect(fragment).toBeInstanceOf(DestructibleMesh);
+        expect(fragment.material).toEqual([outerMaterial, innerMaterial]);
+      });
+    });
+
+    it("should match the synchronous fracture for the same seed", async () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const createOptions = () =>
+        new FractureOptions({
+          fragmentCount: 4,
+          seed: 123,
+          voronoiOptions: {
+            mode: "3D",
+          },
+        });
+
+      const syncFragments = mesh.fracture(createOptions());
+      const asyncFragments = await mesh.fractureAsync(createOptions());
+
+      expect(asyncFragments.length).toBe(syncFragments.length);
+      asyncFragments.forEach((fragment, i) => {
+        expect(fragment.position.distanceTo(syncFragments[i].position)).toBe(0);
+      });
+    });
+
+    it("should slice asynchronously without a worker", async () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const pieces = await mesh.sliceAsync(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3(0, 0, 0),
+      );
+
+      expect(pieces.length).toBe(2);
+    });
+
+    it("should fall back to the main thread if workers cannot be created", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      setFractureWorkerFactory(() => {
+        throw new Error("Worker is not defined");
+      }, 4);
+
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const fragments = await mesh.fractureAsync(
+        new FractureOptions({ fragmentCount: 3, seed: 1 }),
+      );
+
+      expect(fragments.length).toBeGreaterThan(0);
+      expect(warn).toHaveBeenCalled();
+
+      setFractureWorkerFactory(null);
+      warn.mockRestore();
+    });
+
+    it("should reject if there is no geometry", async () => {
+      const mesh = new DestructibleMesh();
+      mesh.geometry = undefined as unknown as THREE.BufferGeometry;
+
+      await expect(mesh.fractureAsync(new FractureOptions())).rejects.toThrow(
+        "no geometry",
+      );
+    });
+  });
+
+  describe("Incremental", () => {
+    it("should emit fragments across multiple steps", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const onFragment = jest.fn();
+      const onComplete = jest.fn();
+      const job = mesh.fractureIncremental(
+        new FractureOptions({ fragmentCount: 4, seed: 5 }),
+        onFragment,
+        onComplete,
+      );
+
+      const fragments: DestructibleMesh[] = [];
+      let steps = 0;
+      while (!job.done) {
+        fragments.push(...job.step(0));
+        steps++;
+      }
+
+      expect(steps).toBe(4);
+      expect(job.progress).toBe(1);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(onFragment).toHaveBeenCalledTimes(fragments.length);
+      fragments.forEach((fragment, index) => {
+        expect(onFragment).toHaveBeenCalledWith(fragment, index);
+      });
+    });
+
+    it("should match the synchronous fracture", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const createOptions = () =>
+        new FractureOptions({ fragmentCount: 4, seed: 5 });
+
+      const expected = mesh.fracture(createOptions());
+      const fragments = mesh.fractureIncremental(createOptions()).step();
+
+      expect(fragments.length).toBe(expected.length);
+      fragments.forEach((fragment, i) => {
+        expect(fragment.position.equals(expected[i].position)).toBe(true);
+      });
+    });
+
+    it("should reject the simple fracture method", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      expect(() =>
+        mesh.fractureIncremental(
+          new FractureOptions({ fractureMethod: "simple" }),
+        ),
+      ).toThrow("only supports the 'voronoi' and 'glass' fracture methods");
+    });
+
+    it("should match the synchronous glass fracture", () => {
+      const pane = new THREE.BoxGeometry(4, 6, 0.2);
+      const mesh = new DestructibleMesh(pane, outerMaterial, innerMaterial);
+
+      const createOptions = () =>
+        new FractureOptions({
+          fractureMethod: "glass",
+          fragmentCount: 12,
+          seed: 5,
+          glassOptions: { impactPoint: new THREE.Vector3(0.5, 1, 0) },
+        });
+
+      const expected = mesh.fracture(createOptions());
+      const fragments = mesh.fractureIncremental(createOptions()).step();
+
+      expect(fragments.length).toBe(expected.length);
+      fragments.forEach((fragment, i) => {
+        expect(fragment.position.equals(expected[i].position)).toBe(true);
+      });
+    });
+  });
+
+  describe("Baking", () => {
+    it("should recreate baked fragments at their original positions", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      mesh.position.set(1, 2, 3);
+      mesh.updateMatrixWorld();
+
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed: 7 }),
+      );
+      const data = serializeFragments(
+        fragments.map((f) => f.geometry),
+        { offsets: fragments.map((f) => f.position) },
+      );
+
+      const onFragment = jest.fn();
+      const baked = DestructibleMesh.fromBaked(
+        data,
+        outerMaterial,
+        innerMaterial,
+        onFragment,
+      );
+
+      expect(baked.length).toBe(fragments.length);
+      expect(onFragment).toHaveBeenCalledTimes(fragments.length);
+      baked.forEach((fragment, i) => {
+        expect(fragment).toBeInstanceOf(DestructibleMesh);
+        expect(fragment.position.equals(fragments[i].position)).toBe(true);
+        expect(fragment.material).toEqual([outerMaterial, innerMaterial]);
+        expect(fragment.geometry.attributes.position.array).toEqual(
+          fragments[i].geometry.attributes.position.array,
+        );
+      });
+    });
+
+    it("should allow baked fragments to be fractured again", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 2, seed: 3 }),
+      );
+
+      const [baked] = DestructibleMesh.fromBaked(
+        serializeFragments(fragments.map((f) => f.geometry)),
+        outerMaterial,
+        innerMaterial,
+      );
+
+      expect(
+        baked.fracture(new FractureOptions({ fragmentCount: 2, seed: 3 }))
+          .length,
+      ).toBeGreaterThan(0);
+    });
+
+    it("should keep cut-face UVs continuous when baked fragments are fractured again", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new FractureOptions({
+        fragmentCount: 3,
+        seed: 4,
+        cutFaceUVMode: "box",
+      });
+      const fragments = mesh.fracture(options);
+
+      const [baked] = DestructibleMesh.fromBaked(
+        serializeFragments(
+          fragments.map((f) => f.geometry),
+          { offsets: fragments.map((f) => f.position) },
+        ),
+        outerMaterial,
+        innerMaterial,
+      );
+
+      const expected = fragments[0].fracture(options);
+      const actual = baked.fracture(options);
+
+      expect(actual.length).toBe(expected.length);
+      actual.forEach((fragment, i) => {
+        expect(fragment.geometry.attributes.uv.array).toEqual(
+          expected[i].geometry.attributes.uv.array,
+        );
+      });
+    });
+
+    it("should record the positions of the original mesh on refractured baked fragments", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 3, seed: 6 }),
+      );
+
+      // Baked without a sourcePosition attribute
+      const [baked] = DestructibleMesh.fromBaked(
+        serializeFragments(
+          fragments.map((f) => f.geometry),
+          { offsets: fragments.map((f) => f.position) },
+        ),
+        outerMaterial,
+        innerMaterial,
+      );
+      baked.updateMatrixWorld();
+      const refractured = baked.fracture(
+        new FractureOptions({
+          fragmentCount: 2,
+          seed: 6,
+          generateSourcePositions: true,
+        }),
+      );
+
+      refractured.forEach(expectSourcePositions);
+    });
   });
 
   describe("Refracturing", () => {
@@ -373,6 +752,269 @@ describe("DestructibleMesh", () => {
         }
       });
     });
+
+    it("should project cut-face UVs in the space of the original mesh", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new FractureOptions({
+        fragmentCount: 3,
+        seed: 5,
+        cutFaceUVMode: "triplanar",
+      });
+
+      const [parent] = mesh.fracture(options);
+      parent.updateMatrixWorld();
+      const fragments = parent.fracture(options);
+
+      fragments.forEach((fragment) => {
+        const { normal, uv } = fragment.geometry.attributes;
+        const group = fragment.geometry.groups[1];
+        for (let i = group.start; i < group.start + group.count; i++) {
+          const index = fragment.geometry.index!.getX(i);
+          const p = getOriginalPosition(fragment, index);
+          const n = new THREE.Vector3().fromBufferAttribute(normal, index);
+          const expected = projectCutFaceUV(p, n, "triplanar");
+          expect(uv.getX(index)).toBeCloseTo(expected.x, 4);
+          expect(uv.getY(index)).toBeCloseTo(expected.y, 4);
+        }
+      });
+    });
+
+    it("should record the positions of the original mesh on refractured fragments", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new FractureOptions({
+        fragmentCount: 3,
+        seed: 5,
+        generateSourcePositions: true,
+        cutFaceNoise: { amplitude: 0.05, frequency: 4 },
+      });
+
+      const [parent] = mesh.fracture(options);
+      parent.updateMatrixWorld();
+      const fragments = parent.fracture(options);
+
+      fragments.forEach(expectSourcePositions);
+    });
+  });
+
+  describe("Lineage", () => {
+    it("should treat a new mesh as the root of its lineage", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      expect(mesh.lineage.generation).toBe(0);
+      expect(mesh.lineage.parentId).toBeNull();
+      expect(mesh.lineage.rootId).toBe(mesh.lineage.id);
+      expect(mesh.lineage.operation).toBeNull();
+    });
+
+    it("should record the parent, root and generation of fragments", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new FractureOptions({ fragmentCount: 3, seed: 42 });
+
+      const fragments = mesh.fracture(options);
+      const grandchildren = fragments[0].fracture(options);
+
+      fragments.forEach((fragment) => {
+        expect(fragment.lineage.generation).toBe(1);
+        expect(fragment.lineage.parentId).toBe(mesh.lineage.id);
+        expect(fragment.lineage.rootId).toBe(mesh.lineage.id);
+        expect(fragment.lineage.operation).toBe("fracture");
+        expect(fragment.lineage.options).toBe(options);
+        expect(fragment.lineage.seed).toBe(42);
+      });
+
+      const ids = new Set(fragments.map((fragment) => fragment.lineage.id));
+      expect(ids.size).toBe(fragments.length);
+
+      const lineage = grandchildren[0].lineage;
+      expect(lineage.generation).toBe(2);
+      expect(lineage.parentId).toBe(fragments[0].lineage.id);
+      expect(lineage.rootId).toBe(mesh.lineage.id);
+      expect(lineage.getAncestors()).toEqual([
+        fragments[0].lineage,
+        mesh.lineage,
+      ]);
+      expect(lineage.isDescendantOf(mesh.lineage)).toBe(true);
+      expect(lineage.isDescendantOf(fragments[1].lineage)).toBe(false);
+    });
+
+    it("should list the siblings of a fragment", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4 }),
+      );
+      const siblings = fragments[0].lineage.getSiblings();
+
+      expect(siblings).toEqual(
+        fragments.slice(1).map((fragment) => fragment.lineage),
+      );
+    });
+
+    it("should not list pieces of other operations as siblings", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+
+      const halves = mesh.slice(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3(0, 0, 0),
+      );
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed: 1 }),
+      );
+
+      expect(halves[0].lineage.operationId).not.toBe(
+        fragments[0].lineage.operationId,
+      );
+      expect(halves[0].lineage.getSiblings()).toEqual(
+        halves.slice(1).map((half) => half.lineage),
+      );
+      expect(fragments[0].lineage.getSiblings()).toEqual(
+        fragments.slice(1).map((fragment) => fragment.lineage),
+      );
+    });
+
+    it("should record the seed generated for an unseeded fracture", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new FractureOptions({ fragmentCount: 4 });
+
+      const fragments = mesh.fracture(options);
+      const seed = fragments[0].lineage.seed;
+
+      expect(seed).toBeDefined();
+      // The options passed in are left unchanged so they can be reused
+      expect(options.seed).toBeUndefined();
+
+      // Fracturing again with the recorded seed reproduces the fragments
+      const replayed = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed }),
+      );
+      expect(replayed.map((fragment) => fragment.position)).toEqual(
+        fragments.map((fragment) => fragment.position),
+      );
+    });
+
+    it("should record slices in the lineage", () => {
+      const mesh = new DestructibleMesh(geometry, outerMaterial, innerMaterial);
+      const options = new SliceOptions();
+
+      const pieces = mesh.slice(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3(0, 0, 0),
+        options,
+      );
+
+      pieces.forEach((piece) => {
+        expect(piece.lineage.generation).toBe(1);
+        expect(piece.lineage.operation).toBe("slice");
+        expect(piece.lineage.options).toBe(options);
+        expect(piece.lineage.seed).toBeUndefined();
+      });
+    });
+  });
+
+  describe("Skinned Meshes", () => {
+    /**
+     * Skins the sphere to two bones and rotates the upper bone
+     */
+    const createSkinnedMesh = () => {
+      const position = geometry.attributes.position;
+      const skinIndices: number[] = [];
+      const skinWeights: number[] = [];
+      for (let i = 0; i < position.count; i++) {
+        const weight = THREE.MathUtils.clamp(position.getY(i) + 0.5, 0, 1);
+        skinIndices.push(0, 1, 0, 0);
+        skinWeights.push(1 - weight, weight, 0, 0);
+      }
+      geometry.setAttribute(
+        "skinIndex",
+        new THREE.Uint16BufferAttribute(skinIndices, 4),
+      );
+      geometry.setAttribute(
+        "skinWeight",
+        new THREE.Float32BufferAttribute(skinWeights, 4),
+      );
+
+      const root = new THREE.Bone();
+      root.position.y = -1;
+      const child = new THREE.Bone();
+      child.position.y = 1;
+      root.add(child);
+
+      const mesh = new THREE.SkinnedMesh(geometry, outerMaterial);
+      mesh.add(root);
+      mesh.bind(new THREE.Skeleton([root, child]));
+
+      child.rotation.z = Math.PI / 3;
+      return mesh;
+    };
+
+    it("should create a static mesh in the current pose", () => {
+      const skinned = createSkinnedMesh();
+
+      const mesh = DestructibleMesh.fromSkinnedMesh(skinned, innerMaterial);
+
+      expect(mesh.geometry.attributes.skinIndex).toBeUndefined();
+      expect(mesh.geometry.attributes.skinWeight).toBeUndefined();
+
+      const expected = new THREE.Vector3();
+      const actual = new THREE.Vector3();
+      for (let i = 0; i < geometry.attributes.position.count; i++) {
+        skinned.applyBoneTransform(
+          i,
+          expected.fromBufferAttribute(geometry.attributes.position, i),
+        );
+        actual.fromBufferAttribute(mesh.geometry.attributes.position, i);
+        expect(actual.distanceTo(expected)).toBeLessThan(1e-5);
+      }
+
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed: 1 }),
+      );
+      expect(fragments.length).toBeGreaterThan(1);
+    });
+
+    it("should create skinned fragments bound to the original skeleton", () => {
+      const skinned = createSkinnedMesh();
+      const posedBounds = new THREE.Box3()
+        .setFromBufferAttribute(
+          DestructibleMesh.fromSkinnedMesh(skinned).geometry.attributes
+            .position as THREE.BufferAttribute,
+        )
+        .expandByScalar(1e-3);
+
+      const fragments = DestructibleMesh.fractureSkinnedMesh(
+        skinned,
+        new FractureOptions({ fragmentCount: 6, seed: 3 }),
+        innerMaterial,
+      );
+
+      expect(fragments.length).toBeGreaterThan(1);
+      const vertex = new THREE.Vector3();
+      fragments.forEach((fragment) => {
+        expect(fragment).toBeInstanceOf(THREE.SkinnedMesh);
+        expect(fragment.skeleton).toBe(skinned.skeleton);
+        expect(fragment.material).toEqual([outerMaterial, innerMaterial]);
+
+        const { position, skinIndex, skinWeight } =
+          fragment.geometry.attributes;
+        for (let i = 0; i < position.count; i++) {
+          // Bone indices stay valid and the weights stay normalized
+          for (let j = 0; j < 4; j++) {
+            expect(Number.isInteger(skinIndex.getComponent(i, j))).toBe(true);
+          }
+          const weights = [0, 1, 2, 3].map((j) =>
+            skinWeight.getComponent(i, j),
+          );
+          expect(weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+
+          // In the current pose, the fragments line up with the source mesh
+          fragment.applyBoneTransform(
+            i,
+            vertex.fromBufferAttribute(position, i),
+          );
+          expect(posedBounds.containsPoint(vertex)).toBe(true);
+        }
+      });
+    });
   });
 
   describe("Material Handling", () => {
@@ -415,5 +1057,53 @@ describe("DestructibleMesh", () => {
         });
       });
     });
+
+    it("should map an outer material array to the source material groups", () => {
+      const count = geometry.index!.count;
+      const half = Math.floor(count / 6) * 3;
+      geometry.addGroup(0, half, 0);
+      geometry.addGroup(half, count - half, 1);
+
+      const secondMaterial = new THREE.MeshStandardMaterial();
+      const mesh = new DestructibleMesh(
+        geometry,
+        [outerMaterial, secondMaterial],
+        innerMaterial,
+      );
+
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed: 1 }),
+      );
+
+      fragments.forEach((fragment) => {
+        expect(fragment.material).toEqual([
+          outerMaterial,
+          secondMaterial,
+          innerMaterial,
+        ]);
+        expect(fragment.geometry.groups.map((g) => g.materialIndex)).toEqual([
+          0, 1, 2,
+        ]);
+      });
+    });
+
+    it("should merge material groups when using a single outer material", () => {
+      const mesh = new DestructibleMesh(
+        new THREE.BoxGeometry(1, 1, 1),
+        outerMaterial,
+        innerMaterial,
+      );
+
+      const fragments = mesh.fracture(
+        new FractureOptions({ fragmentCount: 4, seed: 1 }),
+      );
+
+      fragments.forEach((fragment) => {
+        expect(fragment.material).toEqual([outerMaterial, innerMaterial]);
+        expect(fragment.geometry.groups.map((g) => g.materialIndex)).toEqual([
+          0, 1,
+        ]);
+      });
+    });
   });
 });
@@ -0,0 +1,164 @@
+import * as THREE from "three";
+import { DestructibleMesh } from "../DestructibleMesh";
+import { FragmentBatch } from "../FragmentBatch";
+import { FractureOptions } from "../entities/FractureOptions";
+
+describe("FragmentBatch", () => {
+  let outerMaterial: THREE.MeshStandardMaterial;
+  let innerMaterial: THREE.MeshStandardMaterial;
+  let fragments: DestructibleMesh[];
+
+  beforeEach(() => {
+    outerMaterial = new THREE.MeshStandardMaterial();
+    innerMaterial = new THREE.MeshStandardMaterial();
+
+    const mesh = new DestructibleMesh(
+      new THREE.SphereGeometry(1, 16, 16),
+      outerMaterial,
+      innerMaterial,
+    );
+    fragments = mesh.fracture(
+      new FractureOptions({ fragmentCount: 5, seed: 7 }),
+    );
+  });
+
+  describe("batched", () => {
+    it("should create one BatchedMesh per material", () => {
+      const batch = new FragmentBatch(fragments);
+
+      expect(batch.mode).toBe("batched");
+      expect(batch.count).toBe(fragments.length);
+      expect(batch.children.length).toBe(2);
+
+      const [outer, inner] = batch.children as THREE.BatchedMesh[];
+      expect(outer).toBeInstanceOf(THREE.BatchedMesh);
+      expect(outer.material).toBe(outerMaterial);
+      expect(inner.material).toBe(innerMaterial);
+      expect(outer.instanceCount).toBe(fragments.length);
+    });
+
+    it("should create a single BatchedMesh for a single material", () => {
+      fragments.forEach((fragment) => (fragment.material = outerMaterial));
+
+      const batch = new FragmentBatch(fragments);
+
+      expect(batch.children.length).toBe(1);
+    });
+
+    it("should start with the fragment transforms", () => {
+      const batch = new FragmentBatch(fragments);
+      const [outer] = batch.children as THREE.BatchedMesh[];
+
+      const matrix = new THREE.Matrix4();
+      outer.getMatrixAt(2, matrix);
+      expect(matrix.elements).toEqual(fragments[2].matrix.elements);
+    });
+
+    it("should update the transform of a fragment", () => {
+      const batch = new FragmentBatch(fragments);
+
+      const position = { x: 1, y: 2, z: 3 };
+      const quaternion = new THREE.Quaternion().setFromAxisAngle(
+        new THREE.Vector3(0, 1, 0),
+        Math.PI / 2,
+      );
+      batch.setTransformAt(1, position, quaternion);
+
+      const expected = new THREE.Matrix4().compose(
+        new THREE.Vector3(1, 2, 3),
+        quaternion,
+        new THREE.Vector3(1, 1, 1),
+      );
+      const matrix = new THREE.Matrix4();
+      expect(batch.getMatrixAt(1, matrix).equals(expected)).toBe(true);
+
+      for (const child of batch.children as THREE.BatchedMesh[]) {
+        child.getMatrixAt(1, matrix);
+        expect(matrix.equals(expected)).toBe(true);
+      }
+    });
+
+    it("should hide fragments", () => {
+      const batch = new FragmentBatch(fragments);
+
+      batch.setVisibleAt(0, false);
+
+      expect(batch.getVisibleAt(0)).toBe(false);
+      for (const child of batch.children as THREE.BatchedMesh[]) {
+        expect(child.getVisibleAt(0)).toBe(false);
+      }
+    });
+  });
+
+  describe("merged", () => {
+    it("should merge the fragments into a single mesh", () => {
+      const batch = new FragmentBatch(fragments, "merged");
+
+      expect(batch.children.length).toBe(1);
+      const mesh = batch.children[0] as THREE.Mesh;
+      expect(mesh.material).toEqual([outerMaterial, innerMaterial]);
+
+      const vertexCount = fragments.reduce(
+        (sum, fragment) => sum + fragment.geometry.attributes.position.count,
+        0,
+      );
+      const { position, fragmentId } = mesh.geometry.attributes;
+      expect(position.count).toBe(vertexCount);
+      expect(fragmentId.getX(0)).toBe(0);
+      expect(fragmentId.getX(vertexCount - 1)).toBe(fragments.length - 1);
+
+      // One group per material
+      expect(mesh.geometry.groups.map((g) => g.materialIndex)).toEqual([0, 1]);
+    });
+
+    it("should apply the fragment transforms to the vertices", () => {
+      const batch = new FragmentBatch(fragments, "merged");
+      const mesh = batch.children[0] as THREE.Mesh;
+      const { position, fragmentId } = mesh.geometry.attributes;
+
+      batch.setTransformAt(
+        1,
+        { x: 10, y: 0, z: 0 },
+        { x: 0, y: 0, z: 0, w: 1 },
+      );
+
+      const source = fragments[1].geometry.attributes.position;
+      const start = Array.from(fragmentId.array).indexOf(1);
+      for (let i = 0; i < source.count; i++) {
+        expect(position.getX(start + i)).toBeCloseTo(source.getX(i) + 10);
+        expect(position.getY(start + i)).toBeCloseTo(source.getY(i));
+      }
+    });
+
+    it("should collapse hidden fragments", () => {
+      const batch = new FragmentBatch(fragments, "merged");
+      const mesh = batch.children[0] as THREE.Mesh;
+      const { position, fragmentId } = mesh.geometry.attributes;
+
+      batch.setVisibleAt(0, false);
+
+      for (let i = 0; i < position.count; i++) {
+        if (fragmentId.getX(i) !== 0) break;
+        expect(position.getX(i)).toBe(0);
+        expect(position.getY(i)).toBe(0);
+        expect(position.getZ(i)).toBe(0);
+      }
+    });
+  });
+
+  it("should be created by DestructibleMesh.fractureBatched()", () => {
+    const mesh = new DestructibleMesh(
+      new THREE.SphereGeometry(1, 16, 16),
+      outerMaterial,
+      innerMaterial,
+    );
+
+    const batch = mesh.fractureBatched(
+      new FractureOptions({ fragmentCount: 5, seed: 7 }),
+      "merged",
+    );
+
+    expect(batch).toBeInstanceOf(FragmentBatch);
+    expect(batch.count).toBe(fragments.length);
+  });
+});
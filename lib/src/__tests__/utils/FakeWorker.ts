@@ -0,0 +1,26 @@
+import { processFractureRequest } from "../../worker/FractureWorker";
+import { FractureWorkerRequest } from "../../worker/FractureWorkerMessages";
+
+/**
+ * Stand-in for a Worker that processes requests on the current thread
+ */
+export class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: FractureWorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(request: FractureWorkerRequest) {
+    this.requests.push(request);
+    setTimeout(() => {
+      if (this.terminated) return;
+      this.onmessage?.({
+        data: processFractureRequest(request),
+      } as MessageEvent);
+    }, 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
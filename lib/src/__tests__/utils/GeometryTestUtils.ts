@@ -0,0 +1,51 @@
+import * as THREE from "three";
+
+/**
+ * Returns the total volume enclosed by one or more closed, indexed geometries
+ */
+export function getVolume(
+  geometries: THREE.BufferGeometry | THREE.BufferGeometry[],
+): number {
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+
+  let volume = 0;
+  for (const geometry of Array.isArray(geometries)
+    ? geometries
+    : [geometries]) {
+    const position = geometry.attributes.position;
+    const index = geometry.index!;
+    for (let i = 0; i < index.count; i += 3) {
+      a.fromBufferAttribute(position, index.getX(i));
+      b.fromBufferAttribute(position, index.getX(i + 1));
+      c.fromBufferAttribute(position, index.getX(i + 2));
+      volume += a.dot(b.cross(c)) / 6;
+    }
+  }
+  return volume;
+}
+
+/**
+ * Returns the positions of the vertices used by the cut-face material group
+ * (the last group) of each geometry
+ */
+export function getCutFacePositions(
+  geometries: THREE.BufferGeometry | THREE.BufferGeometry[],
+): THREE.Vector3[] {
+  return (Array.isArray(geometries) ? geometries : [geometries]).flatMap(
+    (geometry) => {
+      const group = geometry.groups[geometry.groups.length - 1];
+      const indices = new Set<number>();
+      for (let i = group.start; i < group.start + group.count; i++) {
+        indices.add(geometry.index!.getX(i));
+      }
+      return [...indices].map((i) =>
+        new THREE.Vector3().fromBufferAttribute(
+          geometry.attributes.position,
+          i,
+        ),
+      );
+    },
+  );
+}
@@ -0,0 +1,404 @@
+/**
+ * Minimal reader and writer for binary glTF (.glb) files. Only the parts of
+ * the format needed to pre-fracture meshes are supported, so this can run
+ * headlessly in Node without the browser APIs GLTFLoader/GLTFExporter need.
+ */
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+const COMPONENT_TYPES: Record<
+  number,
+  {
+    bytes: number;
+    read: (view: DataView, offset: number) => number;
+    normalize: number;
+  }
+> = {
+  5120: { bytes: 1, read: (v, o) => v.getInt8(o), normalize: 127 },
+  5121: { bytes: 1, read: (v, o) => v.getUint8(o), normalize: 255 },
+  5122: { bytes: 2, read: (v, o) => v.getInt16(o, true), normalize: 32767 },
+  5123: { bytes: 2, read: (v, o) => v.getUint16(o, true), normalize: 65535 },
+  5125: { bytes: 4, read: (v, o) => v.getUint32(o, true), normalize: 1 },
+  5126: { bytes: 4, read: (v, o) => v.getFloat32(o, true), normalize: 1 },
+};
+
+/**
+ * Extensions that change how mesh data is stored and can't be read
+ */
+const UNSUPPORTED_EXTENSIONS = [
+  "KHR_draco_mesh_compression",
+  "EXT_meshopt_compression",
+];
+
+const TYPE_SIZES: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT4: 16,
+};
+
+/**
+ * The subset of the glTF JSON schema used by the pre-fracture tool. Any other
+ * properties are preserved as-is when copying objects.
+ */
+export interface GLTFNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  camera?: number;
+  skin?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extras?: unknown;
+}
+
+export interface GLTFPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GLTFJson {
+  asset: { version: string; generator?: string };
+  scene?: number;
+  scenes?: { name?: string; nodes?: number[] }[];
+  nodes?: GLTFNode[];
+  meshes?: { name?: string; primitives: GLTFPrimitive[] }[];
+  accessors?: {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: string;
+    min?: number[];
+    max?: number[];
+    sparse?: unknown;
+  }[];
+  bufferViews?: {
+    buffer: number;
+    byteOffset?: number;
+    byteLength: number;
+    byteStride?: number;
+    target?: number;
+  }[];
+  buffers?: { byteLength: number; uri?: string }[];
+  materials?: { name?: string; [key: string]: unknown }[];
+  textures?: unknown[];
+  samplers?: unknown[];
+  images?: {
+    name?: string;
+    uri?: string;
+    mimeType?: string;
+    bufferView?: number;
+  }[];
+  cameras?: unknown[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+}
+
+/**
+ * A parsed .glb file
+ */
+export class GLBFile {
+  json: GLTFJson;
+  private buffers: Uint8Array[];
+
+  private constructor(json: GLTFJson, buffers: Uint8Array[]) {
+    this.json = json;
+    this.buffers = buffers;
+  }
+
+  /**
+   * Parses a binary glTF file
+   * @param data The contents of the .glb file
+   * @returns The parsed file
+   */
+  static parse(data: ArrayBuffer | ArrayBufferView): GLBFile {
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (bytes.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+      throw new Error("File is not a binary glTF (.glb) file");
+    }
+
+    const version = view.getUint32(4, true);
+    if (version !== 2) {
+      throw new Error(`Unsupported glTF version ${version}`);
+    }
+
+    let json: GLTFJson | null = null;
+    let bin: Uint8Array | undefined;
+
+    let offset = 12;
+    while (offset + 8 <= bytes.byteLength) {
+      const chunkLength = view.getUint32(offset, true);
+      const chunkType = view.getUint32(offset + 4, true);
+      const chunk = bytes.subarray(offset + 8, offset + 8 + chunkLength);
+
+      if (chunkType === CHUNK_JSON) {
+        json = JSON.parse(new TextDecoder().decode(chunk)) as GLTFJson;
+      } else if (chunkType === CHUNK_BIN) {
+        bin = chunk;
+      }
+
+      offset += 8 + chunkLength;
+    }
+
+    if (!json) {
+      throw new Error("glTF file is missing the JSON chunk");
+    }
+
+    for (const extension of json.extensionsRequired ?? []) {
+      if (UNSUPPORTED_EXTENSIONS.includes(extension)) {
+        throw new Error(`glTF extension ${extension} is not supported`);
+      }
+    }
+
+    // The first buffer without a uri refers to the BIN chunk. Other buffers
+    // must be embedded as data URIs.
+    const buffers = (json.buffers ?? []).map((buffer) => {
+      if (buffer.uri === undefined) {
+        if (!bin) {
+          throw new Error("glTF file is missing the BIN chunk");
+        }
+        return bin;
+      }
+      return decodeDataUri(buffer.uri);
+    });
+
+    return new GLBFile(json, buffers);
+  }
+
+  /**
+   * Returns the bytes referenced by a buffer view
+   */
+  getBufferViewData(index: number): Uint8Array {
+    const bufferView = this.json.bufferViews![index];
+    return this.buffers[bufferView.buffer].subarray(
+      bufferView.byteOffset ?? 0,
+      (bufferView.byteOffset ?? 0) + bufferView.byteLength,
+    );
+  }
+
+  /**
+   * Reads the contents of an accessor as a flat array of numbers. Normalized
+   * integer data is converted to floating point.
+   * @param index The index of the accessor
+   * @returns The values and the number of components per element
+   */
+  readAccessor(index: number): { array: Float32Array; itemSize: number } {
+    const accessor = this.json.accessors![index];
+    if (accessor.sparse) {
+      throw new Error("Sparse accessors are not supported");
+    }
+
+    const component = COMPONENT_TYPES[accessor.componentType];
+    const itemSize = TYPE_SIZES[accessor.type];
+    if (!component || !itemSize) {
+      throw new Error(
+        `Unsupported accessor type ${accessor.type}/${accessor.componentType}`,
+      );
+    }
+
+    const array = new Float32Array(accessor.count * itemSize);
+
+    // Accessors without a buffer view are all zeros
+    if (accessor.bufferView === undefined) {
+      return { array, itemSize };
+    }
+
+    const bufferView = this.json.bufferViews![accessor.bufferView];
+    const data = this.getBufferViewData(accessor.bufferView);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const stride = bufferView.byteStride ?? component.bytes * itemSize;
+    const scale = accessor.normalized ? 1 / component.normalize : 1;
+
+    for (let i = 0; i < accessor.count; i++) {
+      const base = (accessor.byteOffset ?? 0) + i * stride;
+      for (let k = 0; k < itemSize; k++) {
+        const value = component.read(view, base + k * component.bytes);
+        array[i * itemSize + k] = accessor.normalized
+          ? Math.max(value * scale, -1)
+          : value;
+      }
+    }
+
+    return { array, itemSize };
+  }
+}
+
+/**
+ * Builds the binary buffer of a new .glb file
+ */
+export class GLBWriter {
+  json: GLTFJson;
+  private chunks: Uint8Array[] = [];
+  private byteLength = 0;
+
+  constructor(json: GLTFJson) {
+    this.json = json;
+    this.json.bufferViews = [];
+    this.json.accessors = [];
+  }
+
+  /**
+   * Appends data to the binary buffer
+   * @returns The index of the new buffer view
+   */
+  addBufferView(data: Uint8Array, target?: number): number {
+    const byteOffset = this.byteLength;
+    this.chunks.push(data);
+    this.byteLength += data.byteLength;
+
+    // Keep every buffer view 4-byte aligned
+    const padding = (4 - (this.byteLength % 4)) % 4;
+    if (padding > 0) {
+      this.chunks.push(new Uint8Array(padding));
+      this.byteLength += padding;
+    }
+
+    this.json.bufferViews!.push({
+      buffer: 0,
+      byteOffset,
+      byteLength: data.byteLength,
+      ...(target !== undefined ? { target } : {}),
+    });
+    return this.json.bufferViews!.length - 1;
+  }
+
+  /**
+   * Adds a float vertex attribute accessor
+   * @returns The index of the new accessor
+   */
+  addAttribute(
+    array: Float32Array,
+    itemSize: number,
+    includeBounds: boolean = false,
+  ): number {
+    const bufferView = this.addBufferView(
+      new Uint8Array(array.buffer, array.byteOffset, array.byteLength),
+      34962, // ARRAY_BUFFER
+    );
+
+    const count = array.length / itemSize;
+    const accessor: NonNullable<GLTFJson["accessors"]>[number] = {
+      bufferView,
+      componentType: 5126,
+      count,
+      type: ["SCALAR", "VEC2", "VEC3", "VEC4"][itemSize - 1],
+    };
+
+    // POSITION accessors are required to have bounds
+    if (includeBounds) {
+      const min = new Array(itemSize).fill(Infinity);
+      const max = new Array(itemSize).fill(-Infinity);
+      for (let i = 0; i < count; i++) {
+        for (let k = 0; k < itemSize; k++) {
+          min[k] = Math.min(min[k], array[i * itemSize + k]);
+          max[k] = Math.max(max[k], array[i * itemSize + k]);
+        }
+      }
+      accessor.min = min;
+      accessor.max = max;
+    }
+
+    this.json.accessors!.push(accessor);
+    return this.json.accessors!.length - 1;
+  }
+
+  /**
+   * Adds an index accessor, using 16-bit indices when possible
+   * @returns The index of the new accessor
+   */
+  addIndices(indices: ArrayLike<number>, vertexCount: number): number {
+    const use16Bit = vertexCount <= 0xffff;
+    const array = use16Bit
+      ? Uint16Array.from(indices)
+      : Uint32Array.from(indices);
+    const bufferView = this.addBufferView(
+      new Uint8Array(array.buffer, array.byteOffset, array.byteLength),
+      34963, // ELEMENT_ARRAY_BUFFER
+    );
+
+    this.json.accessors!.push({
+      bufferView,
+      componentType: use16Bit ? 5123 : 5125,
+      count: array.length,
+      type: "SCALAR",
+    });
+    return this.json.accessors!.length - 1;
+  }
+
+  /**
+   * Serializes the file to the binary glTF format
+   */
+  write(): Uint8Array {
+    this.json.buffers =
+      this.byteLength > 0 ? [{ byteLength: this.byteLength }] : [];
+    if (this.json.bufferViews!.length === 0) delete this.json.bufferViews;
+    if (this.json.accessors!.length === 0) delete this.json.accessors;
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(this.json));
+    // The JSON chunk is padded with spaces, the BIN chunk with zeros
+    const jsonLength = align4(jsonBytes.byteLength);
+    const binLength = this.byteLength;
+    const totalLength =
+      12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0);
+
+    const output = new Uint8Array(totalLength);
+    const view = new DataView(output.buffer);
+
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, CHUNK_JSON, true);
+    output.fill(0x20, 20, 20 + jsonLength);
+    output.set(jsonBytes, 20);
+
+    if (binLength > 0) {
+      let offset = 20 + jsonLength;
+      view.setUint32(offset, binLength, true);
+      view.setUint32(offset + 4, CHUNK_BIN, true);
+      offset += 8;
+      for (const chunk of this.chunks) {
+        output.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Decodes a base64 data URI
+ */
+function decodeDataUri(uri: string): Uint8Array {
+  const match = /^data:[^;,]*;base64,(.*)$/.exec(uri);
+  if (!match) {
+    throw new Error(`External glTF buffers are not supported (${uri})`);
+  }
+
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
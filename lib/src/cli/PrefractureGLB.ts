@@ -0,0 +1,351 @@
+import * as THREE from "three";
+import { VoronoiFractureOptions } from "../entities/VoronoiFractureOptions";
+import { voronoiFracture } from "../fracture/VoronoiFracture";
+import { GLBFile, GLBWriter, GLTFJson, GLTFNode } from "./GLB";
+
+/**
+ * Options for pre-fracturing a .glb file
+ */
+export interface PrefractureOptions {
+  /**
+   * Number of Voronoi cells to generate for each mesh
+   */
+  fragmentCount: number;
+
+  /**
+   * Voronoi fracture mode
+   */
+  mode: "3D" | "2.5D";
+
+  /**
+   * Seed for the random number generator. The same seed always produces the
+   * same fragments.
+   */
+  seed: number;
+
+  /**
+   * Impact point in the space of the glTF scene. Fragments are concentrated
+   * around this point.
+   */
+  impactPoint?: THREE.Vector3;
+
+  /**
+   * Radius around the impact point where fragment density is highest, in the
+   * local space of each mesh
+   */
+  impactRadius?: number;
+
+  /**
+   * Name of an existing material to use for the cut faces. If not found, a new
+   * material with this name is added.
+   * Default: "Inner"
+   */
+  innerMaterialName?: string;
+}
+
+/**
+ * Fractures every mesh in a binary glTF file. Each mesh node is replaced by a
+ * group node with the same name and transform whose children are the
+ * fragments, named `<node>_fragment_<index>`. Each fragment has two material
+ * slots: the original material of the mesh and the inner material for the
+ * cut faces.
+ *
+ * Skins and animations are not carried over.
+ * @param data The contents of the input .glb file
+ * @param options Fracture options
+ * @returns The contents of the output .glb file
+ */
+export function prefractureGLB(
+  data: ArrayBuffer | ArrayBufferView,
+  options: PrefractureOptions,
+): Uint8Array {
+  const input = GLBFile.parse(data);
+  const json = input.json;
+
+  const nodes: GLTFNode[] = (json.nodes ?? []).map((node) => {
+    const copy = { ...node, children: node.children ? [...node.children] : [] };
+    // The mesh is replaced by fragments; skins are not supported
+    delete copy.mesh;
+    delete copy.skin;
+    return copy;
+  });
+
+  const output: GLTFJson = {
+    asset: { version: "2.0", generator: "three-pinata prefracture" },
+    scene: json.scene,
+    scenes: json.scenes,
+    nodes,
+    meshes: [],
+    materials: json.materials ? [...json.materials] : [],
+    textures: json.textures,
+    samplers: json.samplers,
+    cameras: json.cameras,
+    extensionsUsed: json.extensionsUsed?.filter(
+      (extension) => extension !== "KHR_mesh_quantization",
+    ),
+    extensionsRequired: json.extensionsRequired?.filter(
+      (extension) => extension !== "KHR_mesh_quantization",
+    ),
+  };
+  const writer = new GLBWriter(output);
+
+  // Images stored in the binary buffer need to be copied to the new buffer
+  output.images = json.images?.map((image) =>
+    image.bufferView !== undefined
+      ? {
+          ...image,
+          bufferView: writer.addBufferView(
+            input.getBufferViewData(image.bufferView),
+          ),
+        }
+      : image,
+  );
+
+  const innerMaterialName = options.innerMaterialName ?? "Inner";
+  let innerMaterial = output.materials!.findIndex(
+    (material) => material.name === innerMaterialName,
+  );
+  if (innerMaterial === -1) {
+    output.materials!.push({
+      name: innerMaterialName,
+      pbrMetallicRoughness: {
+        baseColorFactor: [0.8, 0.8, 0.8, 1],
+        metallicFactor: 0,
+        roughnessFactor: 1,
+      },
+    });
+    innerMaterial = output.materials!.length - 1;
+  }
+
+  const worldMatrices = computeWorldMatrices(json);
+
+  (json.nodes ?? []).forEach((node, nodeIndex) => {
+    if (node.mesh === undefined) return;
+
+    const { geometry, materials } = readMesh(input, node.mesh);
+    if (!geometry) return;
+
+    // The impact point is given in scene space, but the fracture is performed
+    // in the local space of the mesh
+    const impactPoint = options.impactPoint
+      ?.clone()
+      .applyMatrix4(worldMatrices[nodeIndex].clone().invert());
+
+    const fragments = voronoiFracture(
+      geometry,
+      new VoronoiFractureOptions({
+        fragmentCount: options.fragmentCount,
+        mode: options.mode,
+        seed: options.seed,
+        impactPoint,
+        impactRadius: options.impactRadius,
+      }),
+    );
+
+    const nodeName = node.name ?? `node${nodeIndex}`;
+    fragments.forEach((fragment, fragmentIndex) => {
+      // Center each fragment on its own origin, like DestructibleMesh does
+      fragment.computeBoundingBox();
+      const center = fragment.boundingBox!.getCenter(new THREE.Vector3());
+      fragment.translate(-center.x, -center.y, -center.z);
+
+      const name = `${nodeName}_fragment_${fragmentIndex}`;
+      const mesh = writeFragmentMesh(writer, fragment, name, [
+        ...materials,
+        innerMaterial,
+      ]);
+      if (mesh === null) return;
+
+      nodes.push({ name, mesh, translation: center.toArray() });
+      nodes[nodeIndex].children!.push(nodes.length - 1);
+    });
+  });
+
+  // Remove empty properties to keep the output tidy
+  nodes.forEach((node) => {
+    if (node.children?.length === 0) delete node.children;
+  });
+  for (const key of Object.keys(output) as (keyof GLTFJson)[]) {
+    const value = output[key];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete output[key];
+    }
+  }
+
+  return writer.write();
+}
+
+/**
+ * Computes the world matrix of every node in the file
+ */
+function computeWorldMatrices(json: GLTFJson): THREE.Matrix4[] {
+  const nodes = json.nodes ?? [];
+  const matrices = nodes.map(() => new THREE.Matrix4());
+  const parents = new Array<number>(nodes.length).fill(-1);
+  nodes.forEach((node, i) => node.children?.forEach((c) => (parents[c] = i)));
+
+  const localMatrix = (node: GLTFNode) => {
+    if (node.matrix) {
+      return new THREE.Matrix4().fromArray(node.matrix);
+    }
+    return new THREE.Matrix4().compose(
+      new THREE.Vector3().fromArray(node.translation ?? [0, 0, 0]),
+      new THREE.Quaternion().fromArray(node.rotation ?? [0, 0, 0, 1]),
+      new THREE.Vector3().fromArray(node.scale ?? [1, 1, 1]),
+    );
+  };
+
+  const computed = new Array<boolean>(nodes.length).fill(false);
+  const compute = (i: number): THREE.Matrix4 => {
+    if (!computed[i]) {
+      const local = localMatrix(nodes[i]);
+      matrices[i] =
+        parents[i] === -1
+          ? local
+          : new THREE.Matrix4().multiplyMatrices(compute(parents[i]), local);
+      computed[i] = true;
+    }
+    return matrices[i];
+  };
+
+  nodes.forEach((_, i) => compute(i));
+  return matrices;
+}
+
+/**
+ * Reads the triangles of a glTF mesh into a single geometry. All primitives
+ * are merged, with one material group per primitive so each fragment keeps
+ * the materials of the original primitives.
+ */
+function readMesh(
+  file: GLBFile,
+  meshIndex: number,
+): {
+  geometry: THREE.BufferGeometry | null;
+  materials: (number | undefined)[];
+} {
+  const mesh = file.json.meshes![meshIndex];
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  const groups: { start: number; count: number }[] = [];
+  const materials: (number | undefined)[] = [];
+  let hasNormals = true;
+
+  for (const primitive of mesh.primitives) {
+    // Only triangle lists can be fractured
+    if ((primitive.mode ?? 4) !== 4) continue;
+    if (primitive.attributes.POSITION === undefined) continue;
+
+    const groupStart = indices.length;
+
+    const baseVertex = positions.length / 3;
+    const position = file.readAccessor(primitive.attributes.POSITION).array;
+    const vertexCount = position.length / 3;
+    position.forEach((value) => positions.push(value));
+
+    if (primitive.attributes.NORMAL !== undefined) {
+      file
+        .readAccessor(primitive.attributes.NORMAL)
+        .array.forEach((value) => normals.push(value));
+    } else {
+      hasNormals = false;
+    }
+
+    if (primitive.attributes.TEXCOORD_0 !== undefined) {
+      file
+        .readAccessor(primitive.attributes.TEXCOORD_0)
+        .array.forEach((value) => uvs.push(value));
+    } else {
+      for (let i = 0; i < vertexCount * 2; i++) uvs.push(0);
+    }
+
+    if (primitive.indices !== undefined) {
+      const primitiveIndices = file.readAccessor(primitive.indices).array;
+      primitiveIndices.forEach((index) => indices.push(baseVertex + index));
+    } else {
+      for (let i = 0; i < vertexCount; i++) indices.push(baseVertex + i);
+    }
+
+    groups.push({ start: groupStart, count: indices.length - groupStart });
+    materials.push(primitive.material);
+  }
+
+  if (indices.length === 0) {
+    return { geometry: null, materials };
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(new Float32Array(positions), 3),
+  );
+  geometry.setAttribute(
+    "uv",
+    new THREE.BufferAttribute(new Float32Array(uvs), 2),
+  );
+  geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+  groups.forEach(({ start, count }, i) => geometry.addGroup(start, count, i));
+
+  if (hasNormals) {
+    geometry.setAttribute(
+      "normal",
+      new THREE.BufferAttribute(new Float32Array(normals), 3),
+    );
+  } else {
+    geometry.computeVertexNormals();
+  }
+
+  return { geometry, materials };
+}
+
+/**
+ * Writes a fragment geometry as a glTF mesh with one primitive per material
+ * group
+ * @param materials The glTF material of each material group
+ * @returns The index of the new mesh, or null if the fragment is empty
+ */
+function writeFragmentMesh(
+  writer: GLBWriter,
+  geometry: THREE.BufferGeometry,
+  name: string,
+  materials: (number | undefined)[],
+): number | null {
+  const groups = geometry.groups.filter((group) => group.count > 0);
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const vertexCount = geometry.attributes.position.count;
+  const attributes = {
+    POSITION: writer.addAttribute(
+      geometry.attributes.position.array as Float32Array,
+      3,
+      true,
+    ),
+    NORMAL: writer.addAttribute(
+      geometry.attributes.normal.array as Float32Array,
+      3,
+    ),
+    TEXCOORD_0: writer.addAttribute(
+      geometry.attributes.uv.array as Float32Array,
+      2,
+    ),
+  };
+
+  const index = geometry.index!.array;
+  const primitives = groups.map((group) => ({
+    attributes,
+    indices: writer.addIndices(
+      index.subarray(group.start, group.start + group.count),
+      vertexCount,
+    ),
+    ...(materials[group.materialIndex ?? 0] !== undefined
+      ? { material: materials[group.materialIndex ?? 0] }
+      : {}),
+  }));
+
+  writer.json.meshes!.push({ name, primitives });
+  return writer.json.meshes!.length - 1;
+}
@@ -0,0 +1,126 @@
+import * as THREE from "three";
+import { GLBFile, GLBWriter } from "../GLB";
+import { prefractureGLB } from "../PrefractureGLB";
+
+/**
+ * Creates a .glb file containing a single box mesh
+ */
+function createBoxGLB(): Uint8Array {
+  const geometry = new THREE.BoxGeometry(2, 1, 1);
+  const writer = new GLBWriter({
+    asset: { version: "2.0" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: "Box", mesh: 0, translation: [5, 0, 0] }],
+    materials: [{ name: "Painted" }],
+  });
+
+  writer.json.meshes = [
+    {
+      primitives: [
+        {
+          attributes: {
+            POSITION: writer.addAttribute(
+              geometry.attributes.position.array as Float32Array,
+              3,
+              true,
+            ),
+            NORMAL: writer.addAttribute(
+              geometry.attributes.normal.array as Float32Array,
+              3,
+            ),
+            TEXCOORD_0: writer.addAttribute(
+              geometry.attributes.uv.array as Float32Array,
+              2,
+            ),
+          },
+          indices: writer.addIndices(
+            geometry.index!.array,
+            geometry.attributes.position.count,
+          ),
+          material: 0,
+        },
+      ],
+    },
+  ];
+
+  return writer.write();
+}
+
+describe("prefractureGLB", () => {
+  const options = { fragmentCount: 5, mode: "3D" as const, seed: 1234 };
+
+  it("should replace each mesh with named fragment nodes", () => {
+    const output = GLBFile.parse(prefractureGLB(createBoxGLB(), options));
+    const nodes = output.json.nodes!;
+
+    // The original node keeps its name and transform but loses its mesh
+    expect(nodes[0].name).toBe("Box");
+    expect(nodes[0].mesh).toBeUndefined();
+    expect(nodes[0].translation).toEqual([5, 0, 0]);
+
+    const children = nodes[0].children!;
+    expect(children.length).toBe(5);
+    children.forEach((child, i) => {
+      expect(nodes[child].name).toBe(`Box_fragment_${i}`);
+      expect(nodes[child].mesh).toBeDefined();
+    });
+  });
+
+  it("should assign the outer and inner materials to the fragments", () => {
+    const output = GLBFile.parse(prefractureGLB(createBoxGLB(), options));
+    const materials = output.json.materials!;
+
+    expect(materials.map((m) => m.name)).toEqual(["Painted", "Inner"]);
+
+    for (const mesh of output.json.meshes!) {
+      const primitiveMaterials = mesh.primitives.map((p) => p.material);
+      expect(primitiveMaterials).toContain(1);
+      primitiveMaterials.forEach((material) =>
+        expect([0, 1]).toContain(material),
+      );
+    }
+  });
+
+  it("should reuse an existing inner material", () => {
+    const output = GLBFile.parse(
+      prefractureGLB(createBoxGLB(), {
+        ...options,
+        innerMaterialName: "Painted",
+      }),
+    );
+
+    expect(output.json.materials!.length).toBe(1);
+  });
+
+  it("should write valid fragment geometry", () => {
+    const output = GLBFile.parse(prefractureGLB(createBoxGLB(), options));
+
+    let vertexCount = 0;
+    for (const mesh of output.json.meshes!) {
+      for (const primitive of mesh.primitives) {
+        const position = output.readAccessor(primitive.attributes.POSITION);
+        const indices = output.readAccessor(primitive.indices!).array;
+        const count = position.array.length / 3;
+
+        expect(indices.length % 3).toBe(0);
+        indices.forEach((index) => expect(index).toBeLessThan(count));
+        vertexCount += count;
+      }
+    }
+    expect(vertexCount).toBeGreaterThan(0);
+  });
+
+  it("should be reproducible with the same seed", () => {
+    const a = prefractureGLB(createBoxGLB(), options);
+    const b = prefractureGLB(createBoxGLB(), options);
+
+    expect(a).toEqual(b);
+  });
+
+  it("should reject files that are not .glb files", () => {
+    expect(() => prefractureGLB(new Uint8Array(64), options)).toThrow(
+      "not a binary glTF",
+    );
+  });
+});
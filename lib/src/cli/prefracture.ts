@@ -0,0 +1,124 @@
+/**
+ * Pre-fractures the meshes in a .glb file so the fragments can be loaded at
+ * runtime without running any fracture code.
+ *
+ * Usage:
+ *   npx tsx lib/src/cli/prefracture.ts input.glb -o output.glb --count 20 --seed 1234
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Vector3 } from "three";
+import { prefractureGLB } from "./PrefractureGLB";
+
+const USAGE = `Usage: prefracture <input.glb> [options]
+
+Options:
+  -o, --output <file>          Output file (default: <input>.fractured.glb)
+  -n, --count <number>         Number of fragments per mesh (default: 20)
+  -m, --mode <3D|2.5D>         Voronoi fracture mode (default: 3D)
+  -s, --seed <number>          Random seed (default: random, printed to stdout)
+  -i, --impact <x,y,z>         Impact point in scene space
+  -r, --impact-radius <number> Radius of the impact region
+      --inner-material <name>  Material used for the cut faces (default: Inner)
+  -h, --help                   Show this message`;
+
+/**
+ * Parses a number, exiting with an error if it is invalid
+ */
+function parseNumber(value: string, name: string): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    fail(`Invalid value for --${name}: ${value}`);
+  }
+  return number;
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        output: { type: "string", short: "o" },
+        count: { type: "string", short: "n", default: "20" },
+        mode: { type: "string", short: "m", default: "3D" },
+        seed: { type: "string", short: "s" },
+        impact: { type: "string", short: "i" },
+        "impact-radius": { type: "string", short: "r" },
+        "inner-material": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  if (positionals.length !== 1) {
+    fail("Expected exactly one input file");
+  }
+
+  const input = positionals[0];
+  const output = values.output ?? input.replace(/(\.glb)?$/i, ".fractured.glb");
+
+  const fragmentCount = parseNumber(values.count!, "count");
+  if (!Number.isInteger(fragmentCount) || fragmentCount < 1) {
+    fail("--count must be a positive integer");
+  }
+
+  const mode = values.mode!.toUpperCase();
+  if (mode !== "3D" && mode !== "2.5D") {
+    fail(`Invalid value for --mode: ${values.mode}`);
+  }
+
+  const seed =
+    values.seed !== undefined
+      ? parseNumber(values.seed, "seed")
+      : Math.floor(Math.random() * 2147483647);
+
+  let impactPoint: Vector3 | undefined;
+  if (values.impact !== undefined) {
+    const components = values.impact
+      .split(",")
+      .map((value) => parseNumber(value, "impact"));
+    if (components.length !== 3) {
+      fail(`Invalid value for --impact: ${values.impact}`);
+    }
+    impactPoint = new Vector3(...components);
+  }
+
+  const impactRadius =
+    values["impact-radius"] !== undefined
+      ? parseNumber(values["impact-radius"], "impact-radius")
+      : undefined;
+
+  const result = prefractureGLB(readFileSync(input), {
+    fragmentCount,
+    mode,
+    seed,
+    impactPoint,
+    impactRadius,
+    innerMaterialName: values["inner-material"],
+  });
+
+  writeFileSync(output, result);
+  process.stdout.write(`Wrote ${output} (seed ${seed})\n`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,24 @@
+/**
+ * Options for the crack geometry created by `DestructibleMesh.crack()`
+ */
+export interface CrackOptions {
+  /**
+   * How the cracks are drawn. Default: "lines"
+   * - 'lines': Line segments, for `THREE.LineSegments`
+   * - 'ribbon': Thin strips lying on the surface, for `THREE.Mesh`. The U
+   *   coordinate runs across the strip and the V coordinate along it, in
+   *   multiples of the width, so a crack texture can be applied like a decal.
+   */
+  style?: "lines" | "ribbon";
+
+  /**
+   * Width of the ribbons, in local units. Default: 0.02
+   */
+  width?: number;
+
+  /**
+   * Distance the cracks are lifted off the surface along its normal, in local
+   * units, to avoid z-fighting. Default: 0.001
+   */
+  offset?: number;
+}
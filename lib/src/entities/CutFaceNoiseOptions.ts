@@ -0,0 +1,30 @@
+/**
+ * Options for roughening the cut faces with seeded noise. The cut faces are
+ * tessellated and displaced, so the pieces on both sides of a cut still fit
+ * together.
+ */
+export interface CutFaceNoiseOptions {
+  /**
+   * Maximum distance the cut faces are displaced, in local units
+   */
+  amplitude: number;
+
+  /**
+   * Number of noise features per local unit. The cut faces are tessellated
+   * into triangles of roughly 1 / frequency in size, so high frequencies
+   * produce many triangles.
+   */
+  frequency: number;
+
+  /**
+   * Number of noise layers. Each layer has twice the frequency and half the
+   * amplitude of the previous one, and doubles the tessellation density.
+   * Default: 1
+   */
+  octaves?: number;
+
+  /**
+   * Seed for the noise. Default: 0
+   */
+  seed?: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * How texture coordinates are generated on the cut faces
+ * - 'triangulation': Coordinates of the cut face in its own plane, with an
+ *   origin that depends on the shape of each cut. Textures don't line up
+ *   between fragments.
+ * - 'planar': Coordinates in the plane of the cut, measured from the origin of
+ *   the original mesh
+ * - 'box': Projection onto the side of a box around the original mesh that the
+ *   cut face is facing, so the texture reads the right way round on every side
+ * - 'triplanar': Projection onto the axis plane closest to the cut face, shared
+ *   by both sides of a cut
+ *
+ * All modes except 'triangulation' are computed in the local space of the
+ * original mesh, so the texture is continuous across fragments and refracture
+ * generations.
+ */
+export type CutFaceUVMode = "triangulation" | "planar" | "box" | "triplanar";
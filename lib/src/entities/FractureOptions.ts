@@ -1,4 +1,7 @@
-import { Vector2, Vector3 } from "three";
+import { Matrix3, Vector2, Vector3 } from "three";
+import { AttributeFillPolicy } from "./VertexAttributeChannel";
+import { CutFaceNoiseOptions } from "./CutFaceNoiseOptions";
+import { CutFaceUVMode } from "./CutFaceUVMode";
 
 /**
  * Voronoi-specific fracture options
@@ -58,6 +61,116 @@ export interface VoronoiOptions {
    * Default: 12
    */
   approximationNeighborCount?: number;
+
+  /**
+   * Find the exact neighbors of each Voronoi cell using a Delaunay
+   * tetrahedralization of the seed points. Much faster than clipping against
+   * all seeds for large seed counts, with no overlaps.
+   * Takes precedence over useApproximation.
+   * Default: false
+   */
+  useDelaunayNeighbors?: boolean;
+
+  /**
+   * How generated seed points are distributed. Ignored if seedPoints is set.
+   * - 'uniform' (default): Independent random points, which can clump and
+   *   mix tiny slivers with large chunks
+   * - 'poisson': Poisson-disk sampling, which keeps seeds at least
+   *   minSeedDistance apart for evenly sized fragments
+   */
+  seedDistribution?: "uniform" | "poisson";
+
+  /**
+   * For Poisson-disk seeds: the minimum distance between seed points, in
+   * local units. Near an impact point the spacing shrinks so seeds can still
+   * cluster there. Default: derived from the bounds and fragmentCount
+   */
+  minSeedDistance?: number;
+
+  /**
+   * Where generated seed points are placed. Ignored if seedPoints is set.
+   * - 'bounds' (default): Anywhere in the bounding box of the mesh
+   * - 'interior': Only inside the volume of the mesh, so concave and thin
+   *   meshes don't waste seeds on empty space. In 2.5D mode, the column
+   *   through each seed passes through the mesh. The mesh must be closed.
+   * - 'surface': Near the surface, in proportion to its area and in the
+   *   middle of thin walls, so hollow objects like cups and vases break into
+   *   curved shards that follow the wall instead of wedge-shaped chunks
+   */
+  seedPlacement?: "bounds" | "interior" | "surface";
+
+  /**
+   * Number of Lloyd relaxation iterations applied to generated seed points.
+   * Each iteration moves every seed to the center of its cell, which evens out
+   * the size and shape of the fragments and removes slivers. Seeds stay within
+   * their placement region and keep their density near the impact point.
+   * Ignored if seedPoints is set. Default: 0
+   */
+  relaxationIterations?: number;
+
+  /**
+   * Direction of the grain of the material, in local space. Cells are
+   * stretched along the grain by grainStretch, so wood breaks into splinters
+   * along the grain and, with a stretch below 1, slate and shale break into
+   * flat plates across it.
+   */
+  grainDirection?: Vector3;
+
+  /**
+   * How many times longer cells are along grainDirection than across it.
+   * Values below 1 flatten the cells along the grain instead.
+   * Ignored if grainDirection is not set. Default: 3
+   */
+  grainStretch?: number;
+
+  /**
+   * Symmetric positive definite matrix M that measures the distance between
+   * points a and b as sqrt((a - b)ᵀ M (a - b)) when assigning space to
+   * seeds. The identity matrix gives the usual round cells.
+   * Takes precedence over grainDirection.
+   */
+  metric?: Matrix3;
+}
+
+/**
+ * Options for the shattered glass pattern of the 'glass' fracture method
+ */
+export interface GlassOptions {
+  /**
+   * Point of impact in local space that the cracks run out from.
+   * Default: center of the mesh
+   */
+  impactPoint?: Vector3;
+
+  /**
+   * Axis the pane is thin along. The cracks run straight through the pane
+   * along this axis. Default: "auto" (the thinnest axis of the mesh)
+   */
+  projectionAxis?: "x" | "y" | "z" | "auto";
+
+  /**
+   * Number of cracks running out from the impact point.
+   * Default: fragmentCount, between 3 and 12
+   */
+  radialCrackCount?: number;
+
+  /**
+   * Number of rings of shards around the impact point, separated by
+   * concentric cracks. Default: fragmentCount / radialCrackCount, at least 1
+   */
+  ringCount?: number;
+
+  /**
+   * Ratio between the radii of consecutive rings. Larger values pack the
+   * rings, and so the smaller shards, closer to the impact point. Default: 1.6
+   */
+  ringSpacing?: number;
+
+  /**
+   * How irregular the cracks are, from 0 for a perfect spider web to 1.
+   * Default: 0.5
+   */
+  irregularity?: number;
 }
 
 /**
@@ -68,8 +181,10 @@ export class FractureOptions {
    * Fracture method to use
    * - 'voronoi': Natural-looking fracture using Voronoi tessellation (requires voronoiOptions)
    * - 'simple': Simple plane-based fracturing (fast, lower quality)
+   * - 'glass': Shattered glass with cracks running out from an impact point
+   *   and concentric cracks around it (configured with glassOptions)
    */
-  public fractureMethod: "voronoi" | "simple" = "voronoi";
+  public fractureMethod: "voronoi" | "simple" | "glass" = "voronoi";
 
   /**
    * Number of fragments to generate
@@ -81,6 +196,12 @@ export class FractureOptions {
    */
   public voronoiOptions?: VoronoiOptions;
 
+  /**
+   * Options for the shattered glass pattern. Only used when fractureMethod
+   * is 'glass'
+   */
+  public glassOptions?: GlassOptions;
+
   /**
    * Simple fracture: specify which planes to fracture in
    * Only used when fractureMethod is 'simple'
@@ -107,18 +228,69 @@ export class FractureOptions {
    */
   public seed?: number;
 
+  /**
+   * Origin of each fragment created by DestructibleMesh
+   * - 'boundingBox': Center of the fragment's bounding box
+   * - 'centerOfMass': Center of mass of the fragment, so physics bodies rotate
+   *   around the correct point
+   */
+  public pivot: "boundingBox" | "centerOfMass" = "boundingBox";
+
+  /**
+   * How additional vertex attributes (e.g. "color", "uv1") are filled in on
+   * the cut faces, by attribute name. Attributes not listed are interpolated
+   * along the cut edges. Callback policies can't be posted to a fracture worker.
+   */
+  public attributeFill: Record<string, AttributeFillPolicy> = {};
+
+  /**
+   * Roughens the cut faces by tessellating them and displacing them with
+   * seeded noise. Leave undefined for flat cut faces.
+   */
+  public cutFaceNoise?: CutFaceNoiseOptions;
+
+  /**
+   * How texture coordinates are generated on the cut faces. The object-space
+   * modes keep the interior texture continuous across fragments.
+   */
+  public cutFaceUVMode: CutFaceUVMode = "triangulation";
+
+  /**
+   * If true, the fragments get a `tangent` attribute for normal-mapped
+   * materials. Tangents of the original surface are interpolated from the
+   * source geometry (and computed from its UVs if it has none), and the cut
+   * faces get tangents that follow their UV coordinates.
+   */
+  public generateTangents: boolean = false;
+
+  /**
+   * If true, the fragments get a `sourcePosition` attribute with the position
+   * of each vertex in the local space of the original mesh, which stays the
+   * same when fragments are re-centered or refractured. Used to shade
+   * interiors with 3D procedural textures.
+   */
+  public generateSourcePositions: boolean = false;
+
   constructor({
     fractureMethod,
     fragmentCount,
     voronoiOptions,
+    glassOptions,
     fracturePlanes,
     textureScale,
     textureOffset,
     seed,
+    pivot,
+    attributeFill,
+    cutFaceNoise,
+    cutFaceUVMode,
+    generateTangents,
+    generateSourcePositions,
   }: {
-    fractureMethod?: "voronoi" | "simple";
+    fractureMethod?: "voronoi" | "simple" | "glass";
     fragmentCount?: number;
     voronoiOptions?: VoronoiOptions;
+    glassOptions?: GlassOptions;
     fracturePlanes?: {
       x: boolean;
       y: boolean;
@@ -127,6 +299,12 @@ export class FractureOptions {
     textureScale?: Vector2;
     textureOffset?: Vector2;
     seed?: number;
+    pivot?: "boundingBox" | "centerOfMass";
+    attributeFill?: Record<string, AttributeFillPolicy>;
+    cutFaceNoise?: CutFaceNoiseOptions;
+    cutFaceUVMode?: CutFaceUVMode;
+    generateTangents?: boolean;
+    generateSourcePositions?: boolean;
   } = {}) {
     if (fractureMethod !== undefined) {
       this.fractureMethod = fractureMethod;
@@ -140,6 +318,10 @@ export class FractureOptions {
       this.voronoiOptions = voronoiOptions;
     }
 
+    if (glassOptions !== undefined) {
+      this.glassOptions = glassOptions;
+    }
+
     if (fracturePlanes !== undefined) {
       this.fracturePlanes = fracturePlanes;
     }
@@ -156,6 +338,30 @@ export class FractureOptions {
       this.seed = seed;
     }
 
+    if (pivot !== undefined) {
+      this.pivot = pivot;
+    }
+
+    if (attributeFill !== undefined) {
+      this.attributeFill = attributeFill;
+    }
+
+    if (cutFaceNoise !== undefined) {
+      this.cutFaceNoise = cutFaceNoise;
+    }
+
+    if (cutFaceUVMode !== undefined) {
+      this.cutFaceUVMode = cutFaceUVMode;
+    }
+
+    if (generateTangents !== undefined) {
+      this.generateTangents = generateTangents;
+    }
+
+    if (generateSourcePositions !== undefined) {
+      this.generateSourcePositions = generateSourcePositions;
+    }
+
     // Validate that voronoiOptions is provided when fractureMethod is 'voronoi'
     if (this.fractureMethod === "voronoi" && !this.voronoiOptions) {
       // Provide default voronoi options
@@ -2,8 +2,13 @@ import { Vector2, Vector3, Box3 } from "three";
 import { hash3 } from "../utils/MathUtils";
 import { MeshVertex } from "./MeshVertex";
 import { EdgeConstraint } from "./EdgeConstraint";
+import { VertexAttributeChannel } from "./VertexAttributeChannel";
 
-// The enum can be directly translated
+/**
+ * Submesh indices of a fragment with a single source material. Fragments with
+ * more source materials have one submesh per material, followed by the cut
+ * face (see `Fragment.cutFaceSubmesh`).
+ */
 export enum SlicedMeshSubmesh {
   Default = 0,
   CutFace = 1,
@@ -29,7 +34,8 @@ export class Fragment {
   cutVertices: MeshVertex[];
 
   /**
-   * Index buffer for each submesh
+   * Index buffer for each submesh. There is one submesh per material of the
+   * source geometry, and the last submesh holds the cut faces.
    */
   triangles: number[][];
 
@@ -54,6 +60,18 @@ export class Fragment {
    */
   vertexAdjacency: number[];
 
+  /**
+   * Additional vertex attributes carried by the vertices of this fragment
+   */
+  attributes: VertexAttributeChannel[];
+
+  /**
+   * Position of the local origin of this fragment in the local space of the
+   * original (unfractured) mesh. Used to project textures onto the cut faces
+   * consistently across fragments.
+   */
+  sourceOrigin: Vector3;
+
   /**
    * Constructor for a Fragment object
    * @param args The arguments for the Fragment object
@@ -66,6 +84,8 @@ export class Fragment {
     this.indexMap = [];
     this.bounds = new Box3();
     this.vertexAdjacency = [];
+    this.attributes = [];
+    this.sourceOrigin = new Vector3();
 
     if (!args) {
       return;
@@ -108,7 +128,18 @@ export class Fragment {
    * Gets the total number of triangles across all sub meshes
    */
   get triangleCount(): number {
-    return (this.triangles[0].length + this.triangles[1].length) / 3;
+    let count = 0;
+    for (const submesh of this.triangles) {
+      count += submesh.length;
+    }
+    return count / 3;
+  }
+
+  /**
+   * Gets the index of the submesh containing the cut faces
+   */
+  get cutFaceSubmesh(): number {
+    return this.triangles.length - 1;
   }
 
   /**
@@ -123,9 +154,15 @@ export class Fragment {
    * @param position The vertex position
    * @param normal The vertex normal
    * @param uv The vertex UV coordinates
+   * @param attributes Values of the additional vertex attributes
    */
-  addCutFaceVertex(position: Vector3, normal: Vector3, uv: Vector2): void {
-    const vertex = new MeshVertex(position, normal, uv);
+  addCutFaceVertex(
+    position: Vector3,
+    normal: Vector3,
+    uv: Vector2,
+    attributes?: number[],
+  ): void {
+    const vertex = new MeshVertex(position, normal, uv, attributes);
     this.vertices.push(vertex);
     this.cutVertices.push(vertex);
 
@@ -151,12 +188,7 @@ export class Fragment {
    * @param v3 Index of the third vertex
    * @param subMesh The sub-mesh to add the triangle to
    */
-  addTriangle(
-    v1: number,
-    v2: number,
-    v3: number,
-    subMesh: SlicedMeshSubmesh,
-  ): void {
+  addTriangle(v1: number, v2: number, v3: number, subMesh: number): void {
     this.triangles[subMesh].push(v1, v2, v3);
   }
 
@@ -168,12 +200,7 @@ export class Fragment {
    * @param v3 Index of the third vertex
    * @param subMesh The sub-mesh to add the triangle to
    */
-  addMappedTriangle(
-    v1: number,
-    v2: number,
-    v3: number,
-    subMesh: SlicedMeshSubmesh,
-  ): void {
+  addMappedTriangle(v1: number, v2: number, v3: number, subMesh: number): void {
     this.triangles[subMesh].push(
       this.indexMap[v1],
       this.indexMap[v2],
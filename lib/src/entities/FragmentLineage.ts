@@ -0,0 +1,167 @@
+import { Plane } from "three";
+import { FractureOptions } from "./FractureOptions";
+import { SliceOptions } from "./SliceOptions";
+
+let nextFragmentId = 1;
+let nextOperationId = 1;
+
+/**
+ * Records where a `DestructibleMesh` came from: its unique id, the mesh it was
+ * fractured or sliced from, and the options that produced it.
+ *
+ * Lineage records only reference other records, never meshes, so ancestors
+ * can be disposed and garbage collected while their fragments are alive. A
+ * record keeps the records of its ancestors and of its siblings alive, along
+ * with their options, but not the other descendants of its ancestors.
+ */
+export class FragmentLineage {
+  /**
+   * Unique id of the fragment. Ids are assigned in creation order and never reused.
+   */
+  readonly id: number;
+
+  /**
+   * Lineage of the mesh this fragment was created from, or null for an
+   * original (unfractured) mesh
+   */
+  readonly parent: FragmentLineage | null;
+
+  /**
+   * Lineage of the original mesh at the top of the tree
+   */
+  readonly root: FragmentLineage;
+
+  /**
+   * Number of fracture or slice operations between the original mesh and this
+   * fragment. 0 for the original mesh, 1 for its fragments, and so on.
+   */
+  readonly generation: number;
+
+  /**
+   * Operation that created this fragment, or null for an original mesh
+   */
+  readonly operation: "fracture" | "slice" | "cut" | null;
+
+  /**
+   * Id shared by all fragments created by the same operation, or null for an
+   * original mesh
+   */
+  readonly operationId: number | null;
+
+  /**
+   * Options passed to the operation that created this fragment, or null for
+   * an original mesh
+   */
+  readonly options: FractureOptions | SliceOptions | null;
+
+  /**
+   * Random seed used by the fracture that created this fragment. Fracturing
+   * the parent again with the same options and this seed reproduces the
+   * fragment.
+   */
+  readonly seed?: number;
+
+  /**
+   * Planes that bound a piece created by `sliceMany()` or `dice()`, in the
+   * local space of the piece. The piece is on the positive side of each plane.
+   * Empty for other fragments.
+   */
+  readonly planes: Plane[];
+
+  /**
+   * Records created by the same operation, including this one. The array is
+   * shared by all of them, so the parent doesn't need to reference them.
+   */
+  private readonly operationLineages: FragmentLineage[];
+
+  /**
+   * Creates a lineage record
+   * @param parent Lineage of the mesh the fragment was created from. Omit for an original mesh.
+   * @param operation Operation that created the fragment
+   * @param siblings Records created by the same operation so far. The new
+   * record is added to it, so pass the same array for every fragment of an
+   * operation.
+   * @param options Options passed to the operation
+   * @param seed Random seed used by the fracture
+   * @param planes Planes that bound a sliced piece
+   */
+  constructor(
+    parent?: FragmentLineage,
+    {
+      operation,
+      siblings,
+      options,
+      seed,
+      planes,
+    }: {
+      operation?: "fracture" | "slice" | "cut";
+      siblings?: FragmentLineage[];
+      options?: FractureOptions | SliceOptions;
+      seed?: number;
+      planes?: Plane[];
+    } = {},
+  ) {
+    this.id = nextFragmentId++;
+    this.parent = parent ?? null;
+    this.root = parent ? parent.root : this;
+    this.generation = parent ? parent.generation + 1 : 0;
+    this.operation = operation ?? null;
+    this.operationLineages = parent ? siblings ?? [] : [];
+    this.operationId = parent
+      ? this.operationLineages[0]?.operationId ?? nextOperationId++
+      : null;
+    this.options = options ?? null;
+    this.seed = seed;
+    this.planes = planes ?? [];
+    this.operationLineages.push(this);
+  }
+
+  /**
+   * Id of the parent fragment, or null for an original mesh
+   */
+  get parentId(): number | null {
+    return this.parent ? this.parent.id : null;
+  }
+
+  /**
+   * Id of the original mesh at the top of the tree
+   */
+  get rootId(): number {
+    return this.root.id;
+  }
+
+  /**
+   * Returns the lineage of every ancestor of this fragment, starting with
+   * the parent and ending with the root
+   */
+  getAncestors(): FragmentLineage[] {
+    const ancestors: FragmentLineage[] = [];
+    for (let node = this.parent; node !== null; node = node.parent) {
+      ancestors.push(node);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Returns the lineage of the other fragments created from the same parent
+   * by the same operation. Pieces of other operations on the parent overlap
+   * this fragment, so they are not included.
+   */
+  getSiblings(): FragmentLineage[] {
+    return this.operationLineages.filter((lineage) => lineage !== this);
+  }
+
+  /**
+   * Returns true if this fragment was created (directly or indirectly) from
+   * the fragment with the given lineage
+   * @param ancestor The lineage of the potential ancestor
+   */
+  isDescendantOf(ancestor: FragmentLineage): boolean {
+    for (let node = this.parent; node !== null; node = node.parent) {
+      if (node === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
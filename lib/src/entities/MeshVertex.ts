@@ -9,14 +9,22 @@ export class MeshVertex {
   normal: Vector3;
   uv: Vector2;
 
+  /**
+   * Values of any additional vertex attributes, laid out as described by the
+   * attribute channels of the fragment the vertex belongs to
+   */
+  attributes: number[];
+
   constructor(
     position: Vector3 = new Vector3(),
     normal: Vector3 = new Vector3(),
     uv: Vector2 = new Vector2(),
+    attributes: number[] = [],
   ) {
     this.position = position;
     this.normal = normal;
     this.uv = uv;
+    this.attributes = attributes;
   }
 
   /**
@@ -30,13 +38,14 @@ export class MeshVertex {
 
   /**
    * Creates a deep copy of this vertex
-   * @returns A new MeshVertex with cloned position, normal, and UV
+   * @returns A new MeshVertex with cloned position, normal, UV and attributes
    */
   clone(): MeshVertex {
     return new MeshVertex(
       this.position.clone(),
       this.normal.clone(),
       this.uv.clone(),
+      this.attributes.slice(),
     );
   }
 
@@ -1,4 +1,7 @@
 import { Vector2 } from "three";
+import { AttributeFillPolicy } from "./VertexAttributeChannel";
+import { CutFaceNoiseOptions } from "./CutFaceNoiseOptions";
+import { CutFaceUVMode } from "./CutFaceUVMode";
 
 export class SliceOptions {
   /**
@@ -11,8 +14,45 @@ export class SliceOptions {
    */
   public textureOffset: Vector2;
 
+  /**
+   * How additional vertex attributes (e.g. "color") are filled in on the cut
+   * faces, by attribute name. Attributes not listed are interpolated.
+   */
+  public attributeFill: Record<string, AttributeFillPolicy>;
+
+  /**
+   * Roughens the cut faces by tessellating them and displacing them with
+   * seeded noise. Leave undefined for flat cut faces. Not used by `cut()`,
+   * whose cut faces follow the cutter surface.
+   */
+  public cutFaceNoise?: CutFaceNoiseOptions;
+
+  /**
+   * How texture coordinates are generated on the cut faces. The object-space
+   * modes keep the interior texture continuous across pieces. Not used by
+   * `cut()`, which maps the cutter's UVs.
+   */
+  public cutFaceUVMode: CutFaceUVMode;
+
+  /**
+   * If true, the pieces get a `tangent` attribute for normal-mapped
+   * materials, with tangents on the cut faces that follow their UV
+   * coordinates. Not used by `cut()`.
+   */
+  public generateTangents: boolean;
+
+  /**
+   * If true, the pieces get a `sourcePosition` attribute with the position of
+   * each vertex in the local space of the original mesh
+   */
+  public generateSourcePositions: boolean;
+
   constructor() {
     this.textureScale = new Vector2(1, 1);
     this.textureOffset = new Vector2();
+    this.attributeFill = {};
+    this.cutFaceUVMode = "triangulation";
+    this.generateTangents = false;
+    this.generateSourcePositions = false;
   }
 }
@@ -0,0 +1,158 @@
+import { Vector2, Vector3, Vector4 } from "three";
+import { blendSkinWeights } from "../utils/Skinning";
+
+/**
+ * Computes the value of a vertex attribute for a cut-face vertex
+ * @param position Position of the cut-face vertex
+ * @param normal Normal of the cut face at the vertex
+ * @param value Value interpolated along the edge of the original surface that
+ * was cut to create the vertex
+ * @returns The attribute value (one number per component)
+ */
+export type AttributeFillCallback = (
+  position: Vector3,
+  normal: Vector3,
+  value: number[],
+) => number[];
+
+/**
+ * Defines how a vertex attribute is filled in on the cut faces
+ * - `"interpolate"`: Value interpolated along the cut edge of the original surface
+ * - `"project"`: Planar coordinates of the vertex on the cut face, scaled and
+ *   offset the same way as the cut-face UVs. Useful for secondary UV sets.
+ * - `"tangent"`: Tangent of the cut-face UVs, derived from the plane of the
+ *   cut. Cut faces without a plane (cuts by a cutter mesh) keep the
+ *   interpolated value.
+ * - `"sourcePosition"`: Position of the vertex in the local space of the
+ *   original (unfractured) mesh
+ * - `number[]`: Constant value for every cut-face vertex (e.g. an interior color)
+ * - `AttributeFillCallback`: Computes the value for each cut-face vertex
+ */
+export type AttributeFillPolicy =
+  | "interpolate"
+  | "project"
+  | "tangent"
+  | "sourcePosition"
+  | number[]
+  | AttributeFillCallback;
+
+/**
+ * Describes a vertex attribute, other than position, normal and uv, that is
+ * carried through slicing and fracturing. The values of all channels are
+ * stored back to back in `MeshVertex.attributes`.
+ */
+export interface VertexAttributeChannel {
+  /**
+   * Name of the geometry attribute (e.g. "color" or "uv1")
+   */
+  name: string;
+
+  /**
+   * Number of components per vertex
+   */
+  itemSize: number;
+
+  /**
+   * Index of the first component of this channel in `MeshVertex.attributes`
+   */
+  offset: number;
+
+  /**
+   * How the attribute is filled in on the cut faces
+   */
+  fill: AttributeFillPolicy;
+}
+
+/**
+ * Interpolates the attribute values of two vertices. Values are interpolated
+ * linearly, except for the skinIndex and skinWeight attributes of skinned
+ * meshes, whose bone influences are blended.
+ * @param channels The attribute channels of the fragment
+ * @param a Attribute values of the first vertex
+ * @param b Attribute values of the second vertex
+ * @param t Interpolation factor (0 = first vertex, 1 = second vertex)
+ * @returns The interpolated attribute values
+ */
+export function interpolateAttributes(
+  channels: VertexAttributeChannel[],
+  a: number[],
+  b: number[],
+  t: number,
+): number[] {
+  const values = a.map((value, i) => value + t * (b[i] - value));
+
+  // Bone indices can't be interpolated, so combine the influences instead
+  const skinIndex = channels.find((channel) => channel.name === "skinIndex");
+  const skinWeight = channels.find((channel) => channel.name === "skinWeight");
+  if (skinIndex && skinWeight && skinIndex.itemSize === skinWeight.itemSize) {
+    const slice = (
+      values: number[],
+      { offset, itemSize }: VertexAttributeChannel,
+    ) => values.slice(offset, offset + itemSize);
+
+    const { indices, weights } = blendSkinWeights(
+      slice(a, skinIndex),
+      slice(a, skinWeight),
+      slice(b, skinIndex),
+      slice(b, skinWeight),
+      t,
+    );
+    values.splice(skinIndex.offset, skinIndex.itemSize, ...indices);
+    values.splice(skinWeight.offset, skinWeight.itemSize, ...weights);
+  }
+
+  return values;
+}
+
+/**
+ * Computes the attribute values of a cut-face vertex
+ * @param channels The attribute channels of the fragment
+ * @param position Position of the vertex
+ * @param normal Normal of the cut face
+ * @param uv Cut-face UV coordinates of the vertex
+ * @param edgeValues Attribute values interpolated along the cut edge
+ * @param tangent Tangent of the cut face, if it is planar
+ * @param sourceOrigin Position of the local origin of the fragment in the
+ * original mesh
+ * @returns The attribute values for the vertex
+ */
+export function fillCutFaceAttributes(
+  channels: VertexAttributeChannel[],
+  position: Vector3,
+  normal: Vector3,
+  uv: Vector2,
+  edgeValues: number[],
+  tangent?: Vector4,
+  sourceOrigin: Vector3 = new Vector3(),
+): number[] {
+  const values = edgeValues.slice();
+
+  for (const { itemSize, offset, fill } of channels) {
+    let value: ArrayLike<number>;
+    if (fill === "interpolate") {
+      continue;
+    } else if (fill === "project") {
+      value = [uv.x, uv.y];
+    } else if (fill === "tangent") {
+      if (!tangent) continue;
+      value = tangent.toArray();
+    } else if (fill === "sourcePosition") {
+      value = position.clone().add(sourceOrigin).toArray();
+    } else if (typeof fill === "function") {
+      value = fill(
+        position.clone(),
+        normal.clone(),
+        edgeValues.slice(offset, offset + itemSize),
+      );
+    } else {
+      value = fill;
+    }
+
+    // Missing components are filled with zeros
+    for (let i = 0; i < itemSize; i++) {
+      values[offset + i] = value[i] ?? 0;
+    }
+  }
+
+  return values;
+}
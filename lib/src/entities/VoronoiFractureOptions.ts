@@ -1,4 +1,7 @@
-import { Vector2, Vector3 } from "three";
+import { Matrix3, Vector2, Vector3 } from "three";
+import { AttributeFillPolicy } from "./VertexAttributeChannel";
+import { CutFaceNoiseOptions } from "./CutFaceNoiseOptions";
+import { CutFaceUVMode } from "./CutFaceUVMode";
 
 /**
  * Options for Voronoi fracture operation
@@ -64,6 +67,64 @@ export class VoronoiFractureOptions {
    */
   public approximationNeighborCount: number = 12;
 
+  /**
+   * Find the exact neighbors of each Voronoi cell using a Delaunay
+   * tetrahedralization of the seed points. Each cell is then only clipped
+   * against the seeds it actually shares a face with.
+   * - false (default): Clip each cell against all other seeds, O(n²)
+   * - true: Much faster for large seed counts, with no overlaps
+   *
+   * Takes precedence over useApproximation.
+   */
+  public useDelaunayNeighbors: boolean = false;
+
+  /**
+   * How generated seed points are distributed
+   * - 'uniform' (default): Independent random points
+   * - 'poisson': Poisson-disk sampling, keeping seeds at least
+   *   minSeedDistance apart
+   */
+  public seedDistribution: "uniform" | "poisson" = "uniform";
+
+  /**
+   * Minimum distance between Poisson-disk seed points. If not specified, it
+   * is derived from the bounds and fragmentCount.
+   */
+  public minSeedDistance?: number;
+
+  /**
+   * Where generated seed points are placed
+   * - 'bounds' (default): Anywhere in the bounding box of the mesh
+   * - 'interior': Only inside the volume of the (closed) mesh
+   * - 'surface': Near the surface, in the middle of thin walls, for
+   *   fracturing hollow objects into shards that follow the wall
+   */
+  public seedPlacement: "bounds" | "interior" | "surface" = "bounds";
+
+  /**
+   * Number of Lloyd relaxation iterations applied to generated seed points,
+   * for evenly sized fragments. Default: 0
+   */
+  public relaxationIterations: number = 0;
+
+  /**
+   * Direction of the grain of the material, along which cells are stretched
+   * by grainStretch
+   */
+  public grainDirection?: Vector3;
+
+  /**
+   * How many times longer cells are along grainDirection than across it.
+   * Values below 1 flatten the cells instead.
+   */
+  public grainStretch: number = 3;
+
+  /**
+   * Symmetric positive definite matrix that measures distances to seeds.
+   * Takes precedence over grainDirection.
+   */
+  public metric?: Matrix3;
+
   /**
    * Scale factor to apply to texture coordinates on cut faces
    */
@@ -80,6 +141,39 @@ export class VoronoiFractureOptions {
    */
   public seed?: number;
 
+  /**
+   * How additional vertex attributes are filled in on the cut faces, by
+   * attribute name. Attributes not listed are interpolated along the cut edges.
+   */
+  public attributeFill: Record<string, AttributeFillPolicy> = {};
+
+  /**
+   * Roughens the cut faces with seeded noise. Leave undefined for flat cut faces.
+   */
+  public cutFaceNoise?: CutFaceNoiseOptions;
+
+  /**
+   * How texture coordinates are generated on the cut faces. The object-space
+   * modes keep the interior texture continuous across fragments.
+   */
+  public cutFaceUVMode: CutFaceUVMode = "triangulation";
+
+  /**
+   * If true, the fragments get a `tangent` attribute for normal-mapped
+   * materials. Tangents of the original surface are interpolated from the
+   * source geometry (and computed from its UVs if it has none), and the cut
+   * faces get tangents that follow their UV coordinates.
+   */
+  public generateTangents: boolean = false;
+
+  /**
+   * If true, the fragments get a `sourcePosition` attribute with the position
+   * of each vertex in the local space of the original mesh, which stays the
+   * same when fragments are re-centered or refractured. Used to shade
+   * interiors with 3D procedural textures.
+   */
+  public generateSourcePositions: boolean = false;
+
   constructor({
     fragmentCount,
     mode,
@@ -90,9 +184,22 @@ export class VoronoiFractureOptions {
     projectionNormal,
     useApproximation,
     approximationNeighborCount,
+    useDelaunayNeighbors,
+    seedDistribution,
+    minSeedDistance,
+    seedPlacement,
+    relaxationIterations,
+    grainDirection,
+    grainStretch,
+    metric,
     textureScale,
     textureOffset,
     seed,
+    attributeFill,
+    cutFaceNoise,
+    cutFaceUVMode,
+    generateTangents,
+    generateSourcePositions,
   }: {
     fragmentCount?: number;
     mode?: "3D" | "2.5D";
@@ -103,9 +210,22 @@ export class VoronoiFractureOptions {
     projectionNormal?: Vector3;
     useApproximation?: boolean;
     approximationNeighborCount?: number;
+    useDelaunayNeighbors?: boolean;
+    seedDistribution?: "uniform" | "poisson";
+    minSeedDistance?: number;
+    seedPlacement?: "bounds" | "interior" | "surface";
+    relaxationIterations?: number;
+    grainDirection?: Vector3;
+    grainStretch?: number;
+    metric?: Matrix3;
     textureScale?: Vector2;
     textureOffset?: Vector2;
     seed?: number;
+    attributeFill?: Record<string, AttributeFillPolicy>;
+    cutFaceNoise?: CutFaceNoiseOptions;
+    cutFaceUVMode?: CutFaceUVMode;
+    generateTangents?: boolean;
+    generateSourcePositions?: boolean;
   } = {}) {
     if (fragmentCount !== undefined) {
       this.fragmentCount = fragmentCount;
@@ -143,6 +263,38 @@ export class VoronoiFractureOptions {
       this.approximationNeighborCount = approximationNeighborCount;
     }
 
+    if (useDelaunayNeighbors !== undefined) {
+      this.useDelaunayNeighbors = useDelaunayNeighbors;
+    }
+
+    if (seedDistribution !== undefined) {
+      this.seedDistribution = seedDistribution;
+    }
+
+    if (minSeedDistance !== undefined) {
+      this.minSeedDistance = minSeedDistance;
+    }
+
+    if (seedPlacement !== undefined) {
+      this.seedPlacement = seedPlacement;
+    }
+
+    if (relaxationIterations !== undefined) {
+      this.relaxationIterations = relaxationIterations;
+    }
+
+    if (grainDirection !== undefined) {
+      this.grainDirection = grainDirection;
+    }
+
+    if (grainStretch !== undefined) {
+      this.grainStretch = grainStretch;
+    }
+
+    if (metric !== undefined) {
+      this.metric = metric;
+    }
+
     if (textureScale !== undefined) {
       this.textureScale = textureScale;
     }
@@ -154,5 +306,25 @@ export class VoronoiFractureOptions {
     if (seed !== undefined) {
       this.seed = seed;
     }
+
+    if (attributeFill !== undefined) {
+      this.attributeFill = attributeFill;
+    }
+
+    if (cutFaceNoise !== undefined) {
+      this.cutFaceNoise = cutFaceNoise;
+    }
+
+    if (cutFaceUVMode !== undefined) {
+      this.cutFaceUVMode = cutFaceUVMode;
+    }
+
+    if (generateTangents !== undefined) {
+      this.generateTangents = generateTangents;
+    }
+
+    if (generateSourcePositions !== undefined) {
+      this.generateSourcePositions = generateSourcePositions;
+    }
   }
 }
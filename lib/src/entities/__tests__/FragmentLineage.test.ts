@@ -0,0 +1,95 @@
+import { FractureOptions } from "../FractureOptions";
+import { FragmentLineage } from "../FragmentLineage";
+
+describe("FragmentLineage", () => {
+  it("should create a root lineage", () => {
+    const root = new FragmentLineage();
+
+    expect(root.parent).toBeNull();
+    expect(root.parentId).toBeNull();
+    expect(root.root).toBe(root);
+    expect(root.rootId).toBe(root.id);
+    expect(root.generation).toBe(0);
+    expect(root.operation).toBeNull();
+    expect(root.options).toBeNull();
+    expect(root.seed).toBeUndefined();
+    expect(root.operationId).toBeNull();
+  });
+
+  it("should assign unique, increasing ids", () => {
+    const a = new FragmentLineage();
+    const b = new FragmentLineage(a);
+
+    expect(b.id).toBeGreaterThan(a.id);
+  });
+
+  it("should record the parent of a fragment", () => {
+    const root = new FragmentLineage();
+    const options = new FractureOptions({ seed: 5 });
+    const child = new FragmentLineage(root, {
+      operation: "fracture",
+      options,
+      seed: 5,
+    });
+
+    expect(child.parent).toBe(root);
+    expect(child.root).toBe(root);
+    expect(child.generation).toBe(1);
+    expect(child.operation).toBe("fracture");
+    expect(child.options).toBe(options);
+    expect(child.seed).toBe(5);
+  });
+
+  it("should walk the ancestors from parent to root", () => {
+    const root = new FragmentLineage();
+    const child = new FragmentLineage(root);
+    const grandchild = new FragmentLineage(child);
+
+    expect(grandchild.getAncestors()).toEqual([child, root]);
+    expect(grandchild.rootId).toBe(root.id);
+    expect(grandchild.generation).toBe(2);
+    expect(root.getAncestors()).toEqual([]);
+  });
+
+  it("should list siblings without the fragment itself", () => {
+    const root = new FragmentLineage();
+    const siblings: FragmentLineage[] = [];
+    const a = new FragmentLineage(root, { siblings });
+    const b = new FragmentLineage(root, { siblings });
+    const c = new FragmentLineage(root, { siblings });
+    new FragmentLineage(a, { siblings: [] });
+
+    expect(siblings).toEqual([a, b, c]);
+    expect(a.getSiblings()).toEqual([b, c]);
+    expect(b.getSiblings()).toEqual([a, c]);
+    expect(root.getSiblings()).toEqual([]);
+  });
+
+  it("should only list siblings created by the same operation", () => {
+    const root = new FragmentLineage();
+    const slice: FragmentLineage[] = [];
+    const fracture: FragmentLineage[] = [];
+    const a = new FragmentLineage(root, { siblings: slice });
+    const b = new FragmentLineage(root, { siblings: slice });
+    const c = new FragmentLineage(root, { siblings: fracture });
+    const d = new FragmentLineage(root, { siblings: fracture });
+
+    expect(a.operationId).toBe(b.operationId);
+    expect(c.operationId).toBe(d.operationId);
+    expect(a.operationId).not.toBe(c.operationId);
+    expect(a.getSiblings()).toEqual([b]);
+    expect(c.getSiblings()).toEqual([d]);
+  });
+
+  it("should check whether a fragment descends from another", () => {
+    const root = new FragmentLineage();
+    const a = new FragmentLineage(root);
+    const b = new FragmentLineage(root);
+    const grandchild = new FragmentLineage(a);
+
+    expect(grandchild.isDescendantOf(root)).toBe(true);
+    expect(grandchild.isDescendantOf(a)).toBe(true);
+    expect(grandchild.isDescendantOf(b)).toBe(false);
+    expect(grandchild.isDescendantOf(grandchild)).toBe(false);
+  });
+});
@@ -0,0 +1,236 @@
+import * as THREE from "three";
+import { Vector3 } from "three";
+import { FractureOptions } from "../entities/FractureOptions";
+import { CrackOptions } from "../entities/CrackOptions";
+import { Fragment } from "../entities/Fragment";
+import { MeshVertex } from "../entities/MeshVertex";
+import { geometryToFragment } from "../utils/GeometryConversion";
+import { hash3 } from "../utils/MathUtils";
+import { SeededRandom } from "../utils/SeededRandom";
+import { addNewCutFaceSubmesh } from "./CutFaceNoise";
+import { fractureFragment } from "./FractureFragment";
+import { toVoronoiFractureOptions } from "./FractureGeometry";
+import { toGlassFractureOptions } from "./GlassFracture";
+import { computeVoronoiCells, generateVoronoiSeeds } from "./VoronoiFracture";
+
+/**
+ * Positions closer than this are treated as the same crack vertex
+ */
+const CRACK_TOLERANCE = 1e-6;
+
+/**
+ * A segment of a crack on the surface of a mesh
+ */
+interface CrackSegment {
+  start: Vector3;
+  end: Vector3;
+  startNormal: Vector3;
+  endNormal: Vector3;
+}
+
+/**
+ * Computes the cracks that fracturing the geometry with `options` would
+ * open on its surface, without separating it. The cracks are the edges where
+ * the fragments' new cut faces meet the surface, so fracturing the geometry
+ * with the same options breaks it along them.
+ *
+ * If `options.seed` is not set, a random seed is chosen and stored in
+ * `options.seed`, so the options can be passed to the later fracture.
+ * @param geometry The source geometry
+ * @param options Fracture options of the later fracture
+ * @param crackOptions How the cracks are drawn
+ * @returns The crack geometry (in the local space of `geometry`)
+ */
+export function crackGeometry(
+  geometry: THREE.BufferGeometry,
+  options: FractureOptions,
+  crackOptions: CrackOptions = {},
+): THREE.BufferGeometry {
+  if (options.seed === undefined) {
+    options.seed = new SeededRandom().getSeed();
+  }
+
+  // Noise doesn't move the vertices where the cut faces meet the surface, so
+  // it doesn't change the cracks
+  const flatOptions = new FractureOptions({
+    ...options,
+    cutFaceNoise: undefined,
+  });
+
+  // Keep the new cut faces apart from those the source already has, which
+  // can crack as well
+  const source = geometryToFragment(geometry);
+  addNewCutFaceSubmesh(source);
+
+  let fragments: Fragment[];
+  if (flatOptions.fractureMethod !== "simple") {
+    const voronoiOptions =
+      flatOptions.fractureMethod === "glass"
+        ? toGlassFractureOptions(flatOptions, source.bounds)
+        : toVoronoiFractureOptions(flatOptions);
+    const rng = new SeededRandom(voronoiOptions.seed);
+    const seeds = generateVoronoiSeeds(source, voronoiOptions, rng);
+    fragments = computeVoronoiCells(source, seeds, voronoiOptions).flat();
+  } else {
+    fragments = fractureFragment(source, flatOptions);
+  }
+
+  const segments = findCrackSegments(fragments);
+  return crackOptions.style === "ribbon"
+    ? createRibbonGeometry(segments, crackOptions)
+    : createLineGeometry(segments, crackOptions);
+}
+
+/**
+ * Finds the edges where the new cut faces of the fragments meet the rest of
+ * their surface. Each crack is shared by the fragments on both sides of it,
+ * so duplicate edges are skipped.
+ */
+function findCrackSegments(fragments: Fragment[]): CrackSegment[] {
+  const segments = new Map<string, CrackSegment>();
+
+  for (const fragment of fragments) {
+    const vertices = [...fragment.vertices, ...fragment.cutVertices];
+
+    // Surface edges, with the surface normals at their ends
+    const surfaceEdges = new Map<string, [MeshVertex, MeshVertex]>();
+    fragment.triangles.forEach((triangles, submesh) => {
+      if (submesh === fragment.cutFaceSubmesh) return;
+      forEachEdge(vertices, triangles, (a, b) => {
+        surfaceEdges.set(getEdgeKey(a, b), [a, b]);
+      });
+    });
+
+    forEachEdge(
+      vertices,
+      fragment.triangles[fragment.cutFaceSubmesh],
+      (a, b) => {
+        const key = getEdgeKey(a, b);
+        const surfaceEdge = surfaceEdges.get(key);
+        if (!surfaceEdge || segments.has(key)) return;
+
+        const [c, d] = surfaceEdge;
+        const reversed =
+          hash3(c.position, CRACK_TOLERANCE) !==
+          hash3(a.position, CRACK_TOLERANCE);
+        segments.set(key, {
+          start: a.position.clone(),
+          end: b.position.clone(),
+          startNormal: (reversed ? d : c).normal.clone().normalize(),
+          endNormal: (reversed ? c : d).normal.clone().normalize(),
+        });
+      },
+    );
+  }
+
+  return [...segments.values()];
+}
+
+/**
+ * Calls `callback` with the vertices of each edge of the triangles
+ */
+function forEachEdge(
+  vertices: MeshVertex[],
+  triangles: number[],
+  callback: (a: MeshVertex, b: MeshVertex) => void,
+): void {
+  for (let i = 0; i < triangles.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      callback(
+        vertices[triangles[i + j]],
+        vertices[triangles[i + ((j + 1) % 3)]],
+      );
+    }
+  }
+}
+
+/**
+ * Returns a key identifying the edge between two vertices by their positions
+ */
+function getEdgeKey(a: MeshVertex, b: MeshVertex): string {
+  const hashA = hash3(a.position, CRACK_TOLERANCE);
+  const hashB = hash3(b.position, CRACK_TOLERANCE);
+  return hashA < hashB ? `${hashA}:${hashB}` : `${hashB}:${hashA}`;
+}
+
+/**
+ * Creates line segments along the cracks
+ */
+function createLineGeometry(
+  segments: CrackSegment[],
+  { offset = 0.001 }: CrackOptions,
+): THREE.BufferGeometry {
+  const positions = new Float32Array(segments.length * 6);
+  const normals = new Float32Array(segments.length * 6);
+  const point = new Vector3();
+
+  segments.forEach(({ start, end, startNormal, endNormal }, i) => {
+    point.copy(start).addScaledVector(startNormal, offset);
+    point.toArray(positions, 6 * i);
+    point.copy(end).addScaledVector(endNormal, offset);
+    point.toArray(positions, 6 * i + 3);
+    startNormal.toArray(normals, 6 * i);
+    endNormal.toArray(normals, 6 * i + 3);
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+  return geometry;
+}
+
+/**
+ * Creates a strip on the surface for each crack segment
+ */
+function createRibbonGeometry(
+  segments: CrackSegment[],
+  { width = 0.02, offset = 0.001 }: CrackOptions,
+): THREE.BufferGeometry {
+  const positions = new Float32Array(segments.length * 12);
+  const normals = new Float32Array(segments.length * 12);
+  const uvs = new Float32Array(segments.length * 8);
+  const indices = new Uint32Array(segments.length * 6);
+
+  const direction = new Vector3();
+  const side = new Vector3();
+  const point = new Vector3();
+
+  segments.forEach(({ start, end, startNormal, endNormal }, i) => {
+    direction.subVectors(end, start);
+    const length = direction.length() / width;
+
+    const ends: [Vector3, Vector3, number][] = [
+      [start, startNormal, 0],
+      [end, endNormal, length],
+    ];
+    ends.forEach(([position, normal, v], j) => {
+      // The strip spreads sideways in the tangent plane of the surface
+      side.crossVectors(normal, direction).normalize();
+      for (let k = 0; k < 2; k++) {
+        const vertex = 4 * i + 2 * j + k;
+        point
+          .copy(position)
+          .addScaledVector(normal, offset)
+          .addScaledVector(side, (k - 0.5) * width);
+        point.toArray(positions, 3 * vertex);
+        normal.toArray(normals, 3 * vertex);
+        uvs[2 * vertex] = k;
+        uvs[2 * vertex + 1] = v;
+      }
+    });
+
+    // Wound so the strip faces along the surface normal
+    const base = 4 * i;
+    indices.set(
+      [base, base + 2, base + 1, base + 1, base + 2, base + 3],
+      6 * i,
+    );
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute("uv", new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  return geometry;
+}
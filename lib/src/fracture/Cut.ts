@@ -0,0 +1,53 @@
+import * as THREE from "three";
+import { Vector2 } from "three";
+import { cutFragment } from "./CutFragment";
+import {
+  geometryToFragment,
+  fragmentToGeometry,
+} from "../utils/GeometryConversion";
+import { findIsolatedGeometry } from "./FractureFragment";
+import { AttributeFillPolicy } from "../entities/VertexAttributeChannel";
+
+/**
+ * Cuts the mesh by a closed cutter mesh (e.g. a sphere or a cylinder). The
+ * part of the cutter surface inside the mesh becomes the cut face of the
+ * pieces, with the cutter's normals and UV coordinates.
+ * @param geometry The geometry to cut
+ * @param cutter The closed cutter geometry, in the same space as `geometry`
+ * @param textureScale Scale factor to apply to the cut-face UV coordinates
+ * @param textureOffset Offset to apply to the cut-face UV coordinates
+ * @param attributeFill How additional vertex attributes are filled in on the cut faces
+ * @param generateSourcePositions If true, the pieces get a `sourcePosition`
+ * attribute
+ * @returns The pieces inside and outside of the cutter
+ */
+export function cut(
+  geometry: THREE.BufferGeometry,
+  cutter: THREE.BufferGeometry,
+  textureScale: Vector2,
+  textureOffset: Vector2,
+  attributeFill: Record<string, AttributeFillPolicy> = {},
+  generateSourcePositions: boolean = false,
+): { inside: THREE.BufferGeometry[]; outside: THREE.BufferGeometry[] } {
+  // The cut face is shaded with the cutter's normals, so make sure it has some
+  if (!cutter.attributes.normal) {
+    cutter = cutter.clone();
+    cutter.computeVertexNormals();
+  }
+
+  const { inside, outside } = cutFragment(
+    geometryToFragment(geometry, attributeFill, false, generateSourcePositions),
+    geometryToFragment(cutter),
+    textureScale,
+    textureOffset,
+  );
+
+  const toGeometries = (fragment: typeof inside) =>
+    fragment.triangleCount > 0
+      ? findIsolatedGeometry(fragment).map((fragment) =>
+          fragmentToGeometry(fragment),
+        )
+      : [];
+
+  return { inside: toGeometries(inside), outside: toGeometries(outside) };
+}
@@ -0,0 +1,481 @@
+import { Vector3 } from "three";
+import { Fragment } from "../entities/Fragment";
+import { MeshVertex } from "../entities/MeshVertex";
+import { CutFaceNoiseOptions } from "../entities/CutFaceNoiseOptions";
+import {
+  VertexAttributeChannel,
+  interpolateAttributes,
+} from "../entities/VertexAttributeChannel";
+import { hash3 } from "../utils/MathUtils";
+
+/**
+ * Vertices closer than this to a lattice plane, relative to the lattice
+ * spacing, are considered to lie on the plane
+ */
+const LATTICE_EPSILON = 1e-6;
+
+/**
+ * Normals of the planes that divide space into the tetrahedra of the noise
+ * lattice. The first three are the faces of the lattice cubes, the others
+ * split each cube into six tetrahedra around its main diagonal.
+ */
+const LATTICE_DIRECTIONS = [
+  new Vector3(1, 0, 0),
+  new Vector3(0, 1, 0),
+  new Vector3(0, 0, 1),
+  new Vector3(1, -1, 0),
+  new Vector3(0, 1, -1),
+  new Vector3(1, 0, -1),
+];
+
+// How a cut-face vertex is displaced. FREE vertices move along the face
+// normal. SEAM vertices lie on an edge shared with another new cut face and
+// move by the full noise vector, so both faces move together. PINNED vertices
+// lie on the edge of the surface or of an older cut face and stay in place.
+const FREE = 0;
+const SEAM = 1;
+const PINNED = 2;
+
+/**
+ * Convex polygon of a cut face, with the displacement type of each vertex and
+ * of the edge from each vertex to the next
+ */
+interface NoisePolygon {
+  vertices: MeshVertex[];
+  vertexTypes: number[];
+  edgeTypes: number[];
+}
+
+/**
+ * Adds a submesh to the fragment that receives the cut faces created by
+ * slicing it, so `displaceCutFaces()` can tell them apart from the cut faces
+ * the fragment already has. Call this on the source fragment before slicing.
+ * @param fragment The source fragment
+ */
+export function addNewCutFaceSubmesh(fragment: Fragment): void {
+  fragment.triangles.push([]);
+}
+
+/**
+ * Tessellates the new cut faces of a fragment and displaces them with seeded
+ * noise, then merges them into the cut-face submesh. The source fragment must
+ * have been prepared with `addNewCutFaceSubmesh()`, and the isolated geometry
+ * of the fragment must already be separated.
+ *
+ * The noise is interpolated linearly inside the tetrahedra of a lattice and
+ * the faces are tessellated along that lattice, so the faces on both sides of
+ * a cut are displaced identically, however they were triangulated. Vertices on
+ * the edges of the surface stay in place to keep the fragment closed, so the
+ * faces only match approximately in the lattice cells along those edges.
+ * @param fragment The fragment to displace the cut faces of
+ * @param options Cut-face noise options
+ */
+export function displaceCutFaces(
+  fragment: Fragment,
+  options: CutFaceNoiseOptions,
+): void {
+  if (!(options.frequency > 0)) {
+    throw new Error("Cut-face noise frequency must be positive");
+  }
+
+  const octaves = Math.max(1, Math.floor(options.octaves ?? 1));
+  const newCutFaces = fragment.triangles.pop()!;
+  const sourceVertices = [...fragment.vertices, ...fragment.cutVertices];
+
+  // Keep only the vertices used by the rest of the fragment
+  const vertices: MeshVertex[] = [];
+  const indexMap = new Map<number, number>();
+  fragment.triangles = fragment.triangles.map((triangles) =>
+    triangles.map((index) => {
+      let mapped = indexMap.get(index);
+      if (mapped === undefined) {
+        mapped = vertices.length;
+        vertices.push(sourceVertices[index]);
+        indexMap.set(index, mapped);
+      }
+      return mapped;
+    }),
+  );
+
+  // The finest octave determines the tessellation
+  const spacing = 1 / (options.frequency * 2 ** (octaves - 1));
+  const { edgeTypes, vertexTypes } = classifyEdges(sourceVertices, newCutFaces);
+
+  const cutVertices: MeshVertex[] = [];
+  const cutVertexTypes: number[] = [];
+  const cutVertexMap = new Map<string, number>();
+  const triangles: number[] = [];
+
+  const addVertex = (vertex: MeshVertex, type: number): number => {
+    // Vertices on the edge between two faces keep the normal of each face
+    const key = `${hash3(vertex.position)}:${hash3(vertex.normal)}`;
+    let index = cutVertexMap.get(key);
+    if (index === undefined) {
+      index = cutVertices.length;
+      cutVertices.push(vertex.clone());
+      cutVertexTypes.push(type);
+      cutVertexMap.set(key, index);
+    }
+    return index;
+  };
+
+  for (let i = 0; i < newCutFaces.length; i += 3) {
+    const corners = [0, 1, 2].map((j) => sourceVertices[newCutFaces[i + j]]);
+    let polygons: NoisePolygon[] = [
+      {
+        vertices: corners,
+        vertexTypes: corners.map(
+          (vertex) => vertexTypes.get(hash3(vertex.position)) ?? FREE,
+        ),
+        edgeTypes: corners.map(
+          (vertex, j) =>
+            edgeTypes.get(getEdgeKey(vertex, corners[(j + 1) % 3]))!,
+        ),
+      },
+    ];
+
+    for (const direction of LATTICE_DIRECTIONS) {
+      polygons = polygons.flatMap((polygon) =>
+        splitByLattice(polygon, direction, spacing, fragment.attributes),
+      );
+    }
+
+    for (const polygon of polygons) {
+      const indices = polygon.vertices.map((vertex, j) =>
+        addVertex(vertex, polygon.vertexTypes[j]),
+      );
+      for (let j = 1; j < indices.length - 1; j++) {
+        const [a, b, c] = [indices[0], indices[j], indices[j + 1]];
+        if (a !== b && b !== c && c !== a) {
+          triangles.push(a, b, c);
+        }
+      }
+    }
+  }
+
+  // Displace the vertices. The normal component of the noise is sampled the
+  // same way on both sides of a cut, since it doesn't depend on the sign of
+  // the face normal.
+  const offset = new Vector3();
+  cutVertices.forEach((vertex, i) => {
+    if (cutVertexTypes[i] === PINNED) return;
+    sampleNoise(vertex.position, options, octaves, offset);
+    if (cutVertexTypes[i] === FREE) {
+      offset.projectOnVector(vertex.normal);
+    }
+    vertex.position.add(offset);
+  });
+
+  computeNormals(cutVertices, triangles);
+  updateGeneratedAttributes(cutVertices, fragment);
+
+  fragment.vertices = vertices;
+  fragment.cutVertices = cutVertices;
+  fragment.vertexAdjacency = [];
+
+  const cutFaces = fragment.triangles[fragment.cutFaceSubmesh];
+  for (const index of triangles) {
+    cutFaces.push(vertices.length + index);
+  }
+}
+
+/**
+ * Returns a key identifying the edge between two vertices by their positions
+ */
+function getEdgeKey(a: MeshVertex, b: MeshVertex): string {
+  const hashA = hash3(a.position);
+  const hashB = hash3(b.position);
+  return hashA < hashB ? `${hashA}:${hashB}` : `${hashB}:${hashA}`;
+}
+
+/**
+ * Determines how the vertices on the edges of the cut-face triangles are
+ * displaced. Edges used by a single triangle border the surface, and edges
+ * shared by triangles with different normals border another cut face.
+ * @param vertices Vertices of the fragment
+ * @param triangles The cut-face triangles
+ * @returns The displacement type of each edge by edge key, and of each edge
+ * vertex by position hash
+ */
+function classifyEdges(
+  vertices: MeshVertex[],
+  triangles: number[],
+): { edgeTypes: Map<string, number>; vertexTypes: Map<number, number> } {
+  const edges = new Map<
+    string,
+    { count: number; normal: Vector3; seam: boolean }
+  >();
+
+  for (let i = 0; i < triangles.length; i += 3) {
+    const normal = vertices[triangles[i]].normal;
+    for (let j = 0; j < 3; j++) {
+      const key = getEdgeKey(
+        vertices[triangles[i + j]],
+        vertices[triangles[i + ((j + 1) % 3)]],
+      );
+      const edge = edges.get(key);
+      if (!edge) {
+        edges.set(key, { count: 1, normal, seam: false });
+      } else {
+        edge.count++;
+        edge.seam ||= edge.normal.dot(normal) < 1 - 1e-6;
+      }
+    }
+  }
+
+  const edgeTypes = new Map<string, number>();
+  edges.forEach(({ count, seam }, key) => {
+    edgeTypes.set(key, count === 1 ? PINNED : seam ? SEAM : FREE);
+  });
+
+  const vertexTypes = new Map<number, number>();
+  for (let i = 0; i < triangles.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = vertices[triangles[i + j]];
+      const b = vertices[triangles[i + ((j + 1) % 3)]];
+      const type = edgeTypes.get(getEdgeKey(a, b))!;
+      for (const vertex of [a, b]) {
+        const hash = hash3(vertex.position);
+        vertexTypes.set(hash, Math.max(vertexTypes.get(hash) ?? FREE, type));
+      }
+    }
+  }
+
+  return { edgeTypes, vertexTypes };
+}
+
+/**
+ * Splits a polygon by the lattice planes perpendicular to `direction`
+ * @param polygon The polygon to split
+ * @param direction Normal of the lattice planes
+ * @param spacing Spacing of the lattice
+ * @param channels Attribute channels of the polygon vertices
+ * @returns The pieces of the polygon
+ */
+function splitByLattice(
+  polygon: NoisePolygon,
+  direction: Vector3,
+  spacing: number,
+  channels: VertexAttributeChannel[],
+): NoisePolygon[] {
+  const distances = polygon.vertices.map(
+    (vertex) => vertex.position.dot(direction) / spacing,
+  );
+  const min = Math.min(...distances);
+  const max = Math.max(...distances);
+
+  const pieces: NoisePolygon[] = [];
+  let rest: NoisePolygon | null = polygon;
+  for (let k = Math.floor(min) + 1; k < max - LATTICE_EPSILON && rest; k++) {
+    if (k <= min + LATTICE_EPSILON) continue;
+
+    const [below, above] = splitPolygon(
+      rest,
+      direction,
+      k * spacing,
+      LATTICE_EPSILON * spacing,
+      channels,
+    );
+    if (below) pieces.push(below);
+    rest = above;
+  }
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+/**
+ * Splits a convex polygon by the plane `direction · p = offset`
+ * @returns The pieces below and above the plane, or null for empty pieces
+ */
+function splitPolygon(
+  polygon: NoisePolygon,
+  direction: Vector3,
+  offset: number,
+  epsilon: number,
+  channels: VertexAttributeChannel[],
+): [NoisePolygon | null, NoisePolygon | null] {
+  const { vertices, vertexTypes, edgeTypes } = polygon;
+  const distances = vertices.map(
+    (vertex) => vertex.position.dot(direction) - offset,
+  );
+
+  const sides = [0, 1].map(() => ({
+    polygon: { vertices: [], vertexTypes: [], edgeTypes: [] } as NoisePolygon,
+    onPlane: [] as boolean[],
+  }));
+  const [below, above] = sides;
+
+  const push = (
+    side: (typeof sides)[number],
+    vertex: MeshVertex,
+    vertexType: number,
+    edgeType: number,
+    onPlane: boolean,
+  ) => {
+    side.polygon.vertices.push(vertex);
+    side.polygon.vertexTypes.push(vertexType);
+    side.polygon.edgeTypes.push(edgeType);
+    side.onPlane.push(onPlane);
+  };
+
+  for (let i = 0; i < vertices.length; i++) {
+    const j = (i + 1) % vertices.length;
+    const di = distances[i];
+    const dj = distances[j];
+    const onPlane = Math.abs(di) <= epsilon;
+
+    if (di <= epsilon)
+      push(below, vertices[i], vertexTypes[i], edgeTypes[i], onPlane);
+    if (di >= -epsilon)
+      push(above, vertices[i], vertexTypes[i], edgeTypes[i], onPlane);
+
+    // The edge crosses the plane, so both pieces share a new vertex on it
+    if ((di < -epsilon && dj > epsilon) || (di > epsilon && dj < -epsilon)) {
+      const a = vertices[i];
+      const b = vertices[j];
+      const t = di / (di - dj);
+      const vertex = new MeshVertex(
+        a.position.clone().lerp(b.position, t),
+        a.normal.clone(),
+        a.uv.clone().lerp(b.uv, t),
+        interpolateAttributes(channels, a.attributes, b.attributes, t),
+      );
+      push(below, vertex, edgeTypes[i], edgeTypes[i], true);
+      push(above, vertex, edgeTypes[i], edgeTypes[i], true);
+    }
+  }
+
+  return sides.map(({ polygon, onPlane }) => {
+    if (polygon.vertices.length < 3) return null;
+
+    // The edge along the plane runs through the interior of the face
+    const n = polygon.vertices.length;
+    for (let i = 0; i < n; i++) {
+      if (onPlane[i] && onPlane[(i + 1) % n]) {
+        polygon.edgeTypes[i] = FREE;
+      }
+    }
+    return polygon;
+  }) as [NoisePolygon | null, NoisePolygon | null];
+}
+
+/**
+ * Samples the noise vector at a position. Each component is value noise
+ * interpolated linearly inside the tetrahedra of the lattice.
+ * @param position The sample position
+ * @param options Cut-face noise options
+ * @param octaves Number of noise layers
+ * @param target Vector to store the result in
+ * @returns The noise vector
+ */
+function sampleNoise(
+  position: Vector3,
+  options: CutFaceNoiseOptions,
+  octaves: number,
+  target: Vector3,
+): Vector3 {
+  target.set(0, 0, 0);
+  let totalWeight = 0;
+
+  for (let octave = 0; octave < octaves; octave++) {
+    const frequency = options.frequency * 2 ** octave;
+    const weight = 0.5 ** octave;
+    const seed = Math.imul((options.seed ?? 0) | 0, 16777619) + 3 * octave;
+
+    const coords = [
+      position.x * frequency,
+      position.y * frequency,
+      position.z * frequency,
+    ];
+    const corner = coords.map(Math.floor);
+    const fractions = coords.map((value, i) => value - corner[i]);
+
+    // The tetrahedron containing the point runs from the cube corner along
+    // the axes in order of decreasing fraction
+    const axes = [0, 1, 2].sort((a, b) => fractions[b] - fractions[a]);
+    let previous = 1;
+    for (let i = 0; i <= 3; i++) {
+      const next = i < 3 ? fractions[axes[i]] : 0;
+      const w = weight * (previous - next);
+      target.x += w * latticeValue(corner, seed);
+      target.y += w * latticeValue(corner, seed + 1);
+      target.z += w * latticeValue(corner, seed + 2);
+      if (i < 3) corner[axes[i]]++;
+      previous = next;
+    }
+
+    totalWeight += weight;
+  }
+
+  return target.multiplyScalar(options.amplitude / totalWeight);
+}
+
+/**
+ * Returns a pseudo-random value between -1 and 1 for a lattice point
+ */
+function latticeValue(point: number[], seed: number): number {
+  let h =
+    Math.imul(point[0], 0x8da6b343) ^
+    Math.imul(point[1], 0xd8163841) ^
+    Math.imul(point[2], 0xcb1ab31f) ^
+    Math.imul(seed, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+/**
+ * Recomputes the normals of the displaced cut-face vertices from the
+ * triangles around them
+ */
+function computeNormals(vertices: MeshVertex[], triangles: number[]): void {
+  const normals = vertices.map(() => new Vector3());
+  const ab = new Vector3();
+  const ac = new Vector3();
+
+  for (let i = 0; i < triangles.length; i += 3) {
+    const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]];
+    ab.subVectors(vertices[b].position, vertices[a].position);
+    ac.subVectors(vertices[c].position, vertices[a].position);
+    ab.cross(ac);
+    normals[a].add(ab);
+    normals[b].add(ab);
+    normals[c].add(ab);
+  }
+
+  vertices.forEach((vertex, i) => {
+    if (normals[i].lengthSq() > 0) {
+      vertex.normal.copy(normals[i].normalize());
+    }
+  });
+}
+
+/**
+ * Updates the generated attributes of the displaced cut-face vertices. Source
+ * positions follow the displacement, and tangents are made perpendicular to
+ * the recomputed normals again, keeping their handedness.
+ */
+function updateGeneratedAttributes(
+  vertices: MeshVertex[],
+  fragment: Fragment,
+): void {
+  const value = new Vector3();
+  for (const { offset, itemSize, fill } of fragment.attributes) {
+    if (itemSize < 3) continue;
+    for (const vertex of vertices) {
+      if (fill === "sourcePosition") {
+        value.addVectors(vertex.position, fragment.sourceOrigin);
+      } else if (fill === "tangent") {
+        value
+          .fromArray(vertex.attributes, offset)
+          .projectOnPlane(vertex.normal)
+          .normalize();
+      } else {
+        continue;
+      }
+      value.toArray(vertex.attributes, offset);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Vector2, Vector3, Vector4 } from "three";
+import { CutFaceUVMode } from "../entities/CutFaceUVMode";
+
+/**
+ * Projects a point on a cut face to texture coordinates
+ * @param position Position of the point in the local space of the original mesh
+ * @param normal Normal of the cut face
+ * @param mode Projection to use
+ * @param target Vector to store the result in
+ * @returns The texture coordinates of the point
+ */
+export function projectCutFaceUV(
+  position: Vector3,
+  normal: Vector3,
+  mode: Exclude<CutFaceUVMode, "triangulation">,
+  target: Vector2 = new Vector2(),
+): Vector2 {
+  const { u, v } = getCutFaceUVAxes(normal, mode);
+  return target.set(position.dot(u), position.dot(v));
+}
+
+/**
+ * Returns the directions that a point on a cut face is projected onto to get
+ * its texture coordinates
+ * @param normal Normal of the cut face
+ * @param mode Projection to use
+ * @returns The directions of the U and V coordinates
+ */
+export function getCutFaceUVAxes(
+  normal: Vector3,
+  mode: Exclude<CutFaceUVMode, "triangulation">,
+): { u: Vector3; v: Vector3 } {
+  // Axis that the cut face is facing the most
+  const ax = Math.abs(normal.x);
+  const ay = Math.abs(normal.y);
+  const az = Math.abs(normal.z);
+  const axis = ax >= ay && ax >= az ? 0 : ay >= az ? 1 : 2;
+
+  // Both sides of a cut use the same projection, except for box mapping,
+  // which mirrors the texture on opposite sides
+  const sign = mode === "box" ? Math.sign(normal.getComponent(axis)) || 1 : 1;
+
+  if (mode === "planar") {
+    const n = normal.clone().normalize();
+    if (n.getComponent(axis) < 0) n.negate();
+
+    // The tangent follows the object axes, matching the axis-aligned modes
+    // for cuts parallel to an axis plane
+    const helper = axis === 1 ? new Vector3(0, 0, -1) : new Vector3(0, 1, 0);
+    const tangent = helper.cross(n).normalize();
+    const bitangent = n.clone().cross(tangent);
+    return { u: tangent, v: bitangent };
+  }
+
+  switch (axis) {
+    case 0:
+      return { u: new Vector3(0, 0, -sign), v: new Vector3(0, 1, 0) };
+    case 1:
+      return { u: new Vector3(1, 0, 0), v: new Vector3(0, 0, -sign) };
+    default:
+      return { u: new Vector3(sign, 0, 0), v: new Vector3(0, 1, 0) };
+  }
+}
+
+/**
+ * Computes the tangent of a flat cut face, i.e. the direction in which its U
+ * texture coordinate increases. The W component is the handedness of the
+ * tangent frame, following the three.js convention that the bitangent is
+ * `cross(normal, tangent.xyz) * w`.
+ * @param normal Normal of the cut face
+ * @param u Direction that positions are projected onto to get the U coordinate
+ * @param v Direction that positions are projected onto to get the V coordinate
+ * @param textureScale Scale factor applied to the UV coordinates
+ * @param target Vector to store the result in
+ * @returns The tangent of the cut face
+ */
+export function computeCutFaceTangent(
+  normal: Vector3,
+  u: Vector3,
+  v: Vector3,
+  textureScale: Vector2,
+  target: Vector4 = new Vector4(),
+): Vector4 {
+  const n = normal.clone().normalize();
+
+  // Gradients of the texture coordinates within the plane of the face
+  const du = u.clone().projectOnPlane(n);
+  const dv = v.clone().projectOnPlane(n);
+
+  // Moving along dv × n leaves V unchanged, so it is the direction of U, and
+  // likewise for du × n. The scale only flips the directions.
+  const tangent = dv.clone().cross(n);
+  if (tangent.dot(du) * textureScale.x < 0) tangent.negate();
+  const bitangent = du.clone().cross(n);
+  if (bitangent.dot(dv) * textureScale.y < 0) bitangent.negate();
+
+  tangent.normalize();
+  const w = n.cross(tangent).dot(bitangent) < 0 ? -1 : 1;
+  return target.set(tangent.x, tangent.y, tangent.z, w);
+}
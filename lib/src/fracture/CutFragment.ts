@@ -0,0 +1,768 @@
+import { Box3, Plane, Vector2, Vector3 } from "three";
+import { Fragment } from "../entities/Fragment";
+import { MeshVertex } from "../entities/MeshVertex";
+import {
+  VertexAttributeChannel,
+  fillCutFaceAttributes,
+  interpolateAttributes,
+} from "../entities/VertexAttributeChannel";
+import { hash3 } from "../utils/MathUtils";
+import { WindingNumber } from "../utils/WindingNumber";
+
+/**
+ * Vertices closer than this to a plane are considered to lie on the plane
+ */
+const PLANE_EPSILON = 1e-5;
+
+// Classification of a vertex or polygon relative to a plane. A polygon with
+// vertices on both sides of the plane is spanning (FRONT | BACK).
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+/**
+ * Convex polygon on the surface of a closed mesh. The vertices wind
+ * counter-clockwise when viewed from outside of the mesh.
+ */
+interface Polygon {
+  vertices: MeshVertex[];
+  plane: Plane;
+  subMesh: number;
+
+  /**
+   * Index of the triangle of the mesh that the polygon is part of
+   */
+  source: number;
+}
+
+/**
+ * Node of a binary space partitioning tree built from the polygons of a
+ * closed mesh. The space behind a node without a back child is inside the
+ * mesh, and the space in front of a node without a front child is outside.
+ */
+class BSPNode {
+  plane: Plane;
+  front: BSPNode | null = null;
+  back: BSPNode | null = null;
+
+  /**
+   * Vertices created where edges cross the plane of this node, by edge. Both
+   * polygons that share an edge reuse the same vertex, which keeps the split
+   * surface connected.
+   */
+  splitVertices = new Map<string, MeshVertex>();
+
+  /**
+   * Triangles of the mesh that lie in the plane of this node
+   */
+  sources: number[] = [];
+
+  constructor(plane: Plane) {
+    this.plane = plane;
+  }
+}
+
+/**
+ * Splits polygons by the planes of a BSP tree
+ */
+class PolygonSplitter {
+  /**
+   * Unique id of each vertex, used to identify edges
+   */
+  private ids = new Map<MeshVertex, number>();
+
+  /**
+   * Node whose plane each split vertex was created on
+   */
+  private nodes = new Map<MeshVertex, BSPNode>();
+
+  /**
+   * Splits a polygon by the plane of `node`. The pieces are added to the
+   * `front` or `back` lists, and polygons that lie in the plane are added to
+   * `coplanarFront` or `coplanarBack` depending on their orientation.
+   * @param polygon The polygon to split
+   * @param node The node whose plane splits the polygon
+   * @param channels Attribute channels of the polygon vertices
+   */
+  split(
+    polygon: Polygon,
+    node: BSPNode,
+    channels: VertexAttributeChannel[],
+    coplanarFront: Polygon[],
+    coplanarBack: Polygon[],
+    front: Polygon[],
+    back: Polygon[],
+  ): void {
+    const { vertices } = polygon;
+    const types: number[] = new Array(vertices.length);
+    let polygonType = COPLANAR;
+    for (let i = 0; i < vertices.length; i++) {
+      const distance = node.plane.distanceToPoint(vertices[i].position);
+      types[i] =
+        distance < -PLANE_EPSILON
+          ? BACK
+          : distance > PLANE_EPSILON
+            ? FRONT
+            : COPLANAR;
+      polygonType |= types[i];
+    }
+
+    switch (polygonType) {
+      case COPLANAR:
+        if (node.plane.normal.dot(polygon.plane.normal) > 0) {
+          coplanarFront.push(polygon);
+        } else {
+          coplanarBack.push(polygon);
+        }
+        break;
+      case FRONT:
+        front.push(polygon);
+        break;
+      case BACK:
+        back.push(polygon);
+        break;
+      case SPANNING: {
+        const frontVertices: MeshVertex[] = [];
+        const backVertices: MeshVertex[] = [];
+        for (let i = 0; i < vertices.length; i++) {
+          const j = (i + 1) % vertices.length;
+          if (types[i] !== BACK) frontVertices.push(vertices[i]);
+          if (types[i] !== FRONT) backVertices.push(vertices[i]);
+
+          // The edge crosses the plane, so both pieces share a new vertex
+          if ((types[i] | types[j]) === SPANNING) {
+            const vertex = this.getSplitVertex(
+              node,
+              vertices[i],
+              vertices[j],
+              channels,
+            );
+            frontVertices.push(vertex);
+            backVertices.push(vertex);
+          }
+        }
+
+        if (frontVertices.length >= 3) {
+          front.push({ ...polygon, vertices: frontVertices });
+        }
+        if (backVertices.length >= 3) {
+          back.push({ ...polygon, vertices: backVertices });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Gets the vertex where the edge `a`-`b` crosses the plane of `node`
+   */
+  private getSplitVertex(
+    node: BSPNode,
+    a: MeshVertex,
+    b: MeshVertex,
+    channels: VertexAttributeChannel[],
+  ): MeshVertex {
+    // Always interpolate in the same direction so the vertex doesn't depend
+    // on which of the polygons sharing the edge is split first
+    const idA = this.getId(a);
+    const idB = this.getId(b);
+    const [from, to] = idA < idB ? [a, b] : [b, a];
+    const key = idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+    let vertex = node.splitVertices.get(key);
+    if (!vertex) {
+      const d1 = node.plane.distanceToPoint(from.position);
+      const d2 = node.plane.distanceToPoint(to.position);
+      const t = d1 / (d1 - d2);
+
+      vertex = new MeshVertex(
+        from.position.clone().lerp(to.position, t),
+        from.normal.clone().lerp(to.normal, t).normalize(),
+        from.uv.clone().lerp(to.uv, t),
+        interpolateAttributes(channels, from.attributes, to.attributes, t),
+      );
+      node.splitVertices.set(key, vertex);
+      this.nodes.set(vertex, node);
+    }
+
+    return vertex;
+  }
+
+  /**
+   * Gets the node whose plane `vertex` was split on, or undefined if the
+   * vertex wasn't created by this splitter
+   */
+  getNode(vertex: MeshVertex): BSPNode | undefined {
+    return this.nodes.get(vertex);
+  }
+
+  private getId(vertex: MeshVertex): number {
+    let id = this.ids.get(vertex);
+    if (id === undefined) {
+      id = this.ids.size;
+      this.ids.set(vertex, id);
+    }
+    return id;
+  }
+}
+
+/**
+ * Cuts a fragment by a closed cutter mesh. The surface of the fragment is
+ * split where it crosses the surface of the cutter, and the part of the
+ * cutter surface inside the fragment becomes the cut face of both pieces.
+ * The cut faces take their normals from the cutter and their UV coordinates
+ * from the cutter's UVs.
+ * @param fragment The fragment to cut
+ * @param cutter The cutter mesh, in the same space as `fragment`
+ * @param textureScale Scale factor to apply to the cut-face UV coordinates
+ * @param textureOffset Offset to apply to the cut-face UV coordinates
+ * @returns The part of the fragment inside the cutter and the part outside of it
+ */
+export function cutFragment(
+  fragment: Fragment,
+  cutter: Fragment,
+  textureScale: Vector2,
+  textureOffset: Vector2,
+): { inside: Fragment; outside: Fragment } {
+  fragment.calculateBounds();
+  cutter.calculateBounds();
+  const fragmentBounds = fragment.bounds.clone().expandByScalar(PLANE_EPSILON);
+  const cutterBounds = cutter.bounds.clone().expandByScalar(PLANE_EPSILON);
+
+  const splitter = new PolygonSplitter();
+  const polygons = getPolygons(fragment);
+  const cutterPolygons = getPolygons(cutter);
+
+  // Polygons away from the cutter are outside of it and are kept as they are
+  const outsidePolygons: Polygon[] = [];
+  const nearbyPolygons: Polygon[] = [];
+  for (const polygon of polygons) {
+    if (getPolygonBounds(polygon).intersectsBox(cutterBounds)) {
+      nearbyPolygons.push(polygon);
+    } else {
+      outsidePolygons.push(polygon);
+    }
+  }
+
+  const surface = partitionPolygons(
+    nearbyPolygons,
+    cutterPolygons,
+    splitter,
+    fragment.attributes,
+  );
+  for (const polygon of surface.outside) {
+    outsidePolygons.push(polygon);
+  }
+
+  // Only the part of the cutter surface inside the fragment is kept
+  const cutFace = partitionPolygons(
+    cutterPolygons.filter((polygon) =>
+      getPolygonBounds(polygon).intersectsBox(fragmentBounds),
+    ),
+    polygons,
+    splitter,
+    [],
+  ).inside;
+
+  const inside = createFragment(fragment, surface.inside);
+  const outside = createFragment(fragment, outsidePolygons);
+
+  // The cutter's normals point out of the inside piece and into the
+  // outside piece
+  addCutFace(
+    inside,
+    surface.inside,
+    cutFace,
+    false,
+    splitter,
+    textureScale,
+    textureOffset,
+  );
+  addCutFace(
+    outside,
+    outsidePolygons,
+    cutFace,
+    true,
+    splitter,
+    textureScale,
+    textureOffset,
+  );
+
+  return { inside, outside };
+}
+
+/**
+ * Creates the polygons for the triangles of a fragment
+ */
+function getPolygons(fragment: Fragment): Polygon[] {
+  const polygons: Polygon[] = [];
+  const vertices = [...fragment.vertices, ...fragment.cutVertices];
+
+  fragment.triangles.forEach((triangles, subMesh) => {
+    for (let i = 0; i < triangles.length; i += 3) {
+      const a = vertices[triangles[i]];
+      const b = vertices[triangles[i + 1]];
+      const c = vertices[triangles[i + 2]];
+      const plane = new Plane().setFromCoplanarPoints(
+        a.position,
+        b.position,
+        c.position,
+      );
+
+      // Skip degenerate triangles, which have no plane
+      if (plane.normal.lengthSq() < 0.5) continue;
+
+      polygons.push({
+        vertices: [a, b, c],
+        plane,
+        subMesh,
+        source: polygons.length,
+      });
+    }
+  });
+
+  return polygons;
+}
+
+function getPolygonBounds(polygon: Polygon): Box3 {
+  const bounds = new Box3();
+  for (const vertex of polygon.vertices) {
+    bounds.expandByPoint(vertex.position);
+  }
+  return bounds;
+}
+
+/**
+ * Builds a BSP tree from the polygons of a closed mesh
+ */
+function buildTree(
+  polygons: Polygon[],
+  splitter: PolygonSplitter,
+  channels: VertexAttributeChannel[],
+): BSPNode | null {
+  if (polygons.length === 0) return null;
+
+  // The tree is built iteratively, since it can be as deep as the number of
+  // polygons (e.g. for a convex mesh)
+  const root = new BSPNode(polygons[0].plane);
+  const stack = [{ node: root, polygons }];
+  while (stack.length > 0) {
+    const { node, polygons } = stack.pop()!;
+
+    // Polygons in the plane of the node are represented by the node itself
+    const coplanar: Polygon[] = [];
+    const front: Polygon[] = [];
+    const back: Polygon[] = [];
+    for (const polygon of polygons) {
+      splitter.split(polygon, node, channels, coplanar, coplanar, front, back);
+    }
+    node.sources = coplanar.map((polygon) => polygon.source);
+
+    if (front.length > 0) {
+      node.front = new BSPNode(front[0].plane);
+      stack.push({ node: node.front, polygons: front });
+    }
+    if (back.length > 0) {
+      node.back = new BSPNode(back[0].plane);
+      stack.push({ node: node.back, polygons: back });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Splits polygons into the parts inside and outside of a closed mesh.
+ * Polygons that lie on the surface of the mesh are outside if they face the
+ * same way as the surface and inside otherwise.
+ * @param polygons The polygons to split
+ * @param solid The polygons of the closed mesh
+ * @param splitter The splitter used for the polygons
+ * @param channels Attribute channels of the polygon vertices
+ */
+function partitionPolygons(
+  polygons: Polygon[],
+  solid: Polygon[],
+  splitter: PolygonSplitter,
+  channels: VertexAttributeChannel[],
+): { inside: Polygon[]; outside: Polygon[] } {
+  const inside: Polygon[] = [];
+  const outside: Polygon[] = [];
+  if (polygons.length === 0) return { inside, outside };
+
+  // Only the part of the mesh surface near the polygons can split them, so
+  // the tree is built from those polygons alone. This keeps the tree small
+  // when cutting a small part of a large mesh.
+  const region = new Box3();
+  for (const polygon of polygons) {
+    region.union(getPolygonBounds(polygon));
+  }
+  region.expandByScalar(PLANE_EPSILON);
+  const treePolygons = solid.filter((polygon) =>
+    getPolygonBounds(polygon).intersectsBox(region),
+  );
+  const complete = treePolygons.length === solid.length;
+  let winding: WindingNumber | undefined;
+
+  // A leaf of a tree built from the whole surface is inside the mesh if it
+  // is behind its node. A partial tree can't tell, but no part of the surface
+  // crosses a leaf within the region, so a single winding number test
+  // classifies all polygons in the leaf.
+  const leaves = new Map<BSPNode | null, [boolean?, boolean?]>();
+  const isInside = (
+    node: BSPNode | null,
+    back: boolean,
+    polygon: Polygon,
+  ): boolean => {
+    if (complete && node) return back;
+
+    const leaf = leaves.get(node) ?? [];
+    let result = leaf[back ? 1 : 0];
+    if (result === undefined) {
+      // Move the point off the plane of the node, into the leaf
+      const point = getPolygonCentroid(polygon);
+      if (node) {
+        point.addScaledVector(node.plane.normal, back ? -1e-4 : 1e-4);
+      }
+      winding ??= new WindingNumber(
+        solid.map(({ vertices }) => vertices.map(({ position }) => position)),
+      );
+      result = winding.containsPoint(point);
+      leaf[back ? 1 : 0] = result;
+      leaves.set(node, leaf);
+    }
+    return result;
+  };
+
+  const root = buildTree(treePolygons, splitter, []);
+  if (!root) {
+    const target = isInside(null, false, polygons[0]) ? inside : outside;
+    for (const polygon of polygons) target.push(polygon);
+    return { inside, outside };
+  }
+
+  const stack = [{ node: root, polygons }];
+  while (stack.length > 0) {
+    const { node, polygons } = stack.pop()!;
+
+    const front: Polygon[] = [];
+    const back: Polygon[] = [];
+    for (const polygon of polygons) {
+      splitter.split(polygon, node, channels, front, back, front, back);
+    }
+
+    if (front.length > 0) {
+      if (node.front) {
+        stack.push({ node: node.front, polygons: front });
+      } else {
+        const target = isInside(node, false, front[0]) ? inside : outside;
+        for (const polygon of front) target.push(polygon);
+      }
+    }
+    if (back.length > 0) {
+      if (node.back) {
+        stack.push({ node: node.back, polygons: back });
+      } else {
+        const target = isInside(node, true, back[0]) ? inside : outside;
+        for (const polygon of back) target.push(polygon);
+      }
+    }
+  }
+
+  return { inside, outside };
+}
+
+function getPolygonCentroid(polygon: Polygon): Vector3 {
+  const centroid = new Vector3();
+  for (const vertex of polygon.vertices) {
+    centroid.add(vertex.position);
+  }
+  return centroid.divideScalar(polygon.vertices.length);
+}
+
+/**
+ * Creates a fragment from the surface polygons of `source`
+ */
+function createFragment(source: Fragment, polygons: Polygon[]): Fragment {
+  const fragment = new Fragment();
+  fragment.attributes = source.attributes;
+  fragment.sourceOrigin = source.sourceOrigin;
+  fragment.triangles = source.triangles.map(() => []);
+
+  const indices = new Map<MeshVertex, number>();
+  for (const polygon of polygons) {
+    const polygonIndices = polygon.vertices.map((vertex) => {
+      let index = indices.get(vertex);
+      if (index === undefined) {
+        fragment.vertices.push(vertex);
+        index = fragment.vertices.length - 1;
+        indices.set(vertex, index);
+      }
+      return index;
+    });
+
+    for (let i = 1; i < polygonIndices.length - 1; i++) {
+      fragment.addTriangle(
+        polygonIndices[0],
+        polygonIndices[i],
+        polygonIndices[i + 1],
+        polygon.subMesh,
+      );
+    }
+  }
+
+  return fragment;
+}
+
+/**
+ * Adds the cutter polygons to the cut face of a fragment
+ * @param fragment The fragment to add the cut face to
+ * @param surface The surface polygons of the fragment
+ * @param polygons The cutter polygons inside the fragment
+ * @param flip Whether to reverse the cutter polygons
+ * @param splitter The splitter used for the polygons
+ * @param textureScale Scale factor to apply to the cut-face UV coordinates
+ * @param textureOffset Offset to apply to the cut-face UV coordinates
+ */
+function addCutFace(
+  fragment: Fragment,
+  surface: Polygon[],
+  polygons: Polygon[],
+  flip: boolean,
+  splitter: PolygonSplitter,
+  textureScale: Vector2,
+  textureOffset: Vector2,
+): void {
+  if (polygons.length === 0) return;
+
+  const vertices: MeshVertex[] = [];
+  const indices = new Map<MeshVertex, number>();
+  const faces = polygons.map((polygon) =>
+    polygon.vertices.map((vertex) => {
+      let index = indices.get(vertex);
+      if (index === undefined) {
+        index = vertices.push(vertex) - 1;
+        indices.set(vertex, index);
+      }
+      return index;
+    }),
+  );
+
+  // Without any surface (e.g. the inside of a cutter that is completely
+  // enclosed by the fragment), the cut face is a closed mesh by itself
+  const closed = fragment.vertices.length === 0;
+  const links = closed
+    ? []
+    : linkCutFace(fragment, surface, vertices, faces, splitter);
+  const cutVertices = closed ? fragment.vertices : fragment.cutVertices;
+  const offset = closed ? 0 : fragment.vertices.length;
+
+  const attributeSize = fragment.attributes.reduce(
+    (size, channel) => size + channel.itemSize,
+    0,
+  );
+  vertices.forEach((vertex, index) => {
+    const normal = flip ? vertex.normal.clone().negate() : vertex.normal;
+    const uv = new Vector2(
+      vertex.uv.x * textureScale.x + textureOffset.x,
+      vertex.uv.y * textureScale.y + textureOffset.y,
+    );
+    const edgeValues = closed
+      ? new Array<number>(attributeSize).fill(0)
+      : fragment.vertices[links[index]].attributes;
+
+    cutVertices.push(
+      new MeshVertex(
+        vertex.position.clone(),
+        normal.clone(),
+        uv,
+        fillCutFaceAttributes(
+          fragment.attributes,
+          vertex.position,
+          normal,
+          uv,
+          edgeValues,
+          undefined,
+          fragment.sourceOrigin,
+        ),
+      ),
+    );
+  });
+  for (const link of links) {
+    fragment.vertexAdjacency.push(link);
+  }
+
+  for (const face of faces) {
+    for (let i = 1; i < face.length - 1; i++) {
+      if (flip) {
+        fragment.addTriangle(
+          offset + face[0],
+          offset + face[i + 1],
+          offset + face[i],
+          fragment.cutFaceSubmesh,
+        );
+      } else {
+        fragment.addTriangle(
+          offset + face[0],
+          offset + face[i],
+          offset + face[i + 1],
+          fragment.cutFaceSubmesh,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Links each vertex of a cut face to a vertex of the fragment surface, which
+ * connects the cut face to the surface when finding isolated geometry and
+ * provides the values of interpolated attributes.
+ *
+ * A vertex on the edge of the cut face was split from a cutter edge by the
+ * plane of the surface triangle it lies on, so it is linked to the part of
+ * that triangle that contains it. The other vertices take the link of a
+ * neighbor. A part of the cut face that doesn't touch the surface (the wall
+ * of a cavity inside the fragment) is linked to the closest surface vertex,
+ * which belongs to the surface around the cavity.
+ * @param fragment The fragment
+ * @param surface The surface polygons of the fragment
+ * @param vertices The cutter vertices of the cut face
+ * @param faces Indices of the vertices of each cut-face polygon
+ * @param splitter The splitter used for the polygons
+ * @returns Index of the surface vertex linked to each cut-face vertex
+ */
+function linkCutFace(
+  fragment: Fragment,
+  surface: Polygon[],
+  vertices: MeshVertex[],
+  faces: number[][],
+  splitter: PolygonSplitter,
+): number[] {
+  const surfaceIndices = new Map<MeshVertex, number>();
+  fragment.vertices.forEach((vertex, index) =>
+    surfaceIndices.set(vertex, index),
+  );
+
+  // Parts of each surface triangle that are in the fragment
+  const parts = new Map<number, Polygon[]>();
+  for (const polygon of surface) {
+    let list = parts.get(polygon.source);
+    if (!list) {
+      list = [];
+      parts.set(polygon.source, list);
+    }
+    list.push(polygon);
+  }
+
+  const links = vertices.map((vertex) => {
+    const sources = splitter.getNode(vertex)?.sources ?? [];
+    for (const source of sources) {
+      for (const part of parts.get(source) ?? []) {
+        if (!containsPoint(part, vertex.position)) continue;
+
+        // Take the attributes from the closest corner of the part
+        let closest = part.vertices[0];
+        for (const corner of part.vertices) {
+          if (
+            corner.position.distanceToSquared(vertex.position) <
+            closest.position.distanceToSquared(vertex.position)
+          ) {
+            closest = corner;
+          }
+        }
+        return surfaceIndices.get(closest)!;
+      }
+    }
+    return -1;
+  });
+
+  const neighbors: number[][] = vertices.map(() => []);
+  for (const face of faces) {
+    for (let i = 0; i < face.length; i++) {
+      const j = (i + 1) % face.length;
+      neighbors[face[i]].push(face[j]);
+      neighbors[face[j]].push(face[i]);
+    }
+  }
+
+  // Cutter faces that don't share vertices (e.g. the sides and the caps of a
+  // cylinder) are connected where their vertices coincide
+  const coincident = new Map<number, number>();
+  vertices.forEach((vertex, index) => {
+    const key = hash3(vertex.position);
+    const other = coincident.get(key);
+    if (other === undefined) {
+      coincident.set(key, index);
+    } else {
+      neighbors[index].push(other);
+      neighbors[other].push(index);
+    }
+  });
+
+  const queue: number[] = [];
+  links.forEach((link, index) => {
+    if (link >= 0) queue.push(index);
+  });
+  let unlinked = 0;
+  for (let head = 0; ; ) {
+    while (head < queue.length) {
+      const index = queue[head++];
+      for (const neighbor of neighbors[index]) {
+        if (links[neighbor] < 0) {
+          links[neighbor] = links[index];
+          queue.push(neighbor);
+        }
+      }
+    }
+
+    unlinked = links.indexOf(-1, unlinked);
+    if (unlinked < 0) break;
+    links[unlinked] = findNearestVertex(fragment, vertices[unlinked]);
+    queue.push(unlinked);
+  }
+
+  return links;
+}
+
+/**
+ * Checks whether a point in the plane of a polygon lies inside of it or on
+ * its edges
+ */
+function containsPoint(polygon: Polygon, point: Vector3): boolean {
+  const { vertices } = polygon;
+  const edge = new Vector3();
+  const toPoint = new Vector3();
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i].position;
+    const b = vertices[(i + 1) % vertices.length].position;
+    edge.subVectors(b, a);
+    toPoint.subVectors(point, a);
+
+    // The vertices wind counter-clockwise around the normal, so the point is
+    // to the left of each edge
+    const distance =
+      edge.clone().cross(toPoint).dot(polygon.plane.normal) / edge.length();
+    if (distance < -PLANE_EPSILON) return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the vertex of the fragment closest to `vertex`
+ * @param fragment The fragment
+ * @param vertex The vertex to search from
+ * @returns The index of the closest vertex
+ */
+function findNearestVertex(fragment: Fragment, vertex: MeshVertex): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  fragment.vertices.forEach((candidate, index) => {
+    const distance = candidate.position.distanceToSquared(vertex.position);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
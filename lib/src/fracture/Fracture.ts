@@ -15,6 +15,14 @@ export function fracture(
   geometry: THREE.BufferGeometry,
   options: FractureOptions,
 ): THREE.BufferGeometry[] {
-  const fragments = fractureFragment(geometryToFragment(geometry), options);
+  const fragments = fractureFragment(
+    geometryToFragment(
+      geometry,
+      options.attributeFill,
+      options.generateTangents,
+      options.generateSourcePositions,
+    ),
+    options,
+  );
   return fragments.map((fragment) => fragmentToGeometry(fragment));
 }
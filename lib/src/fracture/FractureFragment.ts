@@ -5,6 +5,7 @@ import { sliceFragment } from "./SliceFragment";
 import { UnionFind } from "../utils/UnionFind";
 import { hash3 } from "../utils/MathUtils";
 import { SeededRandom } from "../utils/SeededRandom";
+import { addNewCutFaceSubmesh, displaceCutFaces } from "./CutFaceNoise";
 
 /**
  * Takes in raw geometry data and fractures it into multiple fragments
@@ -49,6 +50,10 @@ export function fractureFragment(
     options.seed = seed;
   }
 
+  if (options.cutFaceNoise) {
+    addNewCutFaceSubmesh(fragment);
+  }
+
   const fragments: Fragment[] = [fragment];
 
   // Subdivide the mesh into multiple fragments until we reach the fragment limit
@@ -75,6 +80,7 @@ export function fractureFragment(
       options.textureScale,
       options.textureOffset,
       false, // convex = false
+      options.cutFaceUVMode,
     );
 
     const topfragments = findIsolatedGeometry(topSlice);
@@ -83,6 +89,11 @@ export function fractureFragment(
     fragments.push(...topfragments, ...bottomfragments);
   }
 
+  const { cutFaceNoise } = options;
+  if (cutFaceNoise) {
+    fragments.forEach((fragment) => displaceCutFaces(fragment, cutFaceNoise));
+  }
+
   return fragments;
 }
 
@@ -136,7 +147,7 @@ export function findIsolatedGeometry(fragment: Fragment): Fragment[] {
       // Store triangles by root representative
       const root = uf.find(a);
       if (!rootTriangles[root]) {
-        rootTriangles[root] = [[], []];
+        rootTriangles[root] = fragment.triangles.map(() => []);
       }
 
       rootTriangles[root][submeshIndex].push(a, b, c);
@@ -154,6 +165,9 @@ export function findIsolatedGeometry(fragment: Fragment): Fragment[] {
     // If there is no fragment for this root yet, create it
     if (!rootFragments[root]) {
       rootFragments[root] = new Fragment();
+      rootFragments[root].attributes = fragment.attributes;
+      rootFragments[root].sourceOrigin = fragment.sourceOrigin;
+      rootFragments[root].triangles = fragment.triangles.map(() => []);
     }
 
     rootFragments[root].vertices.push(fragment.vertices[i]);
@@ -0,0 +1,70 @@
+import * as THREE from "three";
+import { FractureOptions } from "../entities/FractureOptions";
+import { VoronoiFractureOptions } from "../entities/VoronoiFractureOptions";
+import { voronoiFracture } from "./VoronoiFracture";
+import { fracture as simpleFracture } from "./Fracture";
+import { glassFracture } from "./GlassFracture";
+
+/**
+ * Fractures the geometry using the method specified by `options.fractureMethod`
+ * @param geometry The source geometry to fracture
+ * @param options Fracture options controlling the fracture behavior
+ * @returns Array of fractured geometry pieces (in the local space of `geometry`)
+ */
+export function fractureGeometry(
+  geometry: THREE.BufferGeometry,
+  options: FractureOptions,
+): THREE.BufferGeometry[] {
+  if (options.fractureMethod === "voronoi") {
+    return voronoiFracture(geometry, toVoronoiFractureOptions(options));
+  } else if (options.fractureMethod === "glass") {
+    return glassFracture(geometry, options);
+  } else {
+    return simpleFracture(geometry, options);
+  }
+}
+
+/**
+ * Converts FractureOptions to the VoronoiFractureOptions format used by the
+ * voronoiFracture function
+ * @param options The fracture options
+ * @returns The equivalent Voronoi fracture options
+ */
+export function toVoronoiFractureOptions(
+  options: FractureOptions,
+): VoronoiFractureOptions {
+  if (!options.voronoiOptions) {
+    throw new Error(
+      "voronoiOptions is required when fractureMethod is 'voronoi'",
+    );
+  }
+
+  return new VoronoiFractureOptions({
+    fragmentCount: options.fragmentCount,
+    mode: options.voronoiOptions.mode,
+    seedPoints: options.voronoiOptions.seedPoints,
+    impactPoint: options.voronoiOptions.impactPoint,
+    impactRadius: options.voronoiOptions.impactRadius,
+    projectionAxis: options.voronoiOptions.projectionAxis || "auto",
+    projectionNormal: options.voronoiOptions.projectionNormal,
+    useApproximation: options.voronoiOptions.useApproximation || false,
+    approximationNeighborCount:
+      options.voronoiOptions.approximationNeighborCount || 12,
+    useDelaunayNeighbors: options.voronoiOptions.useDelaunayNeighbors || false,
+    seedDistribution: options.voronoiOptions.seedDistribution || "uniform",
+    minSeedDistance: options.voronoiOptions.minSeedDistance,
+    seedPlacement: options.voronoiOptions.seedPlacement || "bounds",
+    relaxationIterations: options.voronoiOptions.relaxationIterations || 0,
+    grainDirection: options.voronoiOptions.grainDirection,
+    grainStretch: options.voronoiOptions.grainStretch,
+    metric: options.voronoiOptions.metric,
+    textureScale: options.textureScale,
+    textureOffset: options.textureOffset,
+    seed: options.seed,
+    attributeFill: options.attributeFill,
+    cutFaceNoise: options.cutFaceNoise,
+    cutFaceUVMode: options.cutFaceUVMode,
+    generateTangents: options.generateTangents,
+    generateSourcePositions: options.generateSourcePositions,
+  });
+}
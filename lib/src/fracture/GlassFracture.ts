@@ -0,0 +1,108 @@
+import * as THREE from "three";
+import { Box3, Vector3 } from "three";
+import { FractureOptions } from "../entities/FractureOptions";
+import { VoronoiFractureOptions } from "../entities/VoronoiFractureOptions";
+import { SeedPointGenerator } from "../utils/SeedPointGenerator";
+import { SeededRandom } from "../utils/SeededRandom";
+import { voronoiFracture } from "./VoronoiFracture";
+
+/**
+ * Largest number of radial cracks used by default
+ */
+const DEFAULT_RADIAL_CRACK_COUNT = 12;
+
+/**
+ * Smallest number of radial cracks used by default
+ */
+const MIN_RADIAL_CRACK_COUNT = 3;
+
+/**
+ * Default ratio between the radii of consecutive rings
+ */
+const DEFAULT_RING_SPACING = 1.6;
+
+/**
+ * Default irregularity of the cracks
+ */
+const DEFAULT_IRREGULARITY = 0.5;
+
+/**
+ * Shatters a pane of glass into radial cracks running out from an impact
+ * point and concentric cracks around it, with the finest shards near the
+ * impact point. The cracks run straight through the pane, as in a 2.5D
+ * Voronoi fracture.
+ *
+ * @param geometry The source geometry to fracture
+ * @param options Fracture options, with the pattern set by `glassOptions`
+ * @returns Array of fractured geometry pieces
+ */
+export function glassFracture(
+  geometry: THREE.BufferGeometry,
+  options: FractureOptions,
+): THREE.BufferGeometry[] {
+  geometry.computeBoundingBox();
+  return voronoiFracture(
+    geometry,
+    toGlassFractureOptions(options, geometry.boundingBox!),
+  );
+}
+
+/**
+ * Converts FractureOptions using the 'glass' fracture method to the options
+ * of a 2.5D Voronoi fracture with the seed points of the glass pattern.
+ * Seeds that fall outside of the mesh, e.g. for an impact near an edge,
+ * create no fragments.
+ *
+ * @param options The fracture options
+ * @param bounds Bounding box of the mesh being fractured
+ * @returns The equivalent Voronoi fracture options
+ */
+export function toGlassFractureOptions(
+  options: FractureOptions,
+  bounds: Box3,
+): VoronoiFractureOptions {
+  const glassOptions = options.glassOptions ?? {};
+  const rng = new SeededRandom(options.seed);
+
+  const axisOption = glassOptions.projectionAxis ?? "auto";
+  const axis =
+    axisOption === "auto"
+      ? SeedPointGenerator.determineBestProjectionAxis(bounds)
+      : axisOption;
+
+  const radialCrackCount =
+    glassOptions.radialCrackCount ??
+    Math.max(
+      MIN_RADIAL_CRACK_COUNT,
+      Math.min(DEFAULT_RADIAL_CRACK_COUNT, options.fragmentCount),
+    );
+  const ringCount =
+    glassOptions.ringCount ??
+    Math.max(1, Math.round(options.fragmentCount / radialCrackCount));
+
+  const seedPoints = SeedPointGenerator.generateRadial(
+    bounds,
+    glassOptions.impactPoint ?? bounds.getCenter(new Vector3()),
+    radialCrackCount,
+    ringCount,
+    glassOptions.ringSpacing ?? DEFAULT_RING_SPACING,
+    axis,
+    glassOptions.irregularity ?? DEFAULT_IRREGULARITY,
+    rng,
+  );
+
+  return new VoronoiFractureOptions({
+    fragmentCount: seedPoints.length,
+    mode: "2.5D",
+    seedPoints,
+    projectionAxis: axis,
+    textureScale: options.textureScale,
+    textureOffset: options.textureOffset,
+    seed: rng.getSeed(),
+    attributeFill: options.attributeFill,
+    cutFaceNoise: options.cutFaceNoise,
+    cutFaceUVMode: options.cutFaceUVMode,
+    generateTangents: options.generateTangents,
+    generateSourcePositions: options.generateSourcePositions,
+  });
+}
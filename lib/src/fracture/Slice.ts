@@ -6,6 +6,11 @@ import {
   fragmentToGeometry,
 } from "../utils/GeometryConversion";
 import { findIsolatedGeometry } from "./FractureFragment";
+import { AttributeFillPolicy } from "../entities/VertexAttributeChannel";
+import { Fragment } from "../entities/Fragment";
+import { CutFaceNoiseOptions } from "../entities/CutFaceNoiseOptions";
+import { CutFaceUVMode } from "../entities/CutFaceUVMode";
+import { addNewCutFaceSubmesh, displaceCutFaces } from "./CutFaceNoise";
 
 /**
  * Slices the mesh by the plane specified by `sliceNormal` and `sliceOrigin`
@@ -14,6 +19,12 @@ import { findIsolatedGeometry } from "./FractureFragment";
  * @param sliceOrigin The origin of the slice plane
  * @param textureScale Scale factor to apply to UV coordinates
  * @param textureOffset Offset to apply to UV coordinates
+ * @param attributeFill How additional vertex attributes are filled in on the cut faces
+ * @param cutFaceNoise Optional noise to roughen the cut faces with
+ * @param uvMode How texture coordinates are generated on the cut faces
+ * @param generateTangents If true, the pieces get a `tangent` attribute
+ * @param generateSourcePositions If true, the pieces get a `sourcePosition`
+ * attribute
  * @returns An object containing the geometries above and below the slice plane
  */
 export function slice(
@@ -22,9 +33,22 @@ export function slice(
   sliceOrigin: Vector3,
   textureScale: Vector2,
   textureOffset: Vector2,
+  attributeFill: Record<string, AttributeFillPolicy> = {},
+  cutFaceNoise?: CutFaceNoiseOptions,
+  uvMode: CutFaceUVMode = "triangulation",
+  generateTangents: boolean = false,
+  generateSourcePositions: boolean = false,
 ): THREE.BufferGeometry[] {
   // Convert THREE.BufferGeometry to our internal Fragment representation
-  const fragment = geometryToFragment(geometry);
+  const fragment = geometryToFragment(
+    geometry,
+    attributeFill,
+    generateTangents,
+    generateSourcePositions,
+  );
+  if (cutFaceNoise) {
+    addNewCutFaceSubmesh(fragment);
+  }
 
   // Perform the slice operation using our existing code
   const { topSlice, bottomSlice } = sliceFragment(
@@ -33,6 +57,8 @@ export function slice(
     sliceOrigin,
     textureScale,
     textureOffset,
+    false,
+    uvMode,
   );
 
   // Find isolated fragments in both slices
@@ -41,6 +67,148 @@ export function slice(
 
   // Combine all fragments (filtering is done by findIsolatedGeometry)
   const fragments = [...topFragments, ...bottomFragments];
+  if (cutFaceNoise) {
+    fragments.forEach((fragment) => displaceCutFaces(fragment, cutFaceNoise));
+  }
 
   return fragments.map((fragment) => fragmentToGeometry(fragment));
 }
+
+/**
+ * A piece of geometry produced by `sliceMany()`
+ */
+export interface SlicedPiece {
+  /**
+   * The geometry of the piece
+   */
+  geometry: THREE.BufferGeometry;
+
+  /**
+   * The planes that cut the piece, oriented so the piece is on the positive
+   * side of each plane
+   */
+  planes: THREE.Plane[];
+}
+
+/**
+ * Slices the mesh by several planes. The pieces are kept in the internal
+ * Fragment representation between planes, and pieces that a plane doesn't
+ * reach are not sliced by it.
+ * @param geometry The geometry to slice
+ * @param planes The slice planes
+ * @param textureScale Scale factor to apply to UV coordinates
+ * @param textureOffset Offset to apply to UV coordinates
+ * @param attributeFill How additional vertex attributes are filled in on the cut faces
+ * @param cutFaceNoise Optional noise to roughen the cut faces with
+ * @param uvMode How texture coordinates are generated on the cut faces
+ * @param generateTangents If true, the pieces get a `tangent` attribute
+ * @param generateSourcePositions If true, the pieces get a `sourcePosition`
+ * attribute
+ * @returns The pieces, with the planes that bound each one
+ */
+export function sliceMany(
+  geometry: THREE.BufferGeometry,
+  planes: THREE.Plane[],
+  textureScale: Vector2,
+  textureOffset: Vector2,
+  attributeFill: Record<string, AttributeFillPolicy> = {},
+  cutFaceNoise?: CutFaceNoiseOptions,
+  uvMode: CutFaceUVMode = "triangulation",
+  generateTangents: boolean = false,
+  generateSourcePositions: boolean = false,
+): SlicedPiece[] {
+  const source = geometryToFragment(
+    geometry,
+    attributeFill,
+    generateTangents,
+    generateSourcePositions,
+  );
+  if (cutFaceNoise) {
+    addNewCutFaceSubmesh(source);
+  }
+
+  let pieces: { fragment: Fragment; planes: THREE.Plane[] }[] = [
+    { fragment: source, planes: [] },
+  ];
+
+  for (const sourcePlane of planes) {
+    const plane = sourcePlane.clone().normalize();
+    const origin = plane.coplanarPoint(new Vector3());
+
+    const next: typeof pieces = [];
+    for (const piece of pieces) {
+      if (!plane.intersectsBox(piece.fragment.bounds)) {
+        next.push(piece);
+        continue;
+      }
+
+      const { topSlice, bottomSlice } = sliceFragment(
+        piece.fragment,
+        plane.normal,
+        origin,
+        textureScale,
+        textureOffset,
+        false,
+        uvMode,
+      );
+
+      // The top slice is on the side the plane normal points towards
+      const sides: [Fragment, THREE.Plane][] = [
+        [topSlice, plane],
+        [bottomSlice, plane.clone().negate()],
+      ];
+      for (const [fragment, side] of sides) {
+        if (fragment.triangleCount === 0) continue;
+        fragment.calculateBounds();
+        next.push({ fragment, planes: [...piece.planes, side] });
+      }
+    }
+    pieces = next;
+  }
+
+  return pieces.flatMap((piece) =>
+    findIsolatedGeometry(piece.fragment).map((fragment) => {
+      if (cutFaceNoise) {
+        displaceCutFaces(fragment, cutFaceNoise);
+      }
+      return {
+        geometry: fragmentToGeometry(fragment),
+        planes: piece.planes.map((plane) => plane.clone()),
+      };
+    }),
+  );
+}
+
+/**
+ * Creates the planes that divide a box into a uniform grid of cells
+ * @param box The box to divide
+ * @param divisions Number of cells along each axis
+ * @returns The planes between the cells
+ */
+export function createGridPlanes(
+  box: THREE.Box3,
+  divisions: THREE.Vector3Like,
+): THREE.Plane[] {
+  const planes: THREE.Plane[] = [];
+  const axes = [
+    new Vector3(1, 0, 0),
+    new Vector3(0, 1, 0),
+    new Vector3(0, 0, 1),
+  ];
+  const counts = [divisions.x, divisions.y, divisions.z];
+
+  axes.forEach((axis, i) => {
+    const count = counts[i];
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error("Grid divisions must be positive integers");
+    }
+
+    const min = box.min.getComponent(i);
+    const size = box.max.getComponent(i) - min;
+    for (let j = 1; j < count; j++) {
+      planes.push(new THREE.Plane(axis.clone(), -(min + (size * j) / count)));
+    }
+  });
+
+  return planes;
+}
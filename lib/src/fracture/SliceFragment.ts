@@ -1,10 +1,20 @@
-import { Vector2, Vector3 } from "three";
-import { Fragment, SlicedMeshSubmesh } from "../entities/Fragment";
+import { Vector2, Vector3, Vector4 } from "three";
+import { Fragment } from "../entities/Fragment";
 import { isPointAbovePlane, linePlaneIntersection } from "../utils/MathUtils";
 import { MeshVertex } from "../entities/MeshVertex";
 import { EdgeConstraint } from "../entities/EdgeConstraint";
+import {
+  fillCutFaceAttributes,
+  interpolateAttributes,
+} from "../entities/VertexAttributeChannel";
 import { Triangulator } from "../triangulators/Triangulator";
 import { ConstrainedTriangulator } from "../triangulators/ConstrainedTriangulator";
+import { CutFaceUVMode } from "../entities/CutFaceUVMode";
+import {
+  computeCutFaceTangent,
+  getCutFaceUVAxes,
+  projectCutFaceUV,
+} from "./CutFaceUV";
 
 /**
  * Takes in raw geometry data and fractures it into multiple fragments
@@ -53,6 +63,7 @@ export function sliceRawData(
  * @param convex Set to true if `fragment` is convex geometry. Setting this to
  * true will use a faster triangulation algorithm. Setting this to false will
  * allow non-convex geometry triangulated correctly at the expense of performance
+ * @param uvMode How texture coordinates are generated on the cut face
  * @returns An object containing the fragments above and below the slice plane
  */
 export function sliceFragment(
@@ -62,9 +73,18 @@ export function sliceFragment(
   textureScale: Vector2,
   textureOffset: Vector2,
   convex: boolean = false,
+  uvMode: CutFaceUVMode = "triangulation",
 ): { topSlice: Fragment; bottomSlice: Fragment } {
   const topSlice = new Fragment();
   const bottomSlice = new Fragment();
+  topSlice.attributes = fragment.attributes;
+  bottomSlice.attributes = fragment.attributes;
+  topSlice.sourceOrigin = fragment.sourceOrigin;
+  bottomSlice.sourceOrigin = fragment.sourceOrigin;
+
+  // Both slices have the same submeshes as the source fragment
+  topSlice.triangles = fragment.triangles.map(() => []);
+  bottomSlice.triangles = fragment.triangles.map(() => []);
 
   // Keep track of what side of the cutting plane each vertex is on
   const side: Array<boolean> = new Array<boolean>(fragment.vertexCount).fill(
@@ -91,24 +111,17 @@ export function sliceFragment(
     cutSlice.addMappedVertex(cutVertex, i + offset);
   }
 
-  splitTriangles(
-    fragment,
-    topSlice,
-    bottomSlice,
-    sliceNormal,
-    sliceOrigin,
-    side,
-    SlicedMeshSubmesh.Default,
-  );
-  splitTriangles(
-    fragment,
-    topSlice,
-    bottomSlice,
-    sliceNormal,
-    sliceOrigin,
-    side,
-    SlicedMeshSubmesh.CutFace,
-  );
+  for (let subMesh = 0; subMesh < fragment.triangles.length; subMesh++) {
+    splitTriangles(
+      fragment,
+      topSlice,
+      bottomSlice,
+      sliceNormal,
+      sliceOrigin,
+      side,
+      subMesh,
+    );
+  }
 
   // Fill in the cut plane for each mesh.
   // The slice normal points to the "above" mesh, so the face normal for the cut face
@@ -121,6 +134,7 @@ export function sliceFragment(
     textureScale,
     textureOffset,
     convex,
+    uvMode,
   );
 
   return { topSlice, bottomSlice };
@@ -135,6 +149,7 @@ export function sliceFragment(
  * @param textureScale Scale factor to apply to UV coordinates
  * @param textureOffset Offset to apply to UV coordinates
  * @param convex Set to true if fragments are convex
+ * @param uvMode How texture coordinates are generated on the cut face
  * @returns
  */
 function fillCutFaces(
@@ -144,6 +159,7 @@ function fillCutFaces(
   textureScale: Vector2,
   textureOffset: Vector2,
   convex: boolean,
+  uvMode: CutFaceUVMode,
 ): void {
   // Since the topSlice and bottomSlice both share the same cut face, we only need to calculate it
   // once. Then the same vertex/triangle data for the face will be used for both slices, except
@@ -168,31 +184,73 @@ function fillCutFaces(
   const triangles: number[] = triangulator.triangulate();
 
   // Update normal and UV for the cut face vertices
+  const bottomNormal = sliceNormal.clone().negate();
+
+  // The cut face is flat, so each side has a single tangent
+  const getTangent = (normal: Vector3): Vector4 => {
+    const { u, v } =
+      uvMode === "triangulation"
+        ? { u: triangulator.tangent, v: triangulator.bitangent }
+        : getCutFaceUVAxes(normal, uvMode);
+    return computeCutFaceTangent(normal, u, v, textureScale);
+  };
+  const topTangent = getTangent(sliceNormal);
+  const bottomTangent = getTangent(bottomNormal);
+  const sourcePosition = new Vector3();
   for (let i = 0; i < topSlice.cutVertices.length; i++) {
     var vertex = topSlice.cutVertices[i];
     var point = triangulator.points[i];
 
-    // UV coordinates are based off of the 2D coordinates used for triangulation
-    // During triangulation, coordinates are normalized to [0,1], so need to multiply
-    // by normalization scale factor to get back to the appropritate scale
-    const uv = new Vector2(
-      triangulator.normalizationScaleFactor * point.coords.x * textureScale.x +
-        textureOffset.x,
-      triangulator.normalizationScaleFactor * point.coords.y * textureScale.y +
-        textureOffset.y,
-    );
+    let topUV: Vector2;
+    let bottomUV: Vector2;
+    if (uvMode === "triangulation") {
+      // UV coordinates are based off of the 2D coordinates used for triangulation
+      // During triangulation, coordinates are normalized to [0,1], so need to multiply
+      // by normalization scale factor to get back to the appropritate scale
+      topUV = new Vector2(
+        triangulator.normalizationScaleFactor * point.coords.x,
+        triangulator.normalizationScaleFactor * point.coords.y,
+      );
+      bottomUV = topUV.clone();
+    } else {
+      // Project the position in the original mesh, so textures line up
+      // across fragments
+      sourcePosition.addVectors(vertex.position, topSlice.sourceOrigin);
+      topUV = projectCutFaceUV(sourcePosition, sliceNormal, uvMode);
+      bottomUV = projectCutFaceUV(sourcePosition, bottomNormal, uvMode);
+    }
+    topUV.multiply(textureScale).add(textureOffset);
+    bottomUV.multiply(textureScale).add(textureOffset);
 
-    // Update normals and UV coordinates for the cut vertices
+    // Update normals, UV coordinates and attributes for the cut vertices
     const topVertex = new MeshVertex(
       vertex.position.clone(),
       sliceNormal.clone(),
-      uv.clone(),
+      topUV.clone(),
+      fillCutFaceAttributes(
+        topSlice.attributes,
+        vertex.position,
+        sliceNormal,
+        topUV,
+        vertex.attributes,
+        topTangent,
+        topSlice.sourceOrigin,
+      ),
     );
 
     const bottomVertex = new MeshVertex(
       vertex.position.clone(),
-      sliceNormal.clone().negate(),
-      uv.clone(),
+      bottomNormal.clone(),
+      bottomUV.clone(),
+      fillCutFaceAttributes(
+        bottomSlice.attributes,
+        vertex.position,
+        bottomNormal,
+        bottomUV,
+        vertex.attributes,
+        bottomTangent,
+        bottomSlice.sourceOrigin,
+      ),
     );
 
     topSlice.cutVertices[i] = topVertex;
@@ -207,14 +265,14 @@ function fillCutFaces(
       offsetTop + triangles[i],
       offsetTop + triangles[i + 1],
       offsetTop + triangles[i + 2],
-      SlicedMeshSubmesh.CutFace,
+      topSlice.cutFaceSubmesh,
     );
 
     bottomSlice.addTriangle(
       offsetBottom + triangles[i],
       offsetBottom + triangles[i + 2],
       offsetBottom + triangles[i + 1],
-      SlicedMeshSubmesh.CutFace,
+      bottomSlice.cutFaceSubmesh,
     );
   }
 }
@@ -236,7 +294,7 @@ function splitTriangles(
   sliceNormal: Vector3,
   sliceOrigin: Vector3,
   side: boolean[],
-  subMesh: SlicedMeshSubmesh,
+  subMesh: number,
 ): void {
   const triangles: number[] = fragment.triangles[subMesh];
 
@@ -368,7 +426,7 @@ function splitTriangle(
   fragment: Fragment,
   topSlice: Fragment,
   bottomSlice: Fragment,
-  subMesh: SlicedMeshSubmesh,
+  subMesh: number,
   v3BelowCutPlane: boolean,
 ): void {
   // - `v1`, `v2`, `v3` are the indexes of the triangle relative to the original mesh data
@@ -452,11 +510,24 @@ function splitTriangle(
       v2.uv.y + v23.s * (v3.uv.y - v2.uv.y),
     );
 
+    const attributes13 = interpolateAttributes(
+      fragment.attributes,
+      v1.attributes,
+      v3.attributes,
+      v13.s,
+    );
+    const attributes23 = interpolateAttributes(
+      fragment.attributes,
+      v2.attributes,
+      v3.attributes,
+      v23.s,
+    );
+
     // push vertices/normals/uv for the intersection points to each mesh
-    topSlice.addCutFaceVertex(v13.x, norm13, uv13);
-    topSlice.addCutFaceVertex(v23.x, norm23, uv23);
-    bottomSlice.addCutFaceVertex(v13.x, norm13, uv13);
-    bottomSlice.addCutFaceVertex(v23.x, norm23, uv23);
+    topSlice.addCutFaceVertex(v13.x, norm13, uv13, attributes13);
+    topSlice.addCutFaceVertex(v23.x, norm23, uv23, attributes23);
+    bottomSlice.addCutFaceVertex(v13.x, norm13, uv13, attributes13);
+    bottomSlice.addCutFaceVertex(v23.x, norm23, uv23, attributes23);
 
     // Indices for the intersection vertices (for the original mesh data)
     const index13_A: number = topSlice.vertices.length - 2;
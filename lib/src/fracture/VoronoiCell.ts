@@ -1,5 +1,6 @@
-import { Vector2, Vector3 } from "three";
+import { Matrix3, Vector2, Vector3 } from "three";
 import { Fragment } from "../entities/Fragment";
+import { CutFaceUVMode } from "../entities/CutFaceUVMode";
 import { sliceFragment } from "./SliceFragment";
 
 /**
@@ -17,13 +18,19 @@ export interface BisectingPlane {
  * The plane is perpendicular to the line connecting the seeds and passes through their midpoint.
  * The normal points from seed1 towards seed2.
  *
+ * With a metric M, the points equally far from both seeds still form a plane
+ * through the midpoint, but with the normal M * (seed2 - seed1), so the cells
+ * remain convex.
+ *
  * @param seed1 The first seed point
  * @param seed2 The second seed point
+ * @param metric Optional metric used to measure distances to the seeds
  * @returns The bisecting plane
  */
 export function computeBisectingPlane(
   seed1: Vector3,
   seed2: Vector3,
+  metric?: Matrix3,
 ): BisectingPlane {
   // Midpoint between the two seeds
   const origin = new Vector3(
@@ -37,11 +44,94 @@ export function computeBisectingPlane(
     seed2.x - seed1.x,
     seed2.y - seed1.y,
     seed2.z - seed1.z,
-  ).normalize();
+  );
+  if (metric) {
+    normal.applyMatrix3(metric);
+  }
+  normal.normalize();
 
   return { origin, normal };
 }
 
+/**
+ * Creates the metric of a material with a grain. Distances along the grain
+ * count `1 / stretch` times as much as distances across it, so Voronoi cells
+ * are `stretch` times longer along the grain.
+ *
+ * @param direction Direction of the grain
+ * @param stretch How many times longer cells are along the grain
+ * @returns The metric, I + (1 / stretch² - 1) * d * dᵀ
+ */
+export function createGrainMetric(
+  direction: Vector3,
+  stretch: number,
+): Matrix3 {
+  const d = direction.clone().normalize();
+  const k = 1 / (stretch * stretch) - 1;
+  return new Matrix3().set(
+    1 + k * d.x * d.x,
+    k * d.x * d.y,
+    k * d.x * d.z,
+    k * d.y * d.x,
+    1 + k * d.y * d.y,
+    k * d.y * d.z,
+    k * d.z * d.x,
+    k * d.z * d.y,
+    1 + k * d.z * d.z,
+  );
+}
+
+/**
+ * Computes a transform A with Aᵀ * A = metric, using a Cholesky
+ * decomposition. Euclidean distances between transformed points equal the
+ * distances between the original points in the metric, so Voronoi neighbors
+ * can be found among the transformed points.
+ *
+ * @param metric A symmetric positive definite matrix
+ * @returns The transform
+ */
+export function getMetricTransform(metric: Matrix3): Matrix3 {
+  // Matrix3 elements are stored in column-major order
+  const m = (row: number, column: number) => metric.elements[column * 3 + row];
+
+  // metric = L * Lᵀ with L lower triangular
+  const l = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m(i, j);
+      for (let k = 0; k < j; k++) {
+        sum -= l[i][k] * l[j][k];
+      }
+
+      if (i === j) {
+        if (!(sum > 0)) {
+          throw new Error("metric must be symmetric positive definite");
+        }
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+
+  // A = Lᵀ
+  return new Matrix3().set(
+    l[0][0],
+    l[1][0],
+    l[2][0],
+    0,
+    l[1][1],
+    l[2][1],
+    0,
+    0,
+    l[2][2],
+  );
+}
+
 /**
  * Computes a single Voronoi cell by applying sequential half-space intersections.
  * Starts with the input fragment and carves it down by slicing with bisecting planes.
@@ -53,6 +143,8 @@ export function computeBisectingPlane(
  * @param textureScale Texture scale for cut faces
  * @param textureOffset Texture offset for cut faces
  * @param convex Whether to use convex triangulation mode
+ * @param uvMode How texture coordinates are generated on the cut faces
+ * @param metric Optional metric used to measure distances to the seeds
  * @returns The computed Voronoi cell fragment, or null if the cell is empty
  */
 export function computeVoronoiCell(
@@ -63,6 +155,8 @@ export function computeVoronoiCell(
   textureScale: Vector2,
   textureOffset: Vector2,
   convex: boolean,
+  uvMode: CutFaceUVMode = "triangulation",
+  metric?: Matrix3,
 ): Fragment | null {
   let cell = fragment;
   const thisSeed = seeds[seedIndex];
@@ -75,7 +169,7 @@ export function computeVoronoiCell(
     const neighborSeed = seeds[neighborIndex];
 
     // Compute the bisecting plane between this seed and the neighbor
-    const plane = computeBisectingPlane(thisSeed, neighborSeed);
+    const plane = computeBisectingPlane(thisSeed, neighborSeed, metric);
 
     // Slice the current cell with this plane
     // We want to keep the side closer to thisSeed (the "bottom" side since normal points away)
@@ -86,6 +180,7 @@ export function computeVoronoiCell(
       textureScale,
       textureOffset,
       convex,
+      uvMode,
     );
 
     // Keep the half-space closer to our seed (opposite direction of normal)
@@ -1,15 +1,36 @@
 import * as THREE from "three";
-import { Vector3 } from "three";
+import { Matrix3, Matrix4, Vector3 } from "three";
 import { VoronoiFractureOptions } from "../entities/VoronoiFractureOptions";
 import { SeedPointGenerator } from "../utils/SeedPointGenerator";
-import { computeVoronoiCell, findKNearestNeighbors } from "./VoronoiCell";
+import {
+  computeVoronoiCell,
+  createGrainMetric,
+  findKNearestNeighbors,
+  getMetricTransform,
+} from "./VoronoiCell";
 import {
   geometryToFragment,
   fragmentToGeometry,
 } from "../utils/GeometryConversion";
 import { Fragment } from "../entities/Fragment";
 import { findIsolatedGeometry } from "./FractureFragment";
+import { addNewCutFaceSubmesh, displaceCutFaces } from "./CutFaceNoise";
 import { SeededRandom } from "../utils/SeededRandom";
+import { SurfaceSampler } from "../utils/SurfaceSampler";
+import { WindingNumber } from "../utils/WindingNumber";
+import { findDelaunayNeighbors } from "../triangulators/DelaunayTetrahedralizer";
+
+/**
+ * Number of points sampled per seed to approximate the Voronoi cells during
+ * Lloyd relaxation
+ */
+const LLOYD_SAMPLES_PER_SEED = 64;
+
+/**
+ * Returns the indices of the seeds to clip a cell against, or null to clip
+ * against all other seeds
+ */
+export type NeighborFinder = (seedIndex: number) => number[] | null;
 
 /**
  * Fractures a mesh using Voronoi tessellation.
@@ -33,7 +54,12 @@ export function voronoiFracture(
   }
 
   // Convert input geometry to internal fragment representation
-  const sourceFragment = geometryToFragment(geometry);
+  const sourceFragment = geometryToFragment(
+    geometry,
+    options.attributeFill,
+    options.generateTangents,
+    options.generateSourcePositions,
+  );
 
   // Generate Voronoi cells based on mode
   let fragments: Fragment[];
@@ -61,68 +87,253 @@ function voronoiFracture3D(
   rng: SeededRandom,
 ): Fragment[] {
   // Step 1: Generate or use provided seed points
-  const seeds = generateSeeds(sourceFragment, options, rng);
+  const seeds = generateVoronoiSeeds(sourceFragment, options, rng);
+
+  // Warn user if approximation is enabled
+  warnIfApproximate(options, seeds.length);
 
   // Step 2: Compute Voronoi cells for each seed
-  const fragments: Fragment[] = [];
-  // Hardcoded to non-convex mode
-  const convex = false;
+  return computeVoronoiCells(sourceFragment, seeds, options).flat();
+}
 
-  // Use approximation based on user option (not automatic threshold)
-  const useKNearest = options.useApproximation;
-  const k = Math.min(options.approximationNeighborCount, seeds.length - 1);
+/**
+ * Performs 2.5D Voronoi fracturing by projecting a 2D pattern through the mesh
+ *
+ * @param sourceFragment The source fragment to fracture
+ * @param options Voronoi fracture options
+ * @returns Array of fragments
+ */
+function voronoiFracture2D(
+  sourceFragment: Fragment,
+  options: VoronoiFractureOptions,
+  rng: SeededRandom,
+): Fragment[] {
+  const seeds = generateVoronoiSeeds(sourceFragment, options, rng);
 
   // Warn user if approximation is enabled
-  if (useKNearest) {
-    console.warn(
-      `⚠️ Voronoi approximation enabled (k=${k} neighbors). This may cause fragment overlaps.`,
-      `\nFor accurate results with no overlaps, set useApproximation: false in VoronoiFractureOptions.`,
-    );
+  warnIfApproximate(options, seeds.length);
+
+  // For 2.5D, we still use the 3D algorithm but with seeds on a plane
+  // The cells will naturally extend through the mesh along the projection axis
+  return computeVoronoiCells(sourceFragment, seeds, options).flat();
+}
+
+/**
+ * Generates the seed points for the Voronoi cells based on the fracture mode,
+ * and relaxes them if requested
+ *
+ * @param fragment The fragment to generate seeds for
+ * @param options Voronoi fracture options
+ * @param rng Seeded random number generator
+ * @returns Array of seed points
+ */
+export function generateVoronoiSeeds(
+  fragment: Fragment,
+  options: VoronoiFractureOptions,
+  rng: SeededRandom,
+): Vector3[] {
+  const generate = options.mode === "3D" ? generateSeeds : generateSeeds2D;
+  const seeds = generate(fragment, options, rng);
+
+  // Custom seed points are used as they are
+  if (options.relaxationIterations <= 0 || options.seedPoints) {
+    return seeds;
   }
 
-  for (let i = 0; i < seeds.length; i++) {
+  // Relax against samples drawn like the seeds, so that the seeds keep their
+  // density near the impact point and their placement in the mesh
+  const samples = generate(
+    fragment,
+    new VoronoiFractureOptions({
+      ...options,
+      fragmentCount: seeds.length * LLOYD_SAMPLES_PER_SEED,
+      seedDistribution: "uniform",
+    }),
+    rng,
+  );
+
+  // Relax in the space where the metric is Euclidean, so the seeds move to
+  // the centers of their stretched cells
+  const metric = getVoronoiMetric(options);
+  const transform = metric ? getMetricTransform(metric) : new Matrix3();
+  const toMetricSpace = (point: Vector3) =>
+    point.clone().applyMatrix3(transform);
+
+  // Cell centers can be outside of a non-convex region
+  const inverse = transform.clone().invert();
+  return SeedPointGenerator.relax(
+    seeds.map(toMetricSpace),
+    samples.map(toMetricSpace),
+    options.relaxationIterations,
+    options.seedPlacement !== "bounds",
+  ).map((seed) => seed.applyMatrix3(inverse));
+}
+
+/**
+ * Returns the metric used to measure distances to the seeds, or undefined
+ * for Euclidean distances
+ *
+ * @param options Voronoi fracture options
+ * @returns The metric
+ */
+function getVoronoiMetric(
+  options: VoronoiFractureOptions,
+): Matrix3 | undefined {
+  if (options.metric) return options.metric;
+  if (options.grainDirection) {
+    return createGrainMetric(options.grainDirection, options.grainStretch);
+  }
+  return undefined;
+}
+
+/**
+ * Computes the Voronoi cells for the given seeds. Each cell is computed
+ * independently from a clone of `sourceFragment`, so any subset of cells can
+ * be computed separately (e.g. in different workers) and merged afterwards.
+ *
+ * @param sourceFragment The source fragment to fracture
+ * @param seeds All seed points
+ * @param options Voronoi fracture options
+ * @param cellIndices Indices of the seeds to compute cells for (defaults to all seeds)
+ * @returns For each entry in `cellIndices`, the fragments making up that cell
+ */
+export function computeVoronoiCells(
+  sourceFragment: Fragment,
+  seeds: Vector3[],
+  options: VoronoiFractureOptions,
+  cellIndices?: ArrayLike<number>,
+  findNeighbors: NeighborFinder = createNeighborFinder(
+    sourceFragment,
+    seeds,
+    options,
+  ),
+): Fragment[][] {
+  const indices = cellIndices ?? seeds.map((_, i) => i);
+  const cells: Fragment[][] = [];
+  const metric = getVoronoiMetric(options);
+  // Hardcoded to non-convex mode
+  const convex = false;
+
+  for (let j = 0; j < indices.length; j++) {
+    const i = indices[j];
+
     // Clone the source fragment for each cell
     const cellFragment = cloneFragment(sourceFragment);
-
-    // Find neighbors for this seed
-    const neighborIndices = useKNearest
-      ? findKNearestNeighbors(i, seeds, k)
-      : null; // null means use all other seeds
+    if (options.cutFaceNoise) {
+      addNewCutFaceSubmesh(cellFragment);
+    }
 
     // Compute the Voronoi cell by sequential half-space intersections
     const cell = computeVoronoiCell(
       cellFragment,
       i,
       seeds,
-      neighborIndices,
+      findNeighbors(i),
       options.textureScale,
       options.textureOffset,
       convex,
+      options.cutFaceUVMode,
+      metric,
     );
 
     // Only add non-empty cells
     if (cell && cell.vertexCount > 0) {
       // Detect isolated fragments within this cell (always enabled for non-convex mode)
-      const isolatedFragments = findIsolatedGeometry(cell);
-      fragments.push(...isolatedFragments);
+      const fragments = findIsolatedGeometry(cell);
+      const { cutFaceNoise } = options;
+      if (cutFaceNoise) {
+        fragments.forEach((fragment) =>
+          displaceCutFaces(fragment, cutFaceNoise),
+        );
+      }
+      cells.push(fragments);
+    } else {
+      cells.push([]);
     }
   }
 
-  return fragments;
+  return cells;
 }
 
 /**
- * Performs 2.5D Voronoi fracturing by projecting a 2D pattern through the mesh
+ * Creates the function that selects which seeds each cell is clipped against
  *
- * @param sourceFragment The source fragment to fracture
+ * @param sourceFragment The source fragment being fractured
+ * @param seeds All seed points
  * @param options Voronoi fracture options
- * @returns Array of fragments
+ * @returns The neighbor finder for the selected neighbor mode
  */
-function voronoiFracture2D(
+export function createNeighborFinder(
+  sourceFragment: Fragment,
+  seeds: Vector3[],
+  options: VoronoiFractureOptions,
+): NeighborFinder {
+  // With a metric, the neighbors are those of the seeds transformed to the
+  // space where the metric is Euclidean
+  const metric = getVoronoiMetric(options);
+  const transform = metric ? getMetricTransform(metric) : undefined;
+  const neighborSeeds = transform
+    ? seeds.map((seed) => seed.clone().applyMatrix3(transform))
+    : seeds;
+
+  if (options.useDelaunayNeighbors) {
+    // Computed on first use so incremental fractures don't pay for it up front
+    let neighbors: number[][] | null = null;
+    return (seedIndex) => {
+      if (!neighbors) {
+        const region = sourceFragment.bounds.clone();
+        if (transform) {
+          region.applyMatrix4(new Matrix4().setFromMatrix3(transform));
+        }
+        neighbors = findDelaunayNeighbors(neighborSeeds, region);
+      }
+      return neighbors[seedIndex];
+    };
+  }
+
+  // Use approximation based on user option (not automatic threshold)
+  if (options.useApproximation) {
+    const k = Math.min(options.approximationNeighborCount, seeds.length - 1);
+    return (seedIndex) => findKNearestNeighbors(seedIndex, neighborSeeds, k);
+  }
+
+  // null means use all other seeds
+  return () => null;
+}
+
+/**
+ * Logs a warning if the K-nearest neighbor approximation is enabled
+ *
+ * @param options Voronoi fracture options
+ * @param seedCount Number of seed points
+ */
+export function warnIfApproximate(
+  options: VoronoiFractureOptions,
+  seedCount: number,
+): void {
+  // Delaunay neighbors are exact, so there is nothing to warn about
+  if (!options.useApproximation || options.useDelaunayNeighbors) return;
+
+  const k = Math.min(options.approximationNeighborCount, seedCount - 1);
+  const label = options.mode === "2.5D" ? "Voronoi 2.5D" : "Voronoi";
+  console.warn(
+    `⚠️ ${label} approximation enabled (k=${k} neighbors). This may cause fragment overlaps.`,
+    `\nFor accurate results with no overlaps, set useApproximation: false in VoronoiFractureOptions.`,
+  );
+}
+
+/**
+ * Generates seed points on a plane for 2.5D fracturing
+ *
+ * @param sourceFragment The fragment to generate seeds for
+ * @param options Voronoi fracture options
+ * @returns Array of seed points
+ */
+function generateSeeds2D(
   sourceFragment: Fragment,
   options: VoronoiFractureOptions,
   rng: SeededRandom,
-): Fragment[] {
+): Vector3[] {
   // Calculate bounds
   sourceFragment.calculateBounds();
 
@@ -156,10 +367,26 @@ function voronoiFracture2D(
   }
 
   // Generate seed points (use impact-based if impact point provided, otherwise 2D uniform)
-  let seeds: Vector3[];
   if (options.seedPoints) {
-    seeds = options.seedPoints;
-  } else if (options.impactPoint) {
+    return options.seedPoints;
+  }
+
+  // Surface seeds are placed in 3D and then projected onto the plane
+  if (options.seedPlacement === "surface") {
+    const center = sourceFragment.bounds.getCenter(new Vector3());
+    const seeds = generateSurfaceSeeds(sourceFragment, options, rng);
+    for (const seed of seeds) {
+      seed[axis] = center[axis];
+    }
+    return seeds;
+  }
+
+  const contains =
+    options.seedPlacement === "interior"
+      ? createColumnTest(sourceFragment, axis)
+      : undefined;
+
+  if (options.impactPoint) {
     // Use 2D impact-based generation to keep seeds on a plane
     const radius =
       options.impactRadius ||
@@ -169,67 +396,46 @@ function voronoiFracture2D(
         sourceFragment.bounds.max.z - sourceFragment.bounds.min.z,
       ) * 0.3;
 
-    seeds = SeedPointGenerator.generate2DImpactBased(
+    if (options.seedDistribution === "poisson") {
+      return SeedPointGenerator.generate2DImpactBasedPoissonDisk(
+        sourceFragment.bounds,
+        options.fragmentCount,
+        options.impactPoint,
+        radius,
+        axis as "x" | "y" | "z",
+        options.minSeedDistance,
+        rng,
+        contains,
+      );
+    }
+
+    return SeedPointGenerator.generate2DImpactBased(
       sourceFragment.bounds,
       options.fragmentCount,
       options.impactPoint,
       radius,
       axis as "x" | "y" | "z",
       rng,
+      contains,
     );
-  } else {
-    seeds = SeedPointGenerator.generate2D(
+  } else if (options.seedDistribution === "poisson") {
+    return SeedPointGenerator.generate2DPoissonDisk(
       sourceFragment.bounds,
       options.fragmentCount,
       axis as "x" | "y" | "z",
+      options.minSeedDistance,
       rng,
+      contains,
     );
-  }
-
-  // For 2.5D, we still use the 3D algorithm but with seeds on a plane
-  // The cells will naturally extend through the mesh along the projection axis
-  const fragments: Fragment[] = [];
-  // Hardcoded to non-convex mode
-  const convex = false;
-
-  // Use approximation based on user option (for 2.5D, defaults can be slightly lower)
-  const useKNearest = options.useApproximation;
-  const k = Math.min(options.approximationNeighborCount, seeds.length - 1);
-
-  // Warn user if approximation is enabled
-  if (useKNearest) {
-    console.warn(
-      `⚠️ Voronoi 2.5D approximation enabled (k=${k} neighbors). This may cause fragment overlaps.`,
-      `\nFor accurate results with no overlaps, set useApproximation: false in VoronoiFractureOptions.`,
-    );
-  }
-
-  for (let i = 0; i < seeds.length; i++) {
-    const cellFragment = cloneFragment(sourceFragment);
-
-    // Find neighbors for this seed
-    const neighborIndices = useKNearest
-      ? findKNearestNeighbors(i, seeds, k)
-      : null;
-
-    const cell = computeVoronoiCell(
-      cellFragment,
-      i,
-      seeds,
-      neighborIndices,
-      options.textureScale,
-      options.textureOffset,
-      convex,
+  } else {
+    return SeedPointGenerator.generate2D(
+      sourceFragment.bounds,
+      options.fragmentCount,
+      axis as "x" | "y" | "z",
+      rng,
+      contains,
     );
-
-    if (cell && cell.vertexCount > 0) {
-      // Detect isolated fragments within this cell (always enabled for non-convex mode)
-      const isolatedFragments = findIsolatedGeometry(cell);
-      fragments.push(...isolatedFragments);
-    }
   }
-
-  return fragments;
 }
 
 /**
@@ -254,6 +460,16 @@ function generateSeeds(
     fragment.calculateBounds();
   }
 
+  if (options.seedPlacement === "surface") {
+    return generateSurfaceSeeds(fragment, options, rng);
+  }
+
+  let contains: ((point: Vector3) => boolean) | undefined;
+  if (options.seedPlacement === "interior") {
+    const winding = WindingNumber.fromFragment(fragment);
+    contains = (point) => winding.containsPoint(point);
+  }
+
   // Generate seeds based on impact point or uniform distribution
   if (options.impactPoint) {
     const radius =
@@ -264,22 +480,142 @@ function generateSeeds(
         fragment.bounds.max.z - fragment.bounds.min.z,
       ) * 0.3; // Default to 30% of smallest dimension
 
+    if (options.seedDistribution === "poisson") {
+      return SeedPointGenerator.generateImpactBasedPoissonDisk(
+        fragment.bounds,
+        options.fragmentCount,
+        options.impactPoint,
+        radius,
+        options.minSeedDistance,
+        rng,
+        contains,
+      );
+    }
+
     return SeedPointGenerator.generateImpactBased(
       fragment.bounds,
       options.fragmentCount,
       options.impactPoint,
       radius,
       rng,
+      contains,
+    );
+  } else if (options.seedDistribution === "poisson") {
+    return SeedPointGenerator.generatePoissonDisk(
+      fragment.bounds,
+      options.fragmentCount,
+      options.minSeedDistance,
+      rng,
+      contains,
     );
   } else {
     return SeedPointGenerator.generateUniform(
       fragment.bounds,
       options.fragmentCount,
       rng,
+      contains,
     );
   }
 }
 
+/**
+ * Generates seed points near the surface of a fragment
+ *
+ * @param fragment The fragment to generate seeds for
+ * @param options Voronoi fracture options
+ * @returns Array of seed points
+ */
+function generateSurfaceSeeds(
+  fragment: Fragment,
+  options: VoronoiFractureOptions,
+  rng: SeededRandom,
+): Vector3[] {
+  const surface = new SurfaceSampler(fragment);
+  const poisson = options.seedDistribution === "poisson";
+
+  if (options.impactPoint) {
+    const radius =
+      options.impactRadius ||
+      Math.min(
+        fragment.bounds.max.x - fragment.bounds.min.x,
+        fragment.bounds.max.y - fragment.bounds.min.y,
+        fragment.bounds.max.z - fragment.bounds.min.z,
+      ) * 0.3;
+
+    return poisson
+      ? SeedPointGenerator.generateImpactBasedPoissonDiskOnSurface(
+          surface,
+          options.fragmentCount,
+          options.impactPoint,
+          radius,
+          options.minSeedDistance,
+          rng,
+        )
+      : SeedPointGenerator.generateImpactBasedOnSurface(
+          surface,
+          options.fragmentCount,
+          options.impactPoint,
+          radius,
+          rng,
+        );
+  }
+
+  return poisson
+    ? SeedPointGenerator.generatePoissonDiskOnSurface(
+        surface,
+        options.fragmentCount,
+        options.minSeedDistance,
+        rng,
+      )
+    : SeedPointGenerator.generateOnSurface(surface, options.fragmentCount, rng);
+}
+
+/**
+ * Creates a test for whether the line through a point along `axis` passes
+ * through a fragment. The cell of a 2.5D seed is a column along the axis, so
+ * the cell is only empty if the test fails.
+ *
+ * @param fragment The fragment to generate seeds for
+ * @param axis The projection axis of the 2.5D pattern
+ * @returns The test for seed points
+ */
+function createColumnTest(
+  fragment: Fragment,
+  axis: "x" | "y" | "z",
+): (point: Vector3) => boolean {
+  const [u, v] =
+    axis === "x"
+      ? (["y", "z"] as const)
+      : axis === "y"
+        ? (["x", "z"] as const)
+        : (["x", "y"] as const);
+  const vertices = [...fragment.vertices, ...fragment.cutVertices];
+  const triangles = fragment.triangles.flat();
+
+  // The line passes through the fragment if it crosses any triangle, i.e. if
+  // the point lies within the projection of the triangle onto the plane
+  return (point) => {
+    for (let i = 0; i < triangles.length; i += 3) {
+      const a = vertices[triangles[i]].position;
+      const b = vertices[triangles[i + 1]].position;
+      const c = vertices[triangles[i + 2]].position;
+      const d1 =
+        (b[u] - a[u]) * (point[v] - a[v]) - (b[v] - a[v]) * (point[u] - a[u]);
+      const d2 =
+        (c[u] - b[u]) * (point[v] - b[v]) - (c[v] - b[v]) * (point[u] - b[u]);
+      const d3 =
+        (a[u] - c[u]) * (point[v] - c[v]) - (a[v] - c[v]) * (point[u] - c[u]);
+
+      // Inside if the point is on the same side of all edges. Triangles seen
+      // edge-on are on neither side and have no area to cross.
+      const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+      const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+      if (hasNegative !== hasPositive) return true;
+    }
+    return false;
+  };
+}
+
 /**
  * Creates a deep clone of a fragment
  * This is needed because each Voronoi cell computation modifies the fragment
@@ -289,6 +625,8 @@ function generateSeeds(
  */
 function cloneFragment(fragment: Fragment): Fragment {
   const cloned = new Fragment();
+  cloned.attributes = fragment.attributes;
+  cloned.sourceOrigin = fragment.sourceOrigin;
 
   // Clone vertices
   cloned.vertices = fragment.vertices.map((v) => v.clone());
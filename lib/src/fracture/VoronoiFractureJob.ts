@@ -0,0 +1,128 @@
+import * as THREE from "three";
+import { Vector3 } from "three";
+import { Fragment } from "../entities/Fragment";
+import { VoronoiFractureOptions } from "../entities/VoronoiFractureOptions";
+import {
+  fragmentToGeometry,
+  geometryToFragment,
+} from "../utils/GeometryConversion";
+import { SeededRandom } from "../utils/SeededRandom";
+import {
+  NeighborFinder,
+  computeVoronoiCells,
+  createNeighborFinder,
+  generateVoronoiSeeds,
+  warnIfApproximate,
+} from "./VoronoiFracture";
+
+/**
+ * A Voronoi fracture that is computed incrementally, a few cells at a time.
+ * This allows a large fracture to be spread across multiple frames.
+ *
+ * ```ts
+ * const job = new VoronoiFractureJob(geometry, options);
+ * function animate() {
+ *   const geometries = job.step(4); // Spend at most ~4ms per frame
+ *   ...
+ * }
+ * ```
+ *
+ * The seed points are generated up front, so the completed job produces the
+ * same fragments in the same order as `voronoiFracture()`.
+ */
+export class VoronoiFractureJob {
+  private sourceFragment: Fragment;
+  private seeds: Vector3[];
+  private options: VoronoiFractureOptions;
+  private findNeighbors: NeighborFinder;
+  private nextCell = 0;
+
+  /**
+   * Creates a new fracture job. No cells are computed until `step()` is called.
+   * @param geometry The source geometry to fracture
+   * @param options Options for Voronoi fracturing
+   */
+  constructor(geometry: THREE.BufferGeometry, options: VoronoiFractureOptions) {
+    // Create seeded random number generator
+    const rng = new SeededRandom(options.seed);
+
+    // Store the seed back in options if it was auto-generated
+    if (options.seed === undefined) {
+      options.seed = rng.getSeed();
+    }
+
+    this.options = options;
+    this.sourceFragment = geometryToFragment(
+      geometry,
+      options.attributeFill,
+      options.generateTangents,
+      options.generateSourcePositions,
+    );
+    this.seeds = generateVoronoiSeeds(this.sourceFragment, options, rng);
+    this.findNeighbors = createNeighborFinder(
+      this.sourceFragment,
+      this.seeds,
+      options,
+    );
+
+    warnIfApproximate(options, this.seeds.length);
+  }
+
+  /**
+   * Total number of Voronoi cells to compute
+   */
+  get cellCount(): number {
+    return this.seeds.length;
+  }
+
+  /**
+   * Number of Voronoi cells computed so far
+   */
+  get completedCellCount(): number {
+    return this.nextCell;
+  }
+
+  /**
+   * True once every cell has been computed
+   */
+  get done(): boolean {
+    return this.nextCell >= this.seeds.length;
+  }
+
+  /**
+   * Fraction of cells computed so far, between 0 and 1
+   */
+  get progress(): number {
+    return this.seeds.length > 0 ? this.nextCell / this.seeds.length : 1;
+  }
+
+  /**
+   * Computes Voronoi cells until `maxMilliseconds` have elapsed. At least one
+   * cell is computed per call so the job always makes progress.
+   * @param maxMilliseconds Time budget for this step
+   * @returns The fragment geometries completed during this step
+   */
+  step(maxMilliseconds: number = Infinity): THREE.BufferGeometry[] {
+    const start = performance.now();
+    const geometries: THREE.BufferGeometry[] = [];
+
+    while (!this.done) {
+      const [fragments] = computeVoronoiCells(
+        this.sourceFragment,
+        this.seeds,
+        this.options,
+        [this.nextCell],
+        this.findNeighbors,
+      );
+      this.nextCell++;
+
+      geometries.push(...fragments.map((f) => fragmentToGeometry(f)));
+
+      if (performance.now() - start >= maxMilliseconds) {
+        break;
+      }
+    }
+
+    return geometries;
+  }
+}
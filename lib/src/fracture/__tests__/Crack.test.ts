@@ -0,0 +1,93 @@
+import * as THREE from "three";
+import { crackGeometry } from "../Crack";
+import { fractureGeometry } from "../FractureGeometry";
+import { FractureOptions } from "../../entities/FractureOptions";
+import { getCutFacePositions } from "../../__tests__/utils/GeometryTestUtils";
+
+describe("crackGeometry", () => {
+  let geometry: THREE.BufferGeometry;
+
+  beforeEach(() => {
+    geometry = new THREE.SphereGeometry(1, 16, 16);
+  });
+
+  (["voronoi", "simple", "glass"] as const).forEach((fractureMethod) => {
+    it(`should follow the edges of a later fracture (${fractureMethod})`, () => {
+      const options = new FractureOptions({
+        fractureMethod,
+        fragmentCount: 6,
+        seed: 3,
+      });
+
+      const cracks = crackGeometry(geometry, options, { offset: 0 });
+      const cutFacePositions = getCutFacePositions(
+        fractureGeometry(geometry, options),
+      );
+
+      const { position } = cracks.attributes;
+      expect(position.count).toBeGreaterThan(0);
+      for (let i = 0; i < position.count; i++) {
+        const p = new THREE.Vector3().fromBufferAttribute(position, i);
+        expect(cutFacePositions.some((q) => q.distanceTo(p) < 1e-5)).toBe(true);
+        // The cracks lie on the faceted surface of the sphere
+        expect(p.length()).toBeGreaterThan(Math.cos(Math.PI / 16) ** 2);
+        expect(p.length()).toBeLessThanOrEqual(1 + 1e-6);
+      }
+    });
+  });
+
+  it("should record the seed it used", () => {
+    const options = new FractureOptions({ fragmentCount: 4 });
+    const first = crackGeometry(geometry, options);
+
+    expect(options.seed).toBeDefined();
+    expect(crackGeometry(geometry, options).attributes.position.array).toEqual(
+      first.attributes.position.array,
+    );
+  });
+
+  it("should not be changed by cut-face noise", () => {
+    const options = new FractureOptions({ fragmentCount: 4, seed: 1 });
+    const noisy = new FractureOptions({
+      fragmentCount: 4,
+      seed: 1,
+      cutFaceNoise: { amplitude: 0.05, frequency: 4 },
+    });
+
+    expect(crackGeometry(geometry, noisy).attributes.position.array).toEqual(
+      crackGeometry(geometry, options).attributes.position.array,
+    );
+  });
+
+  it("should create ribbons facing out of the surface", () => {
+    const options = new FractureOptions({ fragmentCount: 4, seed: 2 });
+    const ribbons = crackGeometry(geometry, options, {
+      style: "ribbon",
+      width: 0.05,
+    });
+
+    const { position, normal, uv } = ribbons.attributes;
+    expect(uv).toBeDefined();
+    const index = ribbons.index!;
+    expect(index.count).toBeGreaterThan(0);
+
+    const [a, b, c] = [0, 1, 2].map((j) =>
+      new THREE.Vector3().fromBufferAttribute(position, index.getX(j)),
+    );
+    const faceNormal = new THREE.Vector3()
+      .subVectors(b, a)
+      .cross(new THREE.Vector3().subVectors(c, a));
+    const vertexNormal = new THREE.Vector3().fromBufferAttribute(
+      normal,
+      index.getX(0),
+    );
+    expect(faceNormal.dot(vertexNormal)).toBeGreaterThan(0);
+
+    // Both sides of a strip are half a width from the crack
+    expect(
+      new THREE.Vector3()
+        .fromBufferAttribute(position, 0)
+        .distanceTo(new THREE.Vector3().fromBufferAttribute(position, 1)),
+    ).toBeCloseTo(0.05, 5);
+  });
+});
@@ -0,0 +1,185 @@
+import * as THREE from "three";
+import { cut } from "../Cut";
+import { computeMassProperties } from "../../utils/MassProperties";
+import { getVolume } from "../../__tests__/utils/GeometryTestUtils";
+
+/**
+ * Combines indexed geometries into a single geometry with separate parts
+ */
+function combineGeometries(
+  geometries: THREE.BufferGeometry[],
+): THREE.BufferGeometry {
+  const combined = new THREE.BufferGeometry();
+  for (const name of ["position", "normal", "uv"]) {
+    const arrays = geometries.map((g) => Array.from(g.attributes[name].array));
+    combined.setAttribute(
+      name,
+      new THREE.Float32BufferAttribute(
+        arrays.flat(),
+        geometries[0].attributes[name].itemSize,
+      ),
+    );
+  }
+
+  const index: number[] = [];
+  let offset = 0;
+  for (const geometry of geometries) {
+    for (const i of geometry.index!.array) index.push(i + offset);
+    offset += geometry.attributes.position.count;
+  }
+  combined.setIndex(index);
+  return combined;
+}
+
+describe("cut", () => {
+  const textureScale = new THREE.Vector2(1, 1);
+  const textureOffset = new THREE.Vector2(0, 0);
+  let geometry: THREE.BufferGeometry;
+
+  beforeEach(() => {
+    geometry = new THREE.SphereGeometry(1, 16, 16);
+  });
+
+  it("should split the mesh into the parts inside and outside the cutter", () => {
+    const cutter = new THREE.SphereGeometry(0.5, 8, 8).translate(1, 0, 0);
+
+    const { inside, outside } = cut(
+      geometry,
+      cutter,
+      textureScale,
+      textureOffset,
+    );
+
+    expect(inside.length).toBe(1);
+    expect(outside.length).toBe(1);
+
+    // The pieces fill the original volume
+    const volume = computeMassProperties(geometry).volume;
+    expect(getVolume([...inside, ...outside])).toBeCloseTo(volume, 4);
+
+    // The inside piece is contained by the cutter
+    const position = inside[0].attributes.position;
+    const vertex = new THREE.Vector3();
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i);
+      expect(vertex.distanceTo(new THREE.Vector3(1, 0, 0))).toBeLessThan(
+        0.5 + 1e-4,
+      );
+    }
+  });
+
+  it("should use the cutter surface as the cut face", () => {
+    const cutter = new THREE.CylinderGeometry(0.3, 0.3, 3, 12);
+
+    const { inside, outside } = cut(
+      geometry,
+      cutter,
+      textureScale,
+      textureOffset,
+    );
+
+    // A cylinder through the sphere leaves a ring and a plug
+    expect(inside.length).toBe(1);
+    expect(outside.length).toBe(1);
+
+    [...inside, ...outside].forEach((piece) => {
+      expect(piece.groups.map((g) => g.materialIndex)).toEqual([0, 1]);
+      expect(computeMassProperties(piece).cutFaceArea).toBeGreaterThan(0);
+    });
+
+    // The cut-face normals point out of the plug and into the hole
+    const check = (piece: THREE.BufferGeometry, sign: number) => {
+      const group = piece.groups[1];
+      const { position, normal } = piece.attributes;
+      for (let i = group.start; i < group.start + group.count; i++) {
+        const index = piece.index!.getX(i);
+        const radial = new THREE.Vector3(
+          position.getX(index),
+          0,
+          position.getZ(index),
+        ).normalize();
+        const n = new THREE.Vector3().fromBufferAttribute(normal, index);
+        expect(sign * n.dot(radial)).toBeGreaterThan(0.9);
+      }
+    };
+    check(inside[0], 1);
+    check(outside[0], -1);
+  });
+
+  it("should leave the mesh whole if the cutter misses it", () => {
+    const cutter = new THREE.SphereGeometry(0.5, 8, 8).translate(5, 0, 0);
+
+    const { inside, outside } = cut(
+      geometry,
+      cutter,
+      textureScale,
+      textureOffset,
+    );
+
+    expect(inside.length).toBe(0);
+    expect(outside.length).toBe(1);
+    expect(outside[0].index!.count).toBe(geometry.index!.count);
+  });
+
+  it("should carve a cavity with a cutter inside the mesh", () => {
+    const cutter = new THREE.SphereGeometry(0.3, 8, 8);
+
+    const { inside, outside } = cut(
+      geometry,
+      cutter,
+      textureScale,
+      textureOffset,
+    );
+
+    expect(inside.length).toBe(1);
+    expect(outside.length).toBe(1);
+    expect(getVolume(inside)).toBeCloseTo(
+      computeMassProperties(cutter).volume,
+      4,
+    );
+  });
+
+  it("should not join parts of the mesh that are close to the cut face", () => {
+    // Two boxes with a small gap, and a leaning post that carves a hole into
+    // the left box. The bottom of the post is closer to the vertices of the
+    // right box than to those of the left box.
+    const mesh = combineGeometries([
+      new THREE.BoxGeometry(1, 1, 1).translate(-0.55, 0, 0),
+      new THREE.BoxGeometry(1, 1, 1, 4, 4, 4).translate(0.55, 0, 0),
+    ]);
+    const cutter = new THREE.BoxGeometry(0.2, 2.1, 0.2)
+      .translate(0, 1.05, 0)
+      .rotateZ(-0.29)
+      .translate(-0.4, 0, 0);
+
+    const { inside, outside } = cut(mesh, cutter, textureScale, textureOffset);
+
+    expect(inside.length).toBe(1);
+    expect(outside.length).toBe(2);
+
+    // The hole stays in the left box and the right box is left whole
+    const right = outside.find(
+      (piece) => piece.attributes.position.getX(0) > 0,
+    )!;
+    expect(right.groups[1].count).toBe(0);
+    expect(getVolume([right])).toBeCloseTo(1, 4);
+  });
+
+  it("should map the cutter UVs onto the cut face", () => {
+    const cutter = new THREE.SphereGeometry(0.5, 8, 8).translate(1, 0, 0);
+    const scale = new THREE.Vector2(2, 2);
+    const offset = new THREE.Vector2(0.5, 0);
+
+    const { inside } = cut(geometry, cutter, scale, offset);
+
+    const group = inside[0].groups[1];
+    const uv = inside[0].attributes.uv;
+    for (let i = group.start; i < group.start + group.count; i++) {
+      const index = inside[0].index!.getX(i);
+      expect(uv.getX(index)).toBeGreaterThanOrEqual(0.5);
+      expect(uv.getX(index)).toBeLessThanOrEqual(2.5);
+      expect(uv.getY(index)).toBeGreaterThanOrEqual(0);
+      expect(uv.getY(index)).toBeLessThanOrEqual(2);
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import * as THREE from "three";
+import { slice } from "../Slice";
+import { voronoiFracture } from "../VoronoiFracture";
+import { VoronoiFractureOptions } from "../../entities/VoronoiFractureOptions";
+import { CutFaceNoiseOptions } from "../../entities/CutFaceNoiseOptions";
+import { computeMassProperties } from "../../utils/MassProperties";
+import {
+  getCutFacePositions,
+  getVolume,
+} from "../../__tests__/utils/GeometryTestUtils";
+
+describe("cut-face noise", () => {
+  const normal = new THREE.Vector3(0, 1, 0);
+  const origin = new THREE.Vector3(0, 0.1, 0);
+  const textureScale = new THREE.Vector2(1, 1);
+  const textureOffset = new THREE.Vector2(0, 0);
+  const noise: CutFaceNoiseOptions = { amplitude: 0.05, frequency: 4 };
+  let geometry: THREE.BufferGeometry;
+
+  beforeEach(() => {
+    geometry = new THREE.SphereGeometry(1, 16, 16);
+  });
+
+  it("should displace the cut faces", () => {
+    const pieces = slice(
+      geometry,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {},
+      noise,
+    );
+
+    expect(pieces.length).toBe(2);
+    for (const piece of pieces) {
+      const heights = getCutFacePositions(piece).map((p) => p.y - origin.y);
+      expect(Math.max(...heights.map(Math.abs))).toBeGreaterThan(0.005);
+      expect(Math.max(...heights.map(Math.abs))).toBeLessThanOrEqual(
+        noise.amplitude + 1e-6,
+      );
+    }
+  });
+
+  it("should displace both sides of a cut the same way", () => {
+    const pieces = slice(
+      geometry,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {},
+      noise,
+    );
+
+    // The pieces still fill the original volume, so they fit together
+    expect(getVolume(pieces)).toBeCloseTo(
+      computeMassProperties(geometry).volume,
+      3,
+    );
+
+    const [top, bottom] = pieces.map((piece) => getCutFacePositions(piece));
+    for (const p of top) {
+      expect(bottom.some((q) => q.distanceTo(p) < 1e-5)).toBe(true);
+    }
+  });
+
+  it("should produce the same displacement for the same seed", () => {
+    const displace = (seed: number) =>
+      slice(
+        geometry,
+        normal,
+        origin,
+        textureScale,
+        textureOffset,
+        {},
+        {
+          ...noise,
+          seed,
+        },
+      )[0].attributes.position.array;
+
+    expect(displace(3)).toEqual(displace(3));
+    expect(displace(3)).not.toEqual(displace(4));
+  });
+
+  it("should keep the fragments of a Voronoi fracture fitting together", () => {
+    const fragments = voronoiFracture(
+      geometry,
+      new VoronoiFractureOptions({
+        fragmentCount: 6,
+        seed: 7,
+        cutFaceNoise: { ...noise, octaves: 2 },
+      }),
+    );
+
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(getVolume(fragments)).toBeCloseTo(
+      computeMassProperties(geometry).volume,
+      3,
+    );
+  });
+
+  it("should not displace the existing cut faces of the source", () => {
+    const [top] = slice(
+      geometry,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {},
+      noise,
+    );
+    const before = getCutFacePositions(top);
+
+    const pieces = slice(
+      top,
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(),
+      textureScale,
+      textureOffset,
+      {},
+      noise,
+    );
+
+    // Every vertex of the first cut face that wasn't on the second cut is
+    // left where it was
+    for (const piece of pieces) {
+      for (const p of getCutFacePositions(piece)) {
+        if (Math.abs(p.x) > noise.amplitude) {
+          expect(before.some((q) => q.distanceTo(p) < 1e-6)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it("should throw for a non-positive frequency", () => {
+    expect(() =>
+      slice(
+        geometry,
+        normal,
+        origin,
+        textureScale,
+        textureOffset,
+        {},
+        {
+          amplitude: 0.1,
+          frequency: 0,
+        },
+      ),
+    ).toThrow("Cut-face noise frequency must be positive");
+  });
+});
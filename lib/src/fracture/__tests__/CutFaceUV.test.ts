@@ -0,0 +1,255 @@
+import * as THREE from "three";
+import { projectCutFaceUV } from "../CutFaceUV";
+import { slice } from "../Slice";
+
+/**
+ * Returns the UV of each cut-face vertex of a geometry, by vertex position
+ */
+function getCutFaceUVs(geometry: THREE.BufferGeometry): Map<string, number[]> {
+  const group = geometry.groups[geometry.groups.length - 1];
+  const { position, uv } = geometry.attributes;
+  const uvs = new Map<string, number[]>();
+  for (let i = group.start; i < group.start + group.count; i++) {
+    const index = geometry.index!.getX(i);
+    const key = [
+      position.getX(index),
+      position.getY(index),
+      position.getZ(index),
+    ]
+      .map((value) => value.toFixed(4))
+      .join(",");
+    uvs.set(key, [uv.getX(index), uv.getY(index)]);
+  }
+  return uvs;
+}
+
+describe("projectCutFaceUV", () => {
+  const position = new THREE.Vector3(1, 2, 3);
+
+  it("should project onto the axis plane the cut face is facing", () => {
+    const normal = new THREE.Vector3(0.1, 0.2, 1).normalize();
+    expect(projectCutFaceUV(position, normal, "triplanar").toArray()).toEqual([
+      1, 2,
+    ]);
+    expect(
+      projectCutFaceUV(
+        position,
+        normal.clone().negate(),
+        "triplanar",
+      ).toArray(),
+    ).toEqual([1, 2]);
+  });
+
+  it("should mirror box projections on opposite sides", () => {
+    const normal = new THREE.Vector3(1, 0, 0);
+    expect(projectCutFaceUV(position, normal, "box").toArray()).toEqual([
+      -3, 2,
+    ]);
+    expect(
+      projectCutFaceUV(position, normal.clone().negate(), "box").toArray(),
+    ).toEqual([3, 2]);
+  });
+
+  it("should measure planar coordinates in the plane of the cut", () => {
+    const normal = new THREE.Vector3(1, 1, 0).normalize();
+    const uv = projectCutFaceUV(position, normal, "planar");
+    const moved = projectCutFaceUV(
+      position.clone().addScaledVector(normal, 5),
+      normal,
+      "planar",
+    );
+
+    // Moving along the normal doesn't change the coordinates, and moving in
+    // the plane changes them by the same distance
+    expect(moved.distanceTo(uv)).toBeCloseTo(0);
+    const step = new THREE.Vector3(0, 0, 2);
+    expect(
+      projectCutFaceUV(position.clone().add(step), normal, "planar").distanceTo(
+        uv,
+      ),
+    ).toBeCloseTo(2);
+  });
+});
+
+describe("slice UV modes", () => {
+  const geometry = new THREE.SphereGeometry(1, 16, 16);
+  const normal = new THREE.Vector3(1, 1, 0).normalize();
+  const origin = new THREE.Vector3(0.1, 0, 0);
+  const textureScale = new THREE.Vector2(2, 2);
+  const textureOffset = new THREE.Vector2(0.5, 0);
+
+  (["planar", "triplanar"] as const).forEach((mode) => {
+    it(`should give both sides of a cut the same UVs (${mode})`, () => {
+      const [top, bottom] = slice(
+        geometry,
+        normal,
+        origin,
+        textureScale,
+        textureOffset,
+        {},
+        undefined,
+        mode,
+      ).map(getCutFaceUVs);
+
+      expect(top.size).toBeGreaterThan(0);
+      top.forEach((uv, key) => {
+        expect(bottom.get(key)![0]).toBeCloseTo(uv[0], 5);
+        expect(bottom.get(key)![1]).toBeCloseTo(uv[1], 5);
+      });
+    });
+  });
+
+  it("should project the cut-face positions of the original mesh", () => {
+    const pieces = slice(
+      geometry,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {},
+      undefined,
+      "box",
+    );
+
+    pieces.forEach((piece, i) => {
+      const faceNormal = normal.clone().multiplyScalar(i === 0 ? -1 : 1);
+      getCutFaceUVs(piece).forEach((uv, key) => {
+        const position = new THREE.Vector3(...key.split(",").map(Number));
+        const expected = projectCutFaceUV(position, faceNormal, "box")
+          .multiply(textureScale)
+          .add(textureOffset);
+        expect(uv[0]).toBeCloseTo(expected.x, 3);
+        expect(uv[1]).toBeCloseTo(expected.y, 3);
+      });
+    });
+  });
+});
+
+describe("cut-face tangents", () => {
+  const geometry = new THREE.SphereGeometry(1, 16, 16);
+  const normal = new THREE.Vector3(1, 2, 0.5).normalize();
+  const origin = new THREE.Vector3(0, 0.1, 0);
+  const textureScale = new THREE.Vector2(2, -1);
+  const textureOffset = new THREE.Vector2();
+
+  (["triangulation", "planar", "box", "triplanar"] as const).forEach((mode) => {
+    it(`should follow the cut-face UVs (${mode})`, () => {
+      const pieces = slice(
+        geometry,
+        normal,
+        origin,
+        textureScale,
+        textureOffset,
+        {},
+        undefined,
+        mode,
+        true,
+      );
+
+      for (const piece of pieces) {
+        const { position, normal: normals, uv, tangent } = piece.attributes;
+        const group = piece.groups[piece.groups.length - 1];
+        expect(group.count).toBeGreaterThan(0);
+
+        for (let i = group.start; i < group.start + group.count; i += 3) {
+          const [a, b, c] = [0, 1, 2].map((j) => piece.index!.getX(i + j));
+          const p = (k: number) =>
+            new THREE.Vector3().fromBufferAttribute(position, k);
+          const t = (k: number) =>
+            new THREE.Vector2().fromBufferAttribute(
+              uv as THREE.BufferAttribute,
+              k,
+            );
+
+          // Solve for the directions in which U and V increase on the triangle
+          const e1 = p(b).sub(p(a));
+          const e2 = p(c).sub(p(a));
+          const d1 = t(b).sub(t(a));
+          const d2 = t(c).sub(t(a));
+          const det = d1.x * d2.y - d2.x * d1.y;
+          if (Math.abs(det) < 1e-8) continue;
+          const dpdu = e1
+            .clone()
+            .multiplyScalar(d2.y)
+            .addScaledVector(e2, -d1.y)
+            .divideScalar(det);
+          const dpdv = e2
+            .clone()
+            .multiplyScalar(d1.x)
+            .addScaledVector(e1, -d2.x)
+            .divideScalar(det);
+
+          const n = new THREE.Vector3().fromBufferAttribute(normals, a);
+          const tangentXYZ = new THREE.Vector3().fromBufferAttribute(
+            tangent,
+            a,
+          );
+          const bitangent = n
+            .clone()
+            .cross(tangentXYZ)
+            .multiplyScalar(tangent.getW(a));
+
+          expect(tangentXYZ.length()).toBeCloseTo(1, 5);
+          expect(tangentXYZ.dot(n)).toBeCloseTo(0, 5);
+          expect(tangentXYZ.dot(dpdu.normalize())).toBeCloseTo(1, 3);
+          // The axis projections are skewed on oblique cuts, so V only
+          // increases roughly along the bitangent
+          expect(bitangent.dot(dpdv.normalize())).toBeGreaterThan(0.9);
+        }
+      }
+    });
+  });
+
+  it("should interpolate the tangents of the original surface", () => {
+    const source = geometry.clone();
+    const tangents = new Float32Array(source.attributes.position.count * 4);
+    for (let i = 0; i < tangents.length; i += 4) {
+      tangents.set([0, 0, 1, -1], i);
+    }
+    source.setAttribute("tangent", new THREE.BufferAttribute(tangents, 4));
+
+    const [top] = slice(
+      source,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {},
+      undefined,
+      "triangulation",
+      true,
+    );
+
+    // The existing tangents are used rather than recomputed
+    const { tangent } = top.attributes;
+    const cutStart = top.groups[top.groups.length - 1].start;
+    for (let i = 0; i < cutStart; i++) {
+      const index = top.index!.getX(i);
+      expect(tangent.getZ(index)).toBeCloseTo(1, 5);
+      expect(tangent.getW(index)).toBeCloseTo(-1, 5);
+    }
+  });
+
+  it("should not add tangents unless requested", () => {
+    const [top] = slice(geometry, normal, origin, textureScale, textureOffset);
+    expect(top.attributes.tangent).toBeUndefined();
+  });
+
+  it("should throw for geometry without UV coordinates", () => {
+    const noUV = geometry.clone();
+    noUV.deleteAttribute("uv");
+    expect(() =>
+      slice(
+        noUV,
+        normal,
+        origin,
+        textureScale,
+        textureOffset,
+        {},
+        undefined,
+        "triangulation",
+        true,
+      ),
+    ).toThrow("Generating tangents requires UV coordinates");
+  });
+});
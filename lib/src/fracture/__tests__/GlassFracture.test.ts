@@ -0,0 +1,76 @@
+import * as THREE from "three";
+import { FractureOptions } from "../../entities/FractureOptions";
+import { fractureGeometry } from "../FractureGeometry";
+import { getVolume } from "../../__tests__/utils/GeometryTestUtils";
+
+describe("glassFracture", () => {
+  const pane = new THREE.BoxGeometry(4, 6, 0.2);
+  const impactPoint = new THREE.Vector3(0.5, 1, 0);
+
+  it("should shatter the whole pane", () => {
+    const fragments = fractureGeometry(
+      pane,
+      new FractureOptions({
+        fractureMethod: "glass",
+        fragmentCount: 40,
+        seed: 1,
+        glassOptions: { impactPoint },
+      }),
+    );
+
+    expect(fragments.length).toBeGreaterThan(20);
+    const volume = getVolume(fragments);
+    expect(volume).toBeCloseTo(4.8, 5);
+  });
+
+  it("should create the finest shards near the impact point", () => {
+    const fragments = fractureGeometry(
+      pane,
+      new FractureOptions({
+        fractureMethod: "glass",
+        seed: 2,
+        glassOptions: {
+          impactPoint,
+          radialCrackCount: 10,
+          ringCount: 4,
+        },
+      }),
+    );
+
+    const getDistance = (geometry: THREE.BufferGeometry) => {
+      geometry.computeBoundingBox();
+      return geometry
+        .boundingBox!.getCenter(new THREE.Vector3())
+        .distanceTo(impactPoint);
+    };
+    const sorted = [...fragments].sort(
+      (a, b) => getDistance(a) - getDistance(b),
+    );
+
+    // The inner ring of shards is much smaller than the outer ones, although
+    // the edges of the pane can clip outer shards into small slivers
+    const getMeanVolume = (geometries: THREE.BufferGeometry[]) =>
+      getVolume(geometries) / geometries.length;
+    expect(getMeanVolume(sorted.slice(0, 10))).toBeLessThan(
+      getMeanVolume(sorted.slice(-10)) / 2,
+    );
+  });
+
+  it("should crack through the thin axis of the pane", () => {
+    const fragments = fractureGeometry(
+      pane,
+      new FractureOptions({
+        fractureMethod: "glass",
+        fragmentCount: 24,
+        seed: 3,
+      }),
+    );
+
+    // Every shard spans the full thickness of the pane
+    fragments.forEach((geometry) => {
+      geometry.computeBoundingBox();
+      const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+      expect(size.z).toBeCloseTo(0.2, 5);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import * as THREE from "three";
+import { createGridPlanes, slice, sliceMany } from "../Slice";
+
+/**
+ * Creates a sphere whose vertex colors are a linear function of position,
+ * so interpolated colors can be checked exactly
+ */
+function createColoredSphere(): THREE.BufferGeometry {
+  const geometry = new THREE.SphereGeometry(1, 16, 16);
+  const position = geometry.attributes.position;
+  const colors = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    colors[3 * i] = (position.getX(i) + 1) / 2;
+    colors[3 * i + 1] = (position.getY(i) + 1) / 2;
+    colors[3 * i + 2] = (position.getZ(i) + 1) / 2;
+  }
+  geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+  return geometry;
+}
+
+/**
+ * Returns the indices of the vertices used by the cut-face material group
+ */
+function getCutFaceVertices(geometry: THREE.BufferGeometry): Set<number> {
+  const group = geometry.groups.find((g) => g.materialIndex === 1)!;
+  const vertices = new Set<number>();
+  for (let i = group.start; i < group.start + group.count; i++) {
+    vertices.add(geometry.index!.getX(i));
+  }
+  return vertices;
+}
+
+describe("slice", () => {
+  const normal = new THREE.Vector3(1, 1, 0).normalize();
+  const origin = new THREE.Vector3(0.1, 0, 0);
+  const textureScale = new THREE.Vector2(1, 1);
+  const textureOffset = new THREE.Vector2(0, 0);
+
+  it("should interpolate additional attributes along the cut", () => {
+    const pieces = slice(
+      createColoredSphere(),
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+    );
+
+    expect(pieces.length).toBe(2);
+    for (const piece of pieces) {
+      const position = piece.attributes.position;
+      const color = piece.attributes.color;
+      expect(color.count).toBe(position.count);
+
+      // Colors are linear in position, so interpolation preserves them
+      for (let i = 0; i < position.count; i++) {
+        expect(color.getX(i)).toBeCloseTo((position.getX(i) + 1) / 2, 4);
+        expect(color.getY(i)).toBeCloseTo((position.getY(i) + 1) / 2, 4);
+        expect(color.getZ(i)).toBeCloseTo((position.getZ(i) + 1) / 2, 4);
+      }
+    }
+  });
+
+  it("should fill cut faces with a constant value", () => {
+    const pieces = slice(
+      createColoredSphere(),
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      { color: [1, 0, 0] },
+    );
+
+    for (const piece of pieces) {
+      const color = piece.attributes.color;
+      const cutFaceVertices = getCutFaceVertices(piece);
+      expect(cutFaceVertices.size).toBeGreaterThan(0);
+      cutFaceVertices.forEach((i) => {
+        expect([color.getX(i), color.getY(i), color.getZ(i)]).toEqual([
+          1, 0, 0,
+        ]);
+      });
+    }
+  });
+
+  it("should fill cut faces with the projected cut-face coordinates", () => {
+    const geometry = createColoredSphere();
+    geometry.setAttribute(
+      "uv1",
+      new THREE.BufferAttribute(
+        new Float32Array(geometry.attributes.position.count * 2),
+        2,
+      ),
+    );
+
+    const pieces = slice(
+      geometry,
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      {
+        uv1: "project",
+      },
+    );
+
+    for (const piece of pieces) {
+      const uv = piece.attributes.uv;
+      const uv1 = piece.attributes.uv1;
+      getCutFaceVertices(piece).forEach((i) => {
+        expect(uv1.getX(i)).toBeCloseTo(uv.getX(i));
+        expect(uv1.getY(i)).toBeCloseTo(uv.getY(i));
+      });
+    }
+  });
+
+  it("should fill cut faces using a callback", () => {
+    const callback = jest.fn(
+      (_position: THREE.Vector3, faceNormal: THREE.Vector3) =>
+        faceNormal.toArray(),
+    );
+
+    const [top, bottom] = slice(
+      createColoredSphere(),
+      normal,
+      origin,
+      textureScale,
+      textureOffset,
+      { color: callback },
+    );
+
+    expect(callback).toHaveBeenCalled();
+
+    // Each piece receives the normal of its own cut face
+    const topColor = top.attributes.color;
+    getCutFaceVertices(top).forEach((i) => {
+      expect(topColor.getX(i)).toBeCloseTo(-normal.x);
+      expect(topColor.getY(i)).toBeCloseTo(-normal.y);
+    });
+    const bottomColor = bottom.attributes.color;
+    getCutFaceVertices(bottom).forEach((i) => {
+      expect(bottomColor.getX(i)).toBeCloseTo(normal.x);
+      expect(bottomColor.getY(i)).toBeCloseTo(normal.y);
+    });
+  });
+
+  it("should preserve every material group of the source geometry", () => {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const third = Math.floor(geometry.index!.count / 9) * 3;
+    geometry.addGroup(0, third, 0);
+    geometry.addGroup(third, third, 1);
+    geometry.addGroup(2 * third, geometry.index!.count - 2 * third, 2);
+
+    const pieces = slice(geometry, normal, origin, textureScale, textureOffset);
+
+    pieces.forEach((piece) => {
+      // Source groups keep their material index and the cut faces come last
+      expect(piece.groups.map((g) => g.materialIndex)).toEqual([0, 1, 2, 3]);
+      expect(piece.userData.cutFaceMaterialIndex).toBe(3);
+      expect(piece.groups[3].count).toBeGreaterThan(0);
+    });
+
+    // Slicing a piece again adds its new cut faces to the same group
+    const [top] = slice(
+      pieces[0],
+      new THREE.Vector3(0, 0, 1),
+      new THREE.Vector3(),
+      textureScale,
+      textureOffset,
+    );
+    expect(top.groups.map((g) => g.materialIndex)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("sliceMany", () => {
+  const textureScale = new THREE.Vector2(1, 1);
+  const textureOffset = new THREE.Vector2(0, 0);
+
+  it("should slice by every plane", () => {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const planes = [
+      new THREE.Plane(new THREE.Vector3(1, 0, 0), 0),
+      new THREE.Plane(new THREE.Vector3(0, 1, 0), 0),
+    ];
+
+    const pieces = sliceMany(geometry, planes, textureScale, textureOffset);
+
+    expect(pieces.length).toBe(4);
+  });
+
+  it("should return the planes that bound each piece", () => {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const planes = [
+      new THREE.Plane(new THREE.Vector3(1, 0, 0), -0.2),
+      new THREE.Plane(new THREE.Vector3(0, 0, 1), 0.3),
+    ];
+
+    const pieces = sliceMany(geometry, planes, textureScale, textureOffset);
+
+    const vertex = new THREE.Vector3();
+    pieces.forEach((piece) => {
+      expect(piece.planes.length).toBe(2);
+      const position = piece.geometry.attributes.position;
+      for (let i = 0; i < position.count; i++) {
+        vertex.fromBufferAttribute(position, i);
+        piece.planes.forEach((plane) => {
+          expect(plane.distanceToPoint(vertex)).toBeGreaterThan(-1e-5);
+        });
+      }
+    });
+  });
+
+  it("should skip planes that miss a piece", () => {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const planes = [
+      new THREE.Plane(new THREE.Vector3(1, 0, 0), 0),
+      new THREE.Plane(new THREE.Vector3(0, 1, 0), -5),
+    ];
+
+    const pieces = sliceMany(geometry, planes, textureScale, textureOffset);
+
+    expect(pieces.length).toBe(2);
+    pieces.forEach((piece) => expect(piece.planes.length).toBe(1));
+  });
+});
+
+describe("createGridPlanes", () => {
+  it("should create the interior planes of a grid", () => {
+    const box = new THREE.Box3(
+      new THREE.Vector3(-1, -1, -1),
+      new THREE.Vector3(1, 1, 1),
+    );
+
+    const planes = createGridPlanes(box, { x: 2, y: 3, z: 1 });
+
+    expect(planes.length).toBe(3);
+    expect(planes[0].distanceToPoint(new THREE.Vector3(0, 0, 0))).toBe(0);
+    expect(
+      planes[1].distanceToPoint(new THREE.Vector3(0, -1 / 3, 0)),
+    ).toBeCloseTo(0);
+    expect(
+      planes[2].distanceToPoint(new THREE.Vector3(0, 1 / 3, 0)),
+    ).toBeCloseTo(0);
+  });
+
+  it("should throw for invalid divisions", () => {
+    const box = new THREE.Box3(
+      new THREE.Vector3(-1, -1, -1),
+      new THREE.Vector3(1, 1, 1),
+    );
+
+    expect(() => createGridPlanes(box, { x: 0, y: 1, z: 1 })).toThrow();
+    expect(() => createGridPlanes(box, { x: 1.5, y: 1, z: 1 })).toThrow();
+  });
+});
@@ -0,0 +1,58 @@
+import { Matrix3, Vector3 } from "three";
+import {
+  computeBisectingPlane,
+  createGrainMetric,
+  getMetricTransform,
+} from "../VoronoiCell";
+
+/**
+ * Squared distance between two points in a metric
+ */
+function metricDistanceSq(a: Vector3, b: Vector3, metric: Matrix3): number {
+  const d = new Vector3().subVectors(a, b);
+  return d.dot(d.clone().applyMatrix3(metric));
+}
+
+describe("computeBisectingPlane", () => {
+  it("should contain the points equally far from both seeds in a metric", () => {
+    const metric = createGrainMetric(new Vector3(1, 1, 0), 3);
+    const seed1 = new Vector3(0, 0, 0);
+    const seed2 = new Vector3(1, 0.5, -0.25);
+
+    const { origin, normal } = computeBisectingPlane(seed1, seed2, metric);
+
+    // Move within the plane and compare the distances to both seeds
+    const inPlane = new Vector3(0.3, -0.7, 0.2).projectOnPlane(normal);
+    const point = origin.clone().add(inPlane);
+    expect(metricDistanceSq(point, seed1, metric)).toBeCloseTo(
+      metricDistanceSq(point, seed2, metric),
+      10,
+    );
+    expect(normal.dot(new Vector3().subVectors(seed2, seed1))).toBeGreaterThan(
+      0,
+    );
+  });
+});
+
+describe("getMetricTransform", () => {
+  it("should map metric distances to Euclidean distances", () => {
+    const metric = createGrainMetric(new Vector3(0.2, 1, -0.5), 0.25);
+    const transform = getMetricTransform(metric);
+
+    const a = new Vector3(0.4, -1, 2);
+    const b = new Vector3(-0.3, 0.5, 1);
+    expect(
+      a
+        .clone()
+        .applyMatrix3(transform)
+        .distanceToSquared(b.clone().applyMatrix3(transform)),
+    ).toBeCloseTo(metricDistanceSq(a, b, metric), 10);
+  });
+
+  it("should reject metrics that are not positive definite", () => {
+    const metric = new Matrix3().set(1, 0, 0, 0, -1, 0, 0, 0, 1);
+    expect(() => getMetricTransform(metric)).toThrow(
+      "metric must be symmetric positive definite",
+    );
+  });
+});
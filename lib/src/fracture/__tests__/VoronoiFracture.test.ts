@@ -0,0 +1,306 @@
+import * as THREE from "three";
+import { VoronoiFractureOptions } from "../../entities/VoronoiFractureOptions";
+import { generateVoronoiSeeds, voronoiFracture } from "../VoronoiFracture";
+import { createGrainMetric } from "../VoronoiCell";
+import { geometryToFragment } from "../../utils/GeometryConversion";
+import { SeededRandom } from "../../utils/SeededRandom";
+import { getVolume } from "../../__tests__/utils/GeometryTestUtils";
+
+describe("voronoiFracture", () => {
+  const geometry = new THREE.BoxGeometry(2, 1, 1);
+
+  describe("Delaunay neighbors", () => {
+    (["3D", "2.5D"] as const).forEach((mode) => {
+      it(`should produce the same cells as all-pairs clipping (${mode})`, () => {
+        const createOptions = (useDelaunayNeighbors: boolean) =>
+          new VoronoiFractureOptions({
+            fragmentCount: 12,
+            mode,
+            seed: 1234,
+            useDelaunayNeighbors,
+          });
+
+        const expected = voronoiFracture(geometry, createOptions(false));
+        const actual = voronoiFracture(geometry, createOptions(true));
+
+        expect(actual.length).toBe(expected.length);
+        actual.forEach((g, i) => {
+          expect(getVolume(g)).toBeCloseTo(getVolume(expected[i]), 5);
+        });
+      });
+    });
+
+    it("should not warn about overlaps when combined with useApproximation", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      voronoiFracture(
+        geometry,
+        new VoronoiFractureOptions({
+          fragmentCount: 4,
+          seed: 1,
+          useApproximation: true,
+          useDelaunayNeighbors: true,
+        }),
+      );
+
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("Poisson-disk seeds", () => {
+    (["3D", "2.5D"] as const).forEach((mode) => {
+      it(`should fill the volume of the geometry (${mode})`, () => {
+        const fragments = voronoiFracture(
+          geometry,
+          new VoronoiFractureOptions({
+            fragmentCount: 8,
+            mode,
+            seed: 5,
+            seedDistribution: "poisson",
+          }),
+        );
+
+        expect(fragments).toHaveLength(8);
+        const volume = getVolume(fragments);
+        expect(volume).toBeCloseTo(2, 5);
+      });
+    });
+  });
+
+  describe("Interior seeds", () => {
+    // Torus in the XY plane with a ring radius of 1 and a tube radius of 0.25
+    const torus = new THREE.TorusGeometry(1, 0.25, 16, 48);
+
+    it("should only place seeds inside the volume of the mesh (3D)", () => {
+      const options = new VoronoiFractureOptions({
+        fragmentCount: 20,
+        mode: "3D",
+        seedPlacement: "interior",
+        impactPoint: new THREE.Vector3(1, 0, 0),
+      });
+
+      const seeds = generateVoronoiSeeds(
+        geometryToFragment(torus),
+        options,
+        new SeededRandom(1),
+      );
+
+      expect(seeds).toHaveLength(20);
+      for (const seed of seeds) {
+        // Distance from the center circle of the tube
+        const ring = Math.hypot(seed.x, seed.y) - 1;
+        expect(Math.hypot(ring, seed.z)).toBeLessThan(0.25);
+      }
+    });
+
+    it("should only place seeds above the mesh (2.5D)", () => {
+      const options = new VoronoiFractureOptions({
+        fragmentCount: 20,
+        mode: "2.5D",
+        projectionAxis: "z",
+        seedPlacement: "interior",
+        seedDistribution: "poisson",
+      });
+
+      const seeds = generateVoronoiSeeds(
+        geometryToFragment(torus),
+        options,
+        new SeededRandom(2),
+      );
+
+      expect(seeds).toHaveLength(20);
+      for (const seed of seeds) {
+        expect(Math.abs(Math.hypot(seed.x, seed.y) - 1)).toBeLessThan(0.25);
+      }
+    });
+  });
+
+  describe("Surface seeds", () => {
+    // Cup with a radius of 1, a height of 1 and walls 0.1 thick
+    const cup = new THREE.LatheGeometry(
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0.9, 1],
+        [0.9, 0.1],
+        [0, 0.1],
+        [0, 0],
+      ].map(([x, y]) => new THREE.Vector2(x, y)),
+      48,
+    );
+
+    it("should place seeds in the middle of thin walls", () => {
+      const seeds = generateVoronoiSeeds(
+        geometryToFragment(cup),
+        new VoronoiFractureOptions({
+          fragmentCount: 40,
+          mode: "3D",
+          seedPlacement: "surface",
+        }),
+        new SeededRandom(1),
+      );
+
+      expect(seeds).toHaveLength(40);
+      let midWall = 0;
+      for (const seed of seeds) {
+        const radius = Math.hypot(seed.x, seed.z);
+        expect(radius).toBeLessThanOrEqual(1);
+        expect(seed.y).toBeGreaterThanOrEqual(0);
+        expect(radius >= 0.89 || seed.y <= 0.1).toBe(true);
+
+        // The faceted walls are slightly thinner than 0.1
+        if (Math.abs(radius - 0.95) < 0.01 || Math.abs(seed.y - 0.05) < 0.01) {
+          midWall++;
+        }
+      }
+
+      // Seeds on the rim and beside the thick base are further from the middle
+      // of the wall
+      expect(midWall).toBeGreaterThan(seeds.length * 0.8);
+    });
+
+    it("should cluster seeds on the surface near the impact point", () => {
+      const impactPoint = new THREE.Vector3(1, 0.5, 0);
+      const seeds = generateVoronoiSeeds(
+        geometryToFragment(cup),
+        new VoronoiFractureOptions({
+          fragmentCount: 20,
+          mode: "3D",
+          seedPlacement: "surface",
+          impactPoint,
+          impactRadius: 0.4,
+        }),
+        new SeededRandom(2),
+      );
+
+      expect(seeds).toHaveLength(20);
+      const nearImpact = seeds.filter(
+        (seed) => seed.distanceTo(impactPoint) < 0.4,
+      );
+      expect(nearImpact.length).toBeGreaterThanOrEqual(10);
+    });
+  });
+
+  describe("Lloyd relaxation", () => {
+    it("should make the smallest fragments larger", () => {
+      const getSmallestVolume = (relaxationIterations: number) =>
+        Math.min(
+          ...voronoiFracture(
+            geometry,
+            new VoronoiFractureOptions({
+              fragmentCount: 12,
+              seed: 9,
+              relaxationIterations,
+            }),
+          ).map((fragment) => getVolume(fragment)),
+        );
+
+      expect(getSmallestVolume(4)).toBeGreaterThan(getSmallestVolume(0) * 1.5);
+    });
+
+    it("should keep seeds clustered near the impact point", () => {
+      const impactPoint = new THREE.Vector3(0.8, 0, 0);
+      const seeds = generateVoronoiSeeds(
+        geometryToFragment(geometry),
+        new VoronoiFractureOptions({
+          fragmentCount: 20,
+          impactPoint,
+          impactRadius: 0.5,
+          relaxationIterations: 4,
+        }),
+        new SeededRandom(3),
+      );
+
+      // The impact sphere covers less than a quarter of the box
+      const nearImpact = seeds.filter(
+        (seed) => seed.distanceTo(impactPoint) < 0.5,
+      );
+      expect(nearImpact.length).toBeGreaterThan(seeds.length / 4);
+    });
+  });
+
+  describe("Anisotropic metric", () => {
+    const sphere = new THREE.SphereGeometry(1, 16, 16);
+
+    /**
+     * Returns the mean ratio of the height of the fragments to their width
+     */
+    const getMeanAspect = (options: VoronoiFractureOptions) => {
+      const fragments = voronoiFracture(sphere, options);
+      expect(getVolume(fragments)).toBeCloseTo(getVolume(sphere), 5);
+
+      const aspects = fragments.map((g) => {
+        const size = new THREE.Box3()
+          .setFromBufferAttribute(
+            g.attributes.position as THREE.BufferAttribute,
+          )
+          .getSize(new THREE.Vector3());
+        return size.y / Math.max(size.x, size.z);
+      });
+      return aspects.reduce((sum, a) => sum + a, 0) / aspects.length;
+    };
+
+    it("should stretch cells along the grain", () => {
+      const createOptions = (grainStretch?: number) =>
+        new VoronoiFractureOptions({
+          fragmentCount: 16,
+          seed: 11,
+          grainDirection: grainStretch ? new THREE.Vector3(0, 1, 0) : undefined,
+          grainStretch,
+        });
+
+      const round = getMeanAspect(createOptions());
+      expect(getMeanAspect(createOptions(4))).toBeGreaterThan(round * 1.5);
+      expect(getMeanAspect(createOptions(0.25))).toBeLessThan(round / 1.5);
+    });
+
+    it("should find the same cells with Delaunay neighbors", () => {
+      const createOptions = (useDelaunayNeighbors: boolean) =>
+        new VoronoiFractureOptions({
+          fragmentCount: 12,
+          seed: 12,
+          metric: createGrainMetric(new THREE.Vector3(1, 2, 0), 3),
+          useDelaunayNeighbors,
+        });
+
+      const expected = voronoiFracture(sphere, createOptions(false));
+      const actual = voronoiFracture(sphere, createOptions(true));
+
+      expect(actual.length).toBe(expected.length);
+      actual.forEach((g, i) => {
+        expect(getVolume(g)).toBeCloseTo(getVolume(expected[i]), 5);
+      });
+    });
+  });
+
+  describe("Vertex attributes", () => {
+    it("should carry additional attributes into every fragment", () => {
+      const source = new THREE.SphereGeometry(1, 16, 16);
+      const colors = new Float32Array(source.attributes.position.count * 3);
+      colors.fill(0.5);
+      source.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+
+      const fragments = voronoiFracture(
+        source,
+        new VoronoiFractureOptions({
+          fragmentCount: 6,
+          seed: 7,
+          attributeFill: { color: [1, 1, 1] },
+        }),
+      );
+
+      expect(fragments.length).toBeGreaterThan(1);
+      for (const fragment of fragments) {
+        const color = fragment.attributes.color;
+        expect(color.count).toBe(fragment.attributes.position.count);
+
+        // Every vertex has either the surface color or the cut-face color
+        for (let i = 0; i < color.count; i++) {
+          expect([0.5, 1]).toContain(color.getX(i));
+        }
+      }
+    });
+  });
+});
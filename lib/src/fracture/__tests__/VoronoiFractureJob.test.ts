@@ -0,0 +1,66 @@
+import * as THREE from "three";
+import { VoronoiFractureOptions } from "../../entities/VoronoiFractureOptions";
+import { voronoiFracture } from "../VoronoiFracture";
+import { VoronoiFractureJob } from "../VoronoiFractureJob";
+
+describe("VoronoiFractureJob", () => {
+  const geometry = new THREE.SphereGeometry(1, 12, 12);
+
+  const createOptions = () =>
+    new VoronoiFractureOptions({ fragmentCount: 5, seed: 99 });
+
+  it("should not compute any cells until step is called", () => {
+    const job = new VoronoiFractureJob(geometry, createOptions());
+
+    expect(job.cellCount).toBe(5);
+    expect(job.completedCellCount).toBe(0);
+    expect(job.progress).toBe(0);
+    expect(job.done).toBe(false);
+  });
+
+  it("should compute at least one cell per step", () => {
+    const job = new VoronoiFractureJob(geometry, createOptions());
+
+    job.step(0);
+
+    expect(job.completedCellCount).toBe(1);
+    expect(job.progress).toBeCloseTo(0.2);
+  });
+
+  it("should produce the same fragments as voronoiFracture", () => {
+    const job = new VoronoiFractureJob(geometry, createOptions());
+
+    const geometries: THREE.BufferGeometry[] = [];
+    while (!job.done) {
+      geometries.push(...job.step(0));
+    }
+
+    const expected = voronoiFracture(geometry, createOptions());
+
+    expect(geometries.length).toBe(expected.length);
+    geometries.forEach((g, i) => {
+      expect(g.attributes.position.array).toEqual(
+        expected[i].attributes.position.array,
+      );
+    });
+  });
+
+  it("should complete in a single step with no time limit", () => {
+    const job = new VoronoiFractureJob(geometry, createOptions());
+
+    const geometries = job.step();
+
+    expect(job.done).toBe(true);
+    expect(job.progress).toBe(1);
+    expect(geometries.length).toBeGreaterThan(0);
+    expect(job.step()).toEqual([]);
+  });
+
+  it("should store the generated seed back in the options", () => {
+    const options = new VoronoiFractureOptions({ fragmentCount: 3 });
+
+    new VoronoiFractureJob(geometry, options);
+
+    expect(options.seed).toBeDefined();
+  });
+});
@@ -1,4 +1,25 @@
 export { DestructibleMesh } from "./DestructibleMesh";
+export type { FractureJob } from "./DestructibleMesh";
+export { FragmentBatch } from "./FragmentBatch";
+export type { FragmentBatchMode } from "./FragmentBatch";
 export { FractureOptions } from "./entities/FractureOptions";
-export type { VoronoiOptions } from "./entities/FractureOptions";
+export type { GlassOptions, VoronoiOptions } from "./entities/FractureOptions";
+export type { CutFaceNoiseOptions } from "./entities/CutFaceNoiseOptions";
+export type { CutFaceUVMode } from "./entities/CutFaceUVMode";
+export type { CrackOptions } from "./entities/CrackOptions";
+export { FragmentLineage } from "./entities/FragmentLineage";
 export { SliceOptions } from "./entities/SliceOptions";
+export type {
+  AttributeFillCallback,
+  AttributeFillPolicy,
+} from "./entities/VertexAttributeChannel";
+export {
+  serializeFragments,
+  deserializeFragments,
+} from "./utils/FragmentSerialization";
+export type { BakedFragments } from "./utils/FragmentSerialization";
+export { computeMassProperties } from "./utils/MassProperties";
+export type { MassProperties } from "./utils/MassProperties";
+export { registerFractureWorker } from "./worker/FractureWorker";
+export { setFractureWorkerFactory } from "./worker/FractureWorkerClient";
+export type { FractureWorkerFactory } from "./worker/FractureWorkerClient";
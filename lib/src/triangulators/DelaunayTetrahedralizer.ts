@@ -0,0 +1,404 @@
+import { Box3, Vector2, Vector3 } from "three";
+
+/**
+ * Relative tolerance used to detect coplanar/collinear seed configurations
+ */
+const DEGENERACY_TOLERANCE = 1e-9;
+
+/**
+ * Magnitude of the deterministic perturbation applied to the points (relative
+ * to the size of the bounds). This breaks up degenerate configurations such as
+ * seeds on a regular grid, which would otherwise produce flat tetrahedra.
+ */
+const JITTER = 1e-7;
+
+/**
+ * Scale of the super simplex relative to the radius of the bounds. The super
+ * simplex vertices must be farther from the bounds than the bounds diameter so
+ * that every Voronoi facet which intersects the bounds is found.
+ */
+const SUPER_SIMPLEX_SCALE = 10;
+
+type Simplex = {
+  vertices: number[];
+  center: Float64Array;
+  radiusSq: number;
+};
+
+/**
+ * Finds the Voronoi neighbors of each point using a Delaunay tetrahedralization
+ * (or a Delaunay triangulation if all points lie on a plane, as with 2.5D seeds).
+ *
+ * Only neighbors whose shared Voronoi facet intersects `bounds` are guaranteed to
+ * be found. This is sufficient to compute the exact Voronoi cells clipped to
+ * `bounds` using half-space intersections.
+ *
+ * @param points The seed points
+ * @param bounds The region of interest. Expanded to include all points.
+ * @returns For each point, the indices of its Voronoi neighbors
+ */
+export function findDelaunayNeighbors(
+  points: Vector3[],
+  bounds: Box3,
+): number[][] {
+  const neighbors: Set<number>[] = points.map(() => new Set<number>());
+  if (points.length < 2) {
+    return neighbors.map((set) => Array.from(set));
+  }
+
+  const region = bounds.clone();
+  points.forEach((p) => region.expandByPoint(p));
+
+  // Coincident points have identical cells, so only the first of each is
+  // triangulated. Duplicates inherit the neighbors of the original point.
+  const { unique, duplicateOf } = findUniquePoints(points);
+
+  if (unique.length >= 2) {
+    const uniquePoints = unique.map((i) => points[i]);
+    const edges = triangulate(uniquePoints, region);
+    for (const [a, b] of edges) {
+      neighbors[unique[a]].add(unique[b]);
+      neighbors[unique[b]].add(unique[a]);
+    }
+  }
+
+  duplicateOf.forEach((original, i) => {
+    if (original === i) return;
+    // A duplicate is a neighbor of its original (the bisector is undefined,
+    // which leaves both cells empty, matching the all-pairs behavior)
+    for (const n of neighbors[original]) {
+      neighbors[i].add(n);
+      neighbors[n].add(i);
+    }
+    neighbors[i].add(original);
+    neighbors[original].add(i);
+  });
+
+  return neighbors.map((set) => Array.from(set).sort((a, b) => a - b));
+}
+
+/**
+ * Computes the Delaunay edges of a set of unique points, choosing a 1D, 2D or
+ * 3D algorithm based on the dimension spanned by the points
+ * @returns Array of edges as pairs of point indices
+ */
+function triangulate(points: Vector3[], region: Box3): [number, number][] {
+  const size = region.getSize(new Vector3()).length();
+  const tolerance = DEGENERACY_TOLERANCE * Math.max(size, 1e-12);
+
+  // Find three points that span the point set as well as possible
+  const p0 = points[0];
+  let i1 = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (p0.distanceToSquared(points[i]) > p0.distanceToSquared(points[i1])) {
+      i1 = i;
+    }
+  }
+  const axis = points[i1].clone().sub(p0).normalize();
+
+  let i2 = -1;
+  let maxLineDistance = tolerance;
+  for (let i = 1; i < points.length; i++) {
+    const d = points[i].clone().sub(p0);
+    const lineDistance = d
+      .sub(axis.clone().multiplyScalar(d.dot(axis)))
+      .length();
+    if (lineDistance > maxLineDistance) {
+      maxLineDistance = lineDistance;
+      i2 = i;
+    }
+  }
+
+  // All points are collinear; each point neighbors the next one along the line
+  if (i2 === -1) {
+    const order = points
+      .map((p, i) => ({ i, t: p.clone().sub(p0).dot(axis) }))
+      .sort((a, b) => a.t - b.t);
+    const edges: [number, number][] = [];
+    for (let k = 0; k + 1 < order.length; k++) {
+      edges.push([order[k].i, order[k + 1].i]);
+    }
+    return edges;
+  }
+
+  const normal = new Vector3()
+    .crossVectors(axis, points[i2].clone().sub(p0))
+    .normalize();
+
+  const isPlanar = points.every(
+    (p) => Math.abs(p.clone().sub(p0).dot(normal)) <= tolerance,
+  );
+
+  if (isPlanar) {
+    // Project the points and the region onto the plane
+    const e1 = axis;
+    const e2 = new Vector3().crossVectors(normal, e1);
+    const project = (p: Vector3) =>
+      new Vector2(p.clone().sub(p0).dot(e1), p.clone().sub(p0).dot(e2));
+
+    const corners = getBoxCorners(region).map(project);
+    return bowyerWatson(points.map(project), corners, 2);
+  }
+
+  return bowyerWatson(points, getBoxCorners(region), 3);
+}
+
+/**
+ * Incremental Bowyer-Watson Delaunay triangulation in 2 or 3 dimensions
+ * @param input The points to triangulate
+ * @param regionPoints Points spanning the region of interest
+ * @param dim The dimension (2 or 3)
+ * @returns The edges of the triangulation that don't involve the super simplex
+ */
+function bowyerWatson(
+  input: (Vector2 | Vector3)[],
+  regionPoints: (Vector2 | Vector3)[],
+  dim: 2 | 3,
+): [number, number][] {
+  const n = input.length;
+  const coords: Float64Array[] = input.map((p) =>
+    Float64Array.from(p.toArray()),
+  );
+
+  // Bounding sphere of the region of interest
+  const center = new Float64Array(dim);
+  regionPoints.forEach((p) => {
+    const c = p.toArray();
+    for (let k = 0; k < dim; k++) center[k] += c[k] / regionPoints.length;
+  });
+  let radius = 0;
+  regionPoints.forEach((p) => {
+    radius = Math.max(radius, Math.sqrt(distanceSq(center, p.toArray())));
+  });
+  radius = Math.max(radius, 1e-9);
+
+  // Deterministic jitter to avoid exactly degenerate configurations
+  let state = 12345;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  coords.forEach((c) => {
+    for (let k = 0; k < dim; k++) c[k] += random() * JITTER * radius;
+  });
+
+  // Super simplex containing a sphere of radius SUPER_SIMPLEX_SCALE * radius.
+  // A regular simplex has its vertices at `dim` times its inradius.
+  const superRadius = SUPER_SIMPLEX_SCALE * radius * dim;
+  const superVertices =
+    dim === 2
+      ? [0, 1, 2].map((k) => {
+          const angle = (2 * Math.PI * k) / 3;
+          return Float64Array.from([
+            center[0] + superRadius * Math.cos(angle),
+            center[1] + superRadius * Math.sin(angle),
+          ]);
+        })
+      : [
+          [1, 1, 1],
+          [1, -1, -1],
+          [-1, 1, -1],
+          [-1, -1, 1],
+        ].map((v) =>
+          Float64Array.from(
+            v.map((x, k) => center[k] + (superRadius / Math.sqrt(3)) * x),
+          ),
+        );
+  coords.push(...superVertices);
+
+  let simplices: Simplex[] = [
+    createSimplex(
+      superVertices.map((_, k) => n + k),
+      coords,
+      dim,
+    ),
+  ];
+
+  for (let i = 0; i < n; i++) {
+    const p = coords[i];
+
+    // Find all simplices whose circumsphere contains the point
+    const bad: Simplex[] = [];
+    const good: Simplex[] = [];
+    for (const simplex of simplices) {
+      if (distanceSq(simplex.center, p) < simplex.radiusSq) {
+        bad.push(simplex);
+      } else {
+        good.push(simplex);
+      }
+    }
+
+    // The boundary of the cavity consists of the faces that belong to
+    // exactly one bad simplex
+    const faces = new Map<string, { face: number[]; count: number }>();
+    for (const simplex of bad) {
+      for (let skip = 0; skip <= dim; skip++) {
+        const face = simplex.vertices.filter((_, k) => k !== skip);
+        const key = [...face].sort((a, b) => a - b).join(",");
+        const entry = faces.get(key);
+        if (entry) {
+          entry.count++;
+        } else {
+          faces.set(key, { face, count: 1 });
+        }
+      }
+    }
+
+    // Connect each boundary face to the new point
+    for (const { face, count } of faces.values()) {
+      if (count === 1) {
+        good.push(createSimplex([...face, i], coords, dim));
+      }
+    }
+
+    simplices = good;
+  }
+
+  // Collect the edges between input points
+  const edges = new Map<number, [number, number]>();
+  for (const simplex of simplices) {
+    const v = simplex.vertices;
+    for (let a = 0; a < v.length; a++) {
+      for (let b = a + 1; b < v.length; b++) {
+        if (v[a] >= n || v[b] >= n) continue;
+        const lo = Math.min(v[a], v[b]);
+        const hi = Math.max(v[a], v[b]);
+        edges.set(lo * n + hi, [lo, hi]);
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Creates a simplex and computes its circumsphere. Degenerate (flat) simplices
+ * are given an infinite circumsphere so they are replaced by the next insertion.
+ */
+function createSimplex(
+  vertices: number[],
+  coords: Float64Array[],
+  dim: 2 | 3,
+): Simplex {
+  const p0 = coords[vertices[0]];
+
+  // Solve 2 * (pk - p0) . c = |pk - p0|^2 for the circumcenter offset c
+  const rows: number[][] = [];
+  for (let k = 1; k <= dim; k++) {
+    const pk = coords[vertices[k]];
+    const row: number[] = [];
+    let rhs = 0;
+    for (let j = 0; j < dim; j++) {
+      const d = pk[j] - p0[j];
+      row.push(2 * d);
+      rhs += d * d;
+    }
+    row.push(rhs);
+    rows.push(row);
+  }
+
+  const offset = solveLinearSystem(rows, dim);
+  if (!offset) {
+    return {
+      vertices,
+      center: Float64Array.from(p0),
+      radiusSq: Infinity,
+    };
+  }
+
+  const center = new Float64Array(dim);
+  let radiusSq = 0;
+  for (let j = 0; j < dim; j++) {
+    center[j] = p0[j] + offset[j];
+    radiusSq += offset[j] * offset[j];
+  }
+
+  return { vertices, center, radiusSq };
+}
+
+/**
+ * Solves a small linear system using Gaussian elimination with partial pivoting
+ * @param rows Augmented matrix rows [a0, a1, ..., b]
+ * @param dim Number of unknowns
+ * @returns The solution, or null if the system is singular
+ */
+function solveLinearSystem(rows: number[][], dim: number): number[] | null {
+  let scale = 0;
+  rows.forEach((row) => {
+    for (let j = 0; j < dim; j++) scale = Math.max(scale, Math.abs(row[j]));
+  });
+  if (scale === 0) return null;
+
+  for (let col = 0; col < dim; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < dim; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12 * scale) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = col + 1; r < dim; r++) {
+      const factor = rows[r][col] / rows[col][col];
+      for (let j = col; j <= dim; j++) rows[r][j] -= factor * rows[col][j];
+    }
+  }
+
+  const x = new Array<number>(dim).fill(0);
+  for (let r = dim - 1; r >= 0; r--) {
+    let sum = rows[r][dim];
+    for (let j = r + 1; j < dim; j++) sum -= rows[r][j] * x[j];
+    x[r] = sum / rows[r][r];
+  }
+  return x;
+}
+
+/**
+ * Groups coincident points together
+ * @returns The indices of the unique points and, for each point, the index of
+ * the first point at the same location
+ */
+function findUniquePoints(points: Vector3[]): {
+  unique: number[];
+  duplicateOf: number[];
+} {
+  const unique: number[] = [];
+  const duplicateOf: number[] = [];
+  const seen = new Map<string, number>();
+
+  points.forEach((p, i) => {
+    const key = `${p.x},${p.y},${p.z}`;
+    const original = seen.get(key);
+    if (original === undefined) {
+      seen.set(key, i);
+      unique.push(i);
+      duplicateOf.push(i);
+    } else {
+      duplicateOf.push(original);
+    }
+  });
+
+  return { unique, duplicateOf };
+}
+
+function getBoxCorners(box: Box3): Vector3[] {
+  const corners: Vector3[] = [];
+  for (let i = 0; i < 8; i++) {
+    corners.push(
+      new Vector3(
+        i & 1 ? box.max.x : box.min.x,
+        i & 2 ? box.max.y : box.min.y,
+        i & 4 ? box.max.z : box.min.z,
+      ),
+    );
+  }
+  return corners;
+}
+
+function distanceSq(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let k = 0; k < a.length; k++) {
+    const d = a[k] - b[k];
+    sum += d * d;
+  }
+  return sum;
+}
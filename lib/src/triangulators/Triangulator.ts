@@ -58,6 +58,18 @@ export class Triangulator {
    */
   normal: Vector3;
 
+  /**
+   * Direction in the plane along which the first 2D coordinate of the points
+   * increases
+   */
+  tangent: Vector3;
+
+  /**
+   * Direction in the plane along which the second 2D coordinate of the points
+   * increases
+   */
+  bitangent: Vector3;
+
   /**
    * Normalization scale factor
    */
@@ -92,6 +104,9 @@ export class Triangulator {
 
       // To find the 2nd basis vector, find the largest component and swap with the smallest, negating the largest
 
+      this.tangent = e1;
+      this.bitangent = e3;
+
       // Project 3D vertex onto the 2D plane
       for (let i = 0; i < this.N; i++) {
         var position = inputPoints[i].position;
@@ -104,6 +119,8 @@ export class Triangulator {
       this.skipTriangle = [];
       this.points = [];
       this.normal = new Vector3();
+      this.tangent = new Vector3();
+      this.bitangent = new Vector3();
     }
   }
 
@@ -0,0 +1,151 @@
+import { Box3, Vector3 } from "three";
+import { findDelaunayNeighbors } from "../DelaunayTetrahedralizer";
+import { SeededRandom } from "../../utils/SeededRandom";
+
+/**
+ * Verifies that clipping each seed's cell against its neighbors alone gives the
+ * exact Voronoi cell inside the bounds. Any sample point that is closer to
+ * another seed must be rejected by the bisector of at least one neighbor.
+ */
+function expectExactCells(
+  seeds: Vector3[],
+  neighbors: number[][],
+  bounds: Box3,
+  rng: SeededRandom,
+  samples: number = 1000,
+) {
+  const size = bounds.getSize(new Vector3());
+  let mismatches = 0;
+  for (let s = 0; s < samples; s++) {
+    const x = new Vector3(
+      bounds.min.x + rng.random() * size.x,
+      bounds.min.y + rng.random() * size.y,
+      bounds.min.z + rng.random() * size.z,
+    );
+
+    let nearest = 0;
+    seeds.forEach((seed, i) => {
+      if (x.distanceTo(seed) < x.distanceTo(seeds[nearest])) nearest = i;
+    });
+
+    seeds.forEach((seed, i) => {
+      const d = x.distanceTo(seed);
+      const insideNeighborClip = neighbors[i].every(
+        (n) => d <= x.distanceTo(seeds[n]) + 1e-9,
+      );
+      const insideCell = d <= x.distanceTo(seeds[nearest]) + 1e-9;
+      if (insideNeighborClip !== insideCell) mismatches++;
+    });
+  }
+  expect(mismatches).toBe(0);
+}
+
+describe("findDelaunayNeighbors", () => {
+  const bounds = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+  test("returns no neighbors for zero or one point", () => {
+    expect(findDelaunayNeighbors([], bounds)).toEqual([]);
+    expect(findDelaunayNeighbors([new Vector3()], bounds)).toEqual([[]]);
+  });
+
+  test("two points are neighbors of each other", () => {
+    const neighbors = findDelaunayNeighbors(
+      [new Vector3(-0.5, 0, 0), new Vector3(0.5, 0, 0)],
+      bounds,
+    );
+    expect(neighbors).toEqual([[1], [0]]);
+  });
+
+  test("neighbor lists are symmetric", () => {
+    const rng = new SeededRandom(7);
+    const seeds = Array.from(
+      { length: 40 },
+      () =>
+        new Vector3(
+          rng.random() * 2 - 1,
+          rng.random() * 2 - 1,
+          rng.random() * 2 - 1,
+        ),
+    );
+    const neighbors = findDelaunayNeighbors(seeds, bounds);
+    neighbors.forEach((list, i) => {
+      expect(list).not.toContain(i);
+      list.forEach((n) => expect(neighbors[n]).toContain(i));
+    });
+  });
+
+  test("produces exact cells for random 3D seeds", () => {
+    const rng = new SeededRandom(42);
+    const seeds = Array.from(
+      { length: 30 },
+      () =>
+        new Vector3(
+          rng.random() * 2 - 1,
+          rng.random() * 2 - 1,
+          rng.random() * 2 - 1,
+        ),
+    );
+    const neighbors = findDelaunayNeighbors(seeds, bounds);
+
+    // Far fewer neighbors than all-pairs clipping
+    const average =
+      neighbors.reduce((sum, list) => sum + list.length, 0) / seeds.length;
+    expect(average).toBeLessThan(seeds.length - 1);
+
+    expectExactCells(seeds, neighbors, bounds, rng);
+  });
+
+  test("produces exact cells for seeds clustered in a corner", () => {
+    const rng = new SeededRandom(3);
+    const seeds = Array.from(
+      { length: 20 },
+      () =>
+        new Vector3(
+          0.8 + rng.random() * 0.2,
+          0.8 + rng.random() * 0.2,
+          0.8 + rng.random() * 0.2,
+        ),
+    );
+    expectExactCells(seeds, findDelaunayNeighbors(seeds, bounds), bounds, rng);
+  });
+
+  test("handles seeds on a regular grid", () => {
+    const seeds: Vector3[] = [];
+    for (let x = 0; x < 3; x++) {
+      for (let y = 0; y < 3; y++) {
+        for (let z = 0; z < 3; z++) {
+          seeds.push(new Vector3(x - 1, y - 1, z - 1).multiplyScalar(0.6));
+        }
+      }
+    }
+    const neighbors = findDelaunayNeighbors(seeds, bounds);
+    expectExactCells(seeds, neighbors, bounds, new SeededRandom(5));
+  });
+
+  test("handles coplanar (2.5D) seeds", () => {
+    const rng = new SeededRandom(11);
+    const seeds = Array.from(
+      { length: 25 },
+      () => new Vector3(rng.random() * 2 - 1, 0.2, rng.random() * 2 - 1),
+    );
+    expectExactCells(seeds, findDelaunayNeighbors(seeds, bounds), bounds, rng);
+  });
+
+  test("handles collinear seeds", () => {
+    const seeds = [0.5, -0.5, 0, 0.9].map((x) => new Vector3(x, x, 0));
+    const neighbors = findDelaunayNeighbors(seeds, bounds);
+    expect(neighbors).toEqual([[2, 3], [2], [0, 1], [0]]);
+  });
+
+  test("duplicate seeds are neighbors of each other", () => {
+    const seeds = [
+      new Vector3(0, 0, 0),
+      new Vector3(0.5, 0, 0),
+      new Vector3(0, 0, 0),
+    ];
+    const neighbors = findDelaunayNeighbors(seeds, bounds);
+    expect(neighbors[0]).toContain(2);
+    expect(neighbors[2]).toContain(0);
+    expect(neighbors[2]).toContain(1);
+  });
+});
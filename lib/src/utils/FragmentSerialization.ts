@@ -0,0 +1,479 @@
+import * as THREE from "three";
+import { FractureOptions } from "../entities/FractureOptions";
+import { SliceOptions } from "../entities/SliceOptions";
+import {
+  getCutFaceMaterialIndex,
+  getSourceOrigin,
+  setCutFaceMaterialIndex,
+  setSourceOrigin,
+} from "./GeometryConversion";
+import {
+  SerializedFractureOptions,
+  deserializeFractureOptions,
+  serializeFractureOptions,
+} from "../worker/FractureWorkerMessages";
+
+/**
+ * Identifies a baked fragment file ("PNTA" in little-endian byte order)
+ */
+const MAGIC = 0x41544e50;
+
+/**
+ * Version of the binary format. Increment when the layout changes.
+ */
+const VERSION = 1;
+
+const HAS_UVS = 1 << 0;
+const HAS_INDICES = 1 << 1;
+const HAS_16_BIT_INDICES = 1 << 2;
+const HAS_ATTRIBUTES = 1 << 3;
+const HAS_CUT_FACE_INDEX = 1 << 4;
+
+/**
+ * Attributes stored in dedicated sections of each fragment
+ */
+const BUILT_IN_ATTRIBUTES = ["position", "normal", "uv"];
+
+/**
+ * Fragments loaded from the binary format produced by `serializeFragments()`
+ */
+export interface BakedFragments {
+  /**
+   * The fragment geometries, with their material groups
+   */
+  geometries: THREE.BufferGeometry[];
+
+  /**
+   * Position of each fragment (e.g. `fragment.position` after `fracture()`)
+   */
+  offsets: THREE.Vector3[];
+
+  /**
+   * The options used to create the fragments, if they were provided when baking
+   */
+  options?: FractureOptions | SliceOptions;
+}
+
+/**
+ * JSON metadata stored in the header of the binary format
+ */
+type BakedMetadata =
+  | { type: "none" }
+  | {
+      type: "fracture";
+      options: Omit<SerializedFractureOptions, "voronoiOptions"> & {
+        voronoiOptions?: Omit<
+          NonNullable<SerializedFractureOptions["voronoiOptions"]>,
+          "seedPoints"
+        > & { seedPoints?: number[] };
+      };
+    }
+  | {
+      type: "slice";
+      textureScale: number[];
+      textureOffset: number[];
+      attributeFill?: SliceOptions["attributeFill"];
+      cutFaceNoise?: SliceOptions["cutFaceNoise"];
+      cutFaceUVMode?: SliceOptions["cutFaceUVMode"];
+      generateTangents?: boolean;
+      generateSourcePositions?: boolean;
+    };
+
+/**
+ * Serializes fracture or slice results into a compact binary format, so
+ * fragments can be baked at build time and loaded without running any
+ * fracture code.
+ *
+ * The format stores the positions, normals, UVs, any other vertex attributes,
+ * indices, material groups, cut-face material index and source origin of
+ * each geometry, along with the fragment
+ * offsets and the options used. Indices are stored as 16-bit integers when
+ * possible. Callback attribute fill policies are not stored.
+ *
+ * ```ts
+ * const fragments = mesh.fracture(options);
+ * const data = serializeFragments(
+ *   fragments.map((f) => f.geometry),
+ *   { offsets: fragments.map((f) => f.position), options },
+ * );
+ * ```
+ * @param geometries The fragment geometries
+ * @param offsets Position of each fragment (defaults to the origin)
+ * @param options The options used to create the fragments. Set `seed` in the
+ * fracture options to make the baked result reproducible.
+ * @returns The serialized fragments
+ */
+export function serializeFragments(
+  geometries: THREE.BufferGeometry[],
+  {
+    offsets,
+    options,
+  }: {
+    offsets?: THREE.Vector3[];
+    options?: FractureOptions | SliceOptions;
+  } = {},
+): ArrayBuffer {
+  if (offsets && offsets.length !== geometries.length) {
+    throw new Error("Expected one offset per fragment geometry");
+  }
+
+  const metadata = new TextEncoder().encode(
+    JSON.stringify(serializeMetadata(options)),
+  );
+
+  // Compute the total size up front so the data can be written in one pass
+  let byteLength = 16 + align4(metadata.byteLength);
+  for (const geometry of geometries) {
+    const { position, uv, extra } = getAttributes(geometry);
+    const vertexCount = position.count;
+    byteLength += 16 + 48; // Flags, counts, offset and source origin
+    byteLength += vertexCount * 6 * 4; // Positions and normals
+    if (uv) byteLength += vertexCount * 2 * 4;
+    if (extra.length > 0) {
+      byteLength += 4;
+      for (const { name, attribute } of extra) {
+        byteLength += 8 + align4(name.byteLength);
+        byteLength += attribute.count * attribute.itemSize * 4;
+      }
+    }
+    if (geometry.index) {
+      const bytesPerIndex = vertexCount <= 0xffff ? 2 : 4;
+      byteLength += align4(geometry.index.count * bytesPerIndex);
+    }
+    byteLength += geometry.groups.length * 3 * 4;
+    if (getCutFaceMaterialIndex(geometry) !== undefined) byteLength += 4;
+  }
+
+  const buffer = new ArrayBuffer(byteLength);
+  const view = new DataView(buffer);
+  let cursor = 0;
+
+  const writeUint32 = (value: number) => {
+    view.setUint32(cursor, value, true);
+    cursor += 4;
+  };
+
+  const writeFloat32Array = (array: ArrayLike<number>) => {
+    for (let i = 0; i < array.length; i++) {
+      view.setFloat32(cursor, array[i], true);
+      cursor += 4;
+    }
+  };
+
+  writeUint32(MAGIC);
+  writeUint32(VERSION);
+  writeUint32(geometries.length);
+  writeUint32(metadata.byteLength);
+  new Uint8Array(buffer, cursor, metadata.byteLength).set(metadata);
+  cursor += align4(metadata.byteLength);
+
+  geometries.forEach((geometry, i) => {
+    const { position, normal, uv, extra } = getAttributes(geometry);
+    const index = geometry.index;
+    const vertexCount = position.count;
+    const use16BitIndices = vertexCount <= 0xffff;
+    const cutFaceIndex = getCutFaceMaterialIndex(geometry);
+
+    let flags = 0;
+    if (uv) flags |= HAS_UVS;
+    if (extra.length > 0) flags |= HAS_ATTRIBUTES;
+    if (index) flags |= HAS_INDICES;
+    if (index && use16BitIndices) flags |= HAS_16_BIT_INDICES;
+    if (cutFaceIndex !== undefined) flags |= HAS_CUT_FACE_INDEX;
+
+    writeUint32(flags);
+    writeUint32(vertexCount);
+    writeUint32(index ? index.count : 0);
+    writeUint32(geometry.groups.length);
+
+    // Offsets are world positions, so keep them at full precision
+    const offset = offsets ? offsets[i] : new THREE.Vector3();
+    for (const value of offset.toArray()) {
+      view.setFloat64(cursor, value, true);
+      cursor += 8;
+    }
+
+    // Keeps object-space cut-face UVs and source positions continuous when
+    // the loaded fragment is refractured
+    for (const value of getSourceOrigin(geometry).toArray()) {
+      view.setFloat64(cursor, value, true);
+      cursor += 8;
+    }
+
+    writeFloat32Array(position.array);
+    writeFloat32Array(normal.array);
+    if (uv) writeFloat32Array(uv.array);
+
+    if (extra.length > 0) {
+      writeUint32(extra.length);
+      for (const { name, attribute } of extra) {
+        writeUint32(attribute.itemSize);
+        writeUint32(name.byteLength);
+        new Uint8Array(buffer, cursor, name.byteLength).set(name);
+        cursor += align4(name.byteLength);
+        for (let j = 0; j < attribute.count; j++) {
+          for (let k = 0; k < attribute.itemSize; k++) {
+            view.setFloat32(cursor, attribute.getComponent(j, k), true);
+            cursor += 4;
+          }
+        }
+      }
+    }
+
+    if (index) {
+      for (let j = 0; j < index.count; j++) {
+        if (use16BitIndices) {
+          view.setUint16(cursor, index.getX(j), true);
+          cursor += 2;
+        } else {
+          view.setUint32(cursor, index.getX(j), true);
+          cursor += 4;
+        }
+      }
+      cursor = align4(cursor);
+    }
+
+    for (const group of geometry.groups) {
+      writeUint32(group.start);
+      writeUint32(group.count);
+      writeUint32(group.materialIndex ?? 0);
+    }
+
+    if (cutFaceIndex !== undefined) writeUint32(cutFaceIndex);
+  });
+
+  return buffer;
+}
+
+/**
+ * Loads fragments from the binary format produced by `serializeFragments()`
+ * @param data The serialized fragments (e.g. the result of `fetch().arrayBuffer()`
+ * or `fs.readFileSync()`)
+ * @returns The fragment geometries, offsets and options
+ */
+export function deserializeFragments(
+  data: ArrayBuffer | ArrayBufferView,
+): BakedFragments {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+  let cursor = 0;
+
+  const readUint32 = () => {
+    const value = view.getUint32(cursor, true);
+    cursor += 4;
+    return value;
+  };
+
+  const readFloat32Array = (length: number) => {
+    const array = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      array[i] = view.getFloat32(cursor, true);
+      cursor += 4;
+    }
+    return array;
+  };
+
+  if (view.byteLength < 16 || readUint32() !== MAGIC) {
+    throw new Error("Data is not in the baked fragment format");
+  }
+
+  const version = readUint32();
+  if (version !== VERSION) {
+    throw new Error(`Unsupported baked fragment format version ${version}`);
+  }
+
+  const fragmentCount = readUint32();
+  const metadataLength = readUint32();
+  const metadata = JSON.parse(
+    new TextDecoder().decode(
+      new Uint8Array(view.buffer, view.byteOffset + cursor, metadataLength),
+    ),
+  ) as BakedMetadata;
+  cursor += align4(metadataLength);
+
+  const geometries: THREE.BufferGeometry[] = [];
+  const offsets: THREE.Vector3[] = [];
+
+  for (let i = 0; i < fragmentCount; i++) {
+    const flags = readUint32();
+    const vertexCount = readUint32();
+    const indexCount = readUint32();
+    const groupCount = readUint32();
+
+    const offset = new THREE.Vector3();
+    for (let j = 0; j < 3; j++) {
+      offset.setComponent(j, view.getFloat64(cursor, true));
+      cursor += 8;
+    }
+    offsets.push(offset);
+
+    const sourceOrigin = new THREE.Vector3();
+    for (let j = 0; j < 3; j++) {
+      sourceOrigin.setComponent(j, view.getFloat64(cursor, true));
+      cursor += 8;
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(readFloat32Array(vertexCount * 3), 3),
+    );
+    geometry.setAttribute(
+      "normal",
+      new THREE.BufferAttribute(readFloat32Array(vertexCount * 3), 3),
+    );
+
+    if (flags & HAS_UVS) {
+      geometry.setAttribute(
+        "uv",
+        new THREE.BufferAttribute(readFloat32Array(vertexCount * 2), 2),
+      );
+    }
+
+    if (flags & HAS_ATTRIBUTES) {
+      const attributeCount = readUint32();
+      for (let j = 0; j < attributeCount; j++) {
+        const itemSize = readUint32();
+        const nameLength = readUint32();
+        const name = new TextDecoder().decode(
+          new Uint8Array(view.buffer, view.byteOffset + cursor, nameLength),
+        );
+        cursor += align4(nameLength);
+        geometry.setAttribute(
+          name,
+          new THREE.BufferAttribute(
+            readFloat32Array(vertexCount * itemSize),
+            itemSize,
+          ),
+        );
+      }
+    }
+
+    if (flags & HAS_INDICES) {
+      const indices = new Uint32Array(indexCount);
+      for (let j = 0; j < indexCount; j++) {
+        if (flags & HAS_16_BIT_INDICES) {
+          indices[j] = view.getUint16(cursor, true);
+          cursor += 2;
+        } else {
+          indices[j] = view.getUint32(cursor, true);
+          cursor += 4;
+        }
+      }
+      cursor = align4(cursor);
+      geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+    }
+
+    for (let j = 0; j < groupCount; j++) {
+      geometry.addGroup(readUint32(), readUint32(), readUint32());
+    }
+
+    if (flags & HAS_CUT_FACE_INDEX) {
+      setCutFaceMaterialIndex(geometry, readUint32());
+    }
+
+    setSourceOrigin(geometry, sourceOrigin);
+
+    geometries.push(geometry);
+  }
+
+  return {
+    geometries,
+    offsets,
+    options: deserializeMetadata(metadata),
+  };
+}
+
+/**
+ * Returns the attributes of a fragment geometry, validating that the
+ * required attributes are present
+ */
+function getAttributes(geometry: THREE.BufferGeometry) {
+  const position = geometry.attributes.position;
+  const normal = geometry.attributes.normal;
+  const uv = geometry.attributes.uv;
+
+  if (!position || !normal) {
+    throw new Error("Geometry must have position and normal attributes");
+  }
+
+  // Any other attributes, with their names encoded as UTF-8
+  const extra = Object.entries(geometry.attributes)
+    .filter(([name]) => !BUILT_IN_ATTRIBUTES.includes(name))
+    .map(([name, attribute]) => ({
+      name: new TextEncoder().encode(name),
+      attribute,
+    }));
+
+  return { position, normal, uv, extra };
+}
+
+function serializeMetadata(
+  options?: FractureOptions | SliceOptions,
+): BakedMetadata {
+  if (options instanceof FractureOptions) {
+    const { voronoiOptions, ...rest } = serializeFractureOptions(options);
+    return {
+      type: "fracture",
+      options: {
+        ...rest,
+        voronoiOptions: voronoiOptions && {
+          ...voronoiOptions,
+          // Typed arrays don't survive JSON.stringify
+          seedPoints: voronoiOptions.seedPoints
+            ? Array.from(voronoiOptions.seedPoints)
+            : undefined,
+        },
+      },
+    };
+  } else if (options instanceof SliceOptions) {
+    return {
+      type: "slice",
+      textureScale: options.textureScale.toArray(),
+      textureOffset: options.textureOffset.toArray(),
+      attributeFill: options.attributeFill,
+      cutFaceNoise: options.cutFaceNoise,
+      cutFaceUVMode: options.cutFaceUVMode,
+      generateTangents: options.generateTangents,
+      generateSourcePositions: options.generateSourcePositions,
+    };
+  }
+  return { type: "none" };
+}
+
+function deserializeMetadata(
+  metadata: BakedMetadata,
+): FractureOptions | SliceOptions | undefined {
+  if (metadata.type === "fracture") {
+    const { voronoiOptions, ...rest } = metadata.options;
+    return deserializeFractureOptions({
+      ...rest,
+      voronoiOptions: voronoiOptions && {
+        ...voronoiOptions,
+        seedPoints: voronoiOptions.seedPoints
+          ? Float64Array.from(voronoiOptions.seedPoints)
+          : undefined,
+      },
+    });
+  } else if (metadata.type === "slice") {
+    const options = new SliceOptions();
+    options.textureScale.fromArray(metadata.textureScale);
+    options.textureOffset.fromArray(metadata.textureOffset);
+    if (metadata.attributeFill) {
+      options.attributeFill = metadata.attributeFill;
+    }
+    options.cutFaceNoise = metadata.cutFaceNoise;
+    if (metadata.cutFaceUVMode) {
+      options.cutFaceUVMode = metadata.cutFaceUVMode;
+    }
+    options.generateTangents = metadata.generateTangents ?? false;
+    options.generateSourcePositions = metadata.generateSourcePositions ?? false;
+    return options;
+  }
+  return undefined;
+}
+
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
@@ -2,16 +2,65 @@ import * as THREE from "three";
 import { Vector2, Vector3 } from "three";
 import { Fragment } from "../entities/Fragment";
 import { MeshVertex } from "../entities/MeshVertex";
+import {
+  AttributeFillPolicy,
+  VertexAttributeChannel,
+} from "../entities/VertexAttributeChannel";
 
 /**
- * Converts a THREE.BufferGeometry to our internal Fragment representation
+ * Attributes that are stored directly on each MeshVertex rather than as
+ * generic attribute channels
  */
-export function geometryToFragment(geometry: THREE.BufferGeometry): Fragment {
+const BUILT_IN_ATTRIBUTES = ["position", "normal", "uv"];
+
+/**
+ * Converts a THREE.BufferGeometry to our internal Fragment representation.
+ * Attributes other than position, normal and uv are carried as generic
+ * attribute channels.
+ * @param geometry The geometry to convert
+ * @param attributeFill How each additional attribute is filled in on the cut
+ * faces, by attribute name. Attributes not listed are interpolated.
+ * @param generateTangents If true, the fragment carries a `tangent` attribute,
+ * which is computed from the UV coordinates if the geometry doesn't have one
+ * and is derived from the cut plane on the cut faces
+ * @param generateSourcePositions If true, the fragment carries a
+ * `sourcePosition` attribute with the position of each vertex in the local
+ * space of the original mesh
+ */
+export function geometryToFragment(
+  geometry: THREE.BufferGeometry,
+  attributeFill: Record<string, AttributeFillPolicy> = {},
+  generateTangents: boolean = false,
+  generateSourcePositions: boolean = false,
+): Fragment {
+  if (generateTangents) {
+    geometry = withTangents(geometry);
+    attributeFill = { tangent: "tangent", ...attributeFill };
+  }
+  if (generateSourcePositions) {
+    geometry = withSourcePositions(geometry);
+    attributeFill = { sourcePosition: "sourcePosition", ...attributeFill };
+  }
+
   const positions = geometry.attributes.position.array as Float32Array;
   const normals = geometry.attributes.normal.array as Float32Array;
   const uvs = geometry.attributes.uv?.array as Float32Array;
 
   const fragment = new Fragment();
+  fragment.sourceOrigin = getSourceOrigin(geometry);
+
+  let attributeSize = 0;
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (BUILT_IN_ATTRIBUTES.includes(name)) continue;
+    fragment.attributes.push({
+      name,
+      itemSize: attribute.itemSize,
+      offset: attributeSize,
+      fill: attributeFill[name] ?? "interpolate",
+    });
+    attributeSize += attribute.itemSize;
+  }
+
   for (let i = 0; i < positions.length / 3; i++) {
     const position = new Vector3(
       positions[3 * i],
@@ -29,7 +78,14 @@ export function geometryToFragment(geometry: THREE.BufferGeometry): Fragment {
       ? new Vector2(uvs[2 * i], uvs[2 * i + 1])
       : new Vector2(0, 0);
 
-    fragment.vertices.push(new MeshVertex(position, normal, uv));
+    fragment.vertices.push(
+      new MeshVertex(
+        position,
+        normal,
+        uv,
+        readAttributes(geometry, fragment.attributes, attributeSize, i),
+      ),
+    );
   }
 
   // Generate index if it doesn't exist
@@ -42,25 +98,32 @@ export function geometryToFragment(geometry: THREE.BufferGeometry): Fragment {
     indices = Array.from({ length: vertexCount }, (_, i) => i);
   }
 
-  // Preserve material groups if geometry has been previously sliced
-  if (geometry.groups && geometry.groups.length === 2) {
-    // Split indices into two groups based on material groups
-    const group0Indices: number[] = [];
-    const group1Indices: number[] = [];
+  if (geometry.groups && geometry.groups.length > 0) {
+    // One submesh per material index, followed by the cut faces. Geometry
+    // that has been previously sliced marks which material index holds the
+    // cut faces.
+    const cutFaceIndex = getCutFaceMaterialIndex(geometry);
+    const sourceCount =
+      cutFaceIndex ??
+      Math.max(...geometry.groups.map((group) => group.materialIndex ?? 0)) + 1;
+
+    fragment.triangles = Array.from({ length: sourceCount + 1 }, () => []);
 
     for (const group of geometry.groups) {
-      const targetArray = group.materialIndex === 0 ? group0Indices : group1Indices;
+      const materialIndex = group.materialIndex ?? 0;
+      const targetArray =
+        fragment.triangles[
+          materialIndex === cutFaceIndex ? sourceCount : materialIndex
+        ];
       const start = group.start;
-      const end = start + group.count;
+      const end = Math.min(start + group.count, indices.length);
 
       for (let i = start; i < end; i++) {
         targetArray.push(indices[i]);
       }
     }
-
-    fragment.triangles = [group0Indices, group1Indices];
   } else {
-    // No groups or single group - treat as unsliced geometry
+    // No groups - treat as unsliced geometry with a single material
     fragment.triangles = [indices, []];
   }
 
@@ -70,7 +133,9 @@ export function geometryToFragment(geometry: THREE.BufferGeometry): Fragment {
 }
 
 /**
- * Converts our internal Fragment representation to a THREE.BufferGeometry
+ * Converts our internal Fragment representation to a THREE.BufferGeometry.
+ * Each submesh is written as a group whose material index is the submesh
+ * index, so the cut faces use the last material index.
  */
 export function fragmentToGeometry(fragment: Fragment): THREE.BufferGeometry {
   const geometry = new THREE.BufferGeometry();
@@ -112,12 +177,13 @@ export function fragmentToGeometry(fragment: Fragment): THREE.BufferGeometry {
     uvs[uvIdx++] = vert.uv.y;
   }
 
-  geometry.addGroup(0, fragment.triangles[0].length, 0);
-  geometry.addGroup(
-    fragment.triangles[0].length,
-    fragment.triangles[1].length,
-    1,
-  );
+  let groupStart = 0;
+  fragment.triangles.forEach((triangles, subMesh) => {
+    geometry.addGroup(groupStart, triangles.length, subMesh);
+    groupStart += triangles.length;
+  });
+  setCutFaceMaterialIndex(geometry, fragment.cutFaceSubmesh);
+  setSourceOrigin(geometry, fragment.sourceOrigin);
 
   geometry.setAttribute(
     "position",
@@ -135,5 +201,171 @@ export function fragmentToGeometry(fragment: Fragment): THREE.BufferGeometry {
     new THREE.BufferAttribute(new Uint32Array(fragment.triangles.flat()), 1),
   );
 
+  // Write the additional attributes of the non-cut-face and cut-face vertices
+  const vertices = [...fragment.vertices, ...fragment.cutVertices];
+  for (const { name, itemSize, offset } of fragment.attributes) {
+    const array = new Float32Array(vertexCount * itemSize);
+    vertices.forEach((vert, i) => {
+      for (let j = 0; j < itemSize; j++) {
+        array[i * itemSize + j] = vert.attributes[offset + j];
+      }
+    });
+    geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  }
+
   return geometry;
 }
+
+/**
+ * Returns the material index of the cut faces of a fragment geometry, or
+ * undefined if the geometry has not been sliced or fractured
+ * @param geometry The geometry to check
+ */
+export function getCutFaceMaterialIndex(
+  geometry: THREE.BufferGeometry,
+): number | undefined {
+  const index = geometry.userData.cutFaceMaterialIndex;
+  return typeof index === "number" ? index : undefined;
+}
+
+/**
+ * Marks the material index of the cut faces of a fragment geometry
+ * @param geometry The geometry to mark
+ * @param index The material index of the cut faces, or undefined to clear the mark
+ */
+export function setCutFaceMaterialIndex(
+  geometry: THREE.BufferGeometry,
+  index: number | undefined,
+): void {
+  if (index === undefined) {
+    delete geometry.userData.cutFaceMaterialIndex;
+  } else {
+    geometry.userData.cutFaceMaterialIndex = index;
+  }
+}
+
+/**
+ * Returns the position of the local origin of a fragment geometry in the local
+ * space of the original (unfractured) mesh. This is the zero vector for
+ * geometries that have not been re-centered.
+ * @param geometry The geometry to check
+ */
+export function getSourceOrigin(geometry: THREE.BufferGeometry): Vector3 {
+  const origin = geometry.userData.sourceOrigin;
+  return Array.isArray(origin)
+    ? new Vector3().fromArray(origin)
+    : new Vector3();
+}
+
+/**
+ * Records the position of the local origin of a fragment geometry in the
+ * local space of the original mesh. Call this whenever the geometry is
+ * translated, so cut-face textures stay continuous when it is refractured.
+ * @param geometry The geometry to mark
+ * @param origin The position of the local origin in the original mesh
+ */
+export function setSourceOrigin(
+  geometry: THREE.BufferGeometry,
+  origin: Vector3,
+): void {
+  geometry.userData.sourceOrigin = origin.toArray();
+}
+
+/**
+ * Merges the groups of all source materials of a fragment geometry into a
+ * single group with material index 0, and moves the cut faces to material
+ * index 1. Used when every source material is rendered with the same
+ * material, so fragments need only two draw calls.
+ * @param geometry The fragment geometry to update
+ */
+export function mergeSourceMaterialGroups(
+  geometry: THREE.BufferGeometry,
+): void {
+  const cutFaceIndex = getCutFaceMaterialIndex(geometry);
+  if (cutFaceIndex === undefined || cutFaceIndex <= 1) return;
+
+  // Groups written by fragmentToGeometry() are contiguous and ordered by
+  // material index, with the cut faces last
+  const cutFaceGroup = geometry.groups.find(
+    (group) => group.materialIndex === cutFaceIndex,
+  );
+  if (!cutFaceGroup) return;
+
+  geometry.clearGroups();
+  geometry.addGroup(0, cutFaceGroup.start, 0);
+  geometry.addGroup(cutFaceGroup.start, cutFaceGroup.count, 1);
+  setCutFaceMaterialIndex(geometry, 1);
+}
+
+/**
+ * Returns the geometry with a tangent attribute, computing the tangents from
+ * the UV coordinates if the geometry doesn't have any
+ */
+function withTangents(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  if (geometry.attributes.tangent) return geometry;
+
+  const { position, normal, uv } = geometry.attributes;
+  if (!uv) {
+    throw new Error("Generating tangents requires UV coordinates");
+  }
+
+  // computeTangents() needs an index, so work on a shallow copy
+  const source = new THREE.BufferGeometry();
+  source.setAttribute("position", position);
+  source.setAttribute("normal", normal);
+  source.setAttribute("uv", uv);
+  source.setIndex(
+    geometry.index ??
+      Array.from({ length: position.count }, (_, index) => index),
+  );
+  source.computeTangents();
+
+  const result = geometry.clone();
+  result.setAttribute("tangent", source.attributes.tangent);
+  return result;
+}
+
+/**
+ * Returns the geometry with a sourcePosition attribute, computing the
+ * positions from the source origin if the geometry doesn't have any
+ */
+function withSourcePositions(
+  geometry: THREE.BufferGeometry,
+): THREE.BufferGeometry {
+  if (geometry.attributes.sourcePosition) return geometry;
+
+  const origin = getSourceOrigin(geometry);
+  const sourcePositions = geometry.attributes.position.clone();
+  for (let i = 0; i < sourcePositions.count; i++) {
+    sourcePositions.setXYZ(
+      i,
+      sourcePositions.getX(i) + origin.x,
+      sourcePositions.getY(i) + origin.y,
+      sourcePositions.getZ(i) + origin.z,
+    );
+  }
+
+  const result = geometry.clone();
+  result.setAttribute("sourcePosition", sourcePositions);
+  return result;
+}
+
+/**
+ * Reads the values of the attribute channels for a single vertex
+ */
+function readAttributes(
+  geometry: THREE.BufferGeometry,
+  channels: VertexAttributeChannel[],
+  attributeSize: number,
+  index: number,
+): number[] {
+  const values = new Array<number>(attributeSize);
+  for (const { name, itemSize, offset } of channels) {
+    const attribute = geometry.attributes[name];
+    for (let j = 0; j < itemSize; j++) {
+      // getComponent() converts normalized integer data to floats
+      values[offset + j] = attribute.getComponent(index, j);
+    }
+  }
+  return values;
+}
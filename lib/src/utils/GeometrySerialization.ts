@@ -0,0 +1,167 @@
+import * as THREE from "three";
+import {
+  getCutFaceMaterialIndex,
+  getSourceOrigin,
+  setCutFaceMaterialIndex,
+  setSourceOrigin,
+} from "./GeometryConversion";
+
+/**
+ * Plain-data representation of a THREE.BufferGeometry that can be posted to a
+ * Web Worker. All buffers are typed arrays so they can be transferred rather
+ * than copied.
+ */
+export interface SerializedGeometry {
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs?: Float32Array;
+  indices?: Uint32Array;
+  /**
+   * Material groups stored as [start, count, materialIndex] triplets
+   */
+  groups: Uint32Array;
+  /**
+   * Material index of the cut faces, if the geometry is a fragment
+   */
+  cutFaceMaterialIndex?: number;
+  /**
+   * Position of the local origin in the original mesh, if the geometry is a
+   * fragment
+   */
+  sourceOrigin?: [number, number, number];
+  /**
+   * Any other vertex attributes (e.g. colors or secondary UVs)
+   */
+  attributes?: SerializedAttribute[];
+}
+
+/**
+ * Plain-data representation of a vertex attribute
+ */
+export interface SerializedAttribute {
+  name: string;
+  itemSize: number;
+  array: Float32Array;
+}
+
+/**
+ * Attributes stored in dedicated fields of SerializedGeometry
+ */
+const BUILT_IN_ATTRIBUTES = ["position", "normal", "uv"];
+
+/**
+ * Converts a THREE.BufferGeometry into a SerializedGeometry. The attribute
+ * data is copied so the source geometry is left untouched when the buffers
+ * are transferred.
+ * @param geometry The geometry to serialize
+ * @returns The serialized geometry
+ */
+export function serializeGeometry(
+  geometry: THREE.BufferGeometry,
+): SerializedGeometry {
+  const position = geometry.attributes.position;
+  const normal = geometry.attributes.normal;
+  const uv = geometry.attributes.uv;
+
+  if (!position || !normal) {
+    throw new Error("Geometry must have position and normal attributes");
+  }
+
+  const groups = new Uint32Array(geometry.groups.length * 3);
+  geometry.groups.forEach((group, i) => {
+    groups[3 * i] = group.start;
+    groups[3 * i + 1] = group.count;
+    groups[3 * i + 2] = group.materialIndex ?? 0;
+  });
+
+  const attributes: SerializedAttribute[] = [];
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (BUILT_IN_ATTRIBUTES.includes(name)) continue;
+    const array = new Float32Array(attribute.count * attribute.itemSize);
+    for (let i = 0; i < attribute.count; i++) {
+      for (let j = 0; j < attribute.itemSize; j++) {
+        array[i * attribute.itemSize + j] = attribute.getComponent(i, j);
+      }
+    }
+    attributes.push({ name, itemSize: attribute.itemSize, array });
+  }
+
+  return {
+    positions: new Float32Array(position.array),
+    normals: new Float32Array(normal.array),
+    uvs: uv ? new Float32Array(uv.array) : undefined,
+    indices: geometry.index ? new Uint32Array(geometry.index.array) : undefined,
+    groups,
+    cutFaceMaterialIndex: getCutFaceMaterialIndex(geometry),
+    sourceOrigin: getSourceOrigin(geometry).toArray(),
+    attributes,
+  };
+}
+
+/**
+ * Rebuilds a THREE.BufferGeometry from a SerializedGeometry. The typed arrays
+ * are used directly without copying.
+ * @param data The serialized geometry
+ * @returns The reconstructed geometry
+ */
+export function deserializeGeometry(
+  data: SerializedGeometry,
+): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+
+  geometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(data.positions, 3),
+  );
+  geometry.setAttribute("normal", new THREE.BufferAttribute(data.normals, 3));
+
+  if (data.uvs) {
+    geometry.setAttribute("uv", new THREE.BufferAttribute(data.uvs, 2));
+  }
+
+  for (const { name, itemSize, array } of data.attributes ?? []) {
+    geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  }
+
+  if (data.indices) {
+    geometry.setIndex(new THREE.BufferAttribute(data.indices, 1));
+  }
+
+  for (let i = 0; i < data.groups.length; i += 3) {
+    geometry.addGroup(data.groups[i], data.groups[i + 1], data.groups[i + 2]);
+  }
+  setCutFaceMaterialIndex(geometry, data.cutFaceMaterialIndex);
+  if (data.sourceOrigin) {
+    setSourceOrigin(geometry, new THREE.Vector3(...data.sourceOrigin));
+  }
+
+  return geometry;
+}
+
+/**
+ * Returns the list of buffers backing a serialized geometry so they can be
+ * passed as the transfer list to postMessage()
+ * @param data The serialized geometry
+ * @returns Array of transferable buffers
+ */
+export function getTransferables(data: SerializedGeometry): ArrayBuffer[] {
+  const buffers: ArrayBuffer[] = [
+    data.positions.buffer as ArrayBuffer,
+    data.normals.buffer as ArrayBuffer,
+    data.groups.buffer as ArrayBuffer,
+  ];
+
+  if (data.uvs) {
+    buffers.push(data.uvs.buffer as ArrayBuffer);
+  }
+
+  if (data.indices) {
+    buffers.push(data.indices.buffer as ArrayBuffer);
+  }
+
+  for (const attribute of data.attributes ?? []) {
+    buffers.push(attribute.array.buffer as ArrayBuffer);
+  }
+
+  return buffers;
+}
@@ -0,0 +1,167 @@
+import * as THREE from "three";
+import { getCutFaceMaterialIndex } from "./GeometryConversion";
+
+/**
+ * Physical properties of a closed fragment
+ */
+export interface MassProperties {
+  /**
+   * Signed volume enclosed by the triangles. Negative if the triangles are
+   * wound inside-out.
+   */
+  volume: number;
+
+  /**
+   * Mass of the fragment (volume * density)
+   */
+  mass: number;
+
+  /**
+   * Center of mass in the local space of the geometry
+   */
+  centroid: THREE.Vector3;
+
+  /**
+   * Total area of all triangles, including the cut faces
+   */
+  surfaceArea: number;
+
+  /**
+   * Area of the cut faces. 0 for geometry that has not been sliced or fractured.
+   */
+  cutFaceArea: number;
+
+  /**
+   * Inertia tensor about the center of mass, aligned with the local axes of
+   * the geometry
+   */
+  inertiaTensor: THREE.Matrix3;
+}
+
+/**
+ * Computes the volume, center of mass, surface area and inertia tensor of a
+ * closed geometry, assuming uniform density. The geometry is decomposed into
+ * tetrahedra formed by each triangle and the origin, so it must be watertight
+ * for the results to be meaningful.
+ * @param geometry The fragment geometry
+ * @param density Density of the material
+ * @returns The mass properties of the geometry
+ */
+export function computeMassProperties(
+  geometry: THREE.BufferGeometry,
+  density: number = 1,
+): MassProperties {
+  const position = geometry.attributes.position;
+  const index = geometry.index;
+  const triangleCount = (index ? index.count : position.count) / 3;
+
+  // Flag the triangles in the cut-face group
+  const cutFaceIndex = getCutFaceMaterialIndex(geometry);
+  const isCutFace = new Uint8Array(triangleCount);
+  for (const group of geometry.groups) {
+    if (cutFaceIndex === undefined || group.materialIndex !== cutFaceIndex) {
+      continue;
+    }
+    const end = Math.min(group.start + group.count, triangleCount * 3);
+    for (let i = group.start; i < end; i += 3) {
+      isCutFace[i / 3] = 1;
+    }
+  }
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+
+  let volume = 0;
+  let surfaceArea = 0;
+  let cutFaceArea = 0;
+  const firstMoment = new THREE.Vector3();
+  // Second moments: xx, yy, zz, xy, yz, zx
+  const secondMoment = [0, 0, 0, 0, 0, 0];
+
+  for (let t = 0; t < triangleCount; t++) {
+    const i0 = index ? index.getX(3 * t) : 3 * t;
+    const i1 = index ? index.getX(3 * t + 1) : 3 * t + 1;
+    const i2 = index ? index.getX(3 * t + 2) : 3 * t + 2;
+    a.fromBufferAttribute(position, i0);
+    b.fromBufferAttribute(position, i1);
+    c.fromBufferAttribute(position, i2);
+
+    const area = cross.subVectors(b, a).cross(c.clone().sub(a)).length() / 2;
+    surfaceArea += area;
+    if (isCutFace[t]) {
+      cutFaceArea += area;
+    }
+
+    // Signed volume of the tetrahedron (origin, a, b, c) times 6
+    const det = a.dot(cross.crossVectors(b, c));
+    volume += det / 6;
+
+    firstMoment.x += (det * (a.x + b.x + c.x)) / 24;
+    firstMoment.y += (det * (a.y + b.y + c.y)) / 24;
+    firstMoment.z += (det * (a.z + b.z + c.z)) / 24;
+
+    secondMoment[0] += det * secondMomentFactor(a.x, b.x, c.x, a.x, b.x, c.x);
+    secondMoment[1] += det * secondMomentFactor(a.y, b.y, c.y, a.y, b.y, c.y);
+    secondMoment[2] += det * secondMomentFactor(a.z, b.z, c.z, a.z, b.z, c.z);
+    secondMoment[3] += det * secondMomentFactor(a.x, b.x, c.x, a.y, b.y, c.y);
+    secondMoment[4] += det * secondMomentFactor(a.y, b.y, c.y, a.z, b.z, c.z);
+    secondMoment[5] += det * secondMomentFactor(a.z, b.z, c.z, a.x, b.x, c.x);
+  }
+
+  // Fall back to the bounding box center for degenerate (e.g. open) geometry
+  const centroid = new THREE.Vector3();
+  if (Math.abs(volume) > 1e-12) {
+    centroid.copy(firstMoment).divideScalar(volume);
+  } else {
+    geometry.computeBoundingBox();
+    geometry.boundingBox!.getCenter(centroid);
+  }
+
+  // Move the second moments to the center of mass
+  const xx = secondMoment[0] - volume * centroid.x * centroid.x;
+  const yy = secondMoment[1] - volume * centroid.y * centroid.y;
+  const zz = secondMoment[2] - volume * centroid.z * centroid.z;
+  const xy = secondMoment[3] - volume * centroid.x * centroid.y;
+  const yz = secondMoment[4] - volume * centroid.y * centroid.z;
+  const zx = secondMoment[5] - volume * centroid.z * centroid.x;
+
+  const inertiaTensor = new THREE.Matrix3()
+    .set(yy + zz, -xy, -zx, -xy, xx + zz, -yz, -zx, -yz, xx + yy)
+    .multiplyScalar(density);
+
+  return {
+    volume,
+    mass: volume * density,
+    centroid,
+    surfaceArea,
+    cutFaceArea,
+    inertiaTensor,
+  };
+}
+
+/**
+ * Integral of x_i * x_j over the tetrahedron (origin, a, b, c), divided by the
+ * determinant of [a b c]. (ai, bi, ci) are the i-th components of the
+ * vertices and (aj, bj, cj) the j-th components.
+ */
+function secondMomentFactor(
+  ai: number,
+  bi: number,
+  ci: number,
+  aj: number,
+  bj: number,
+  cj: number,
+): number {
+  return (
+    (2 * (ai * aj + bi * bj + ci * cj) +
+      ai * bj +
+      ai * cj +
+      bi * aj +
+      bi * cj +
+      ci * aj +
+      ci * bj) /
+    120
+  );
+}
@@ -1,5 +1,50 @@
-import { Vector3, Box3 } from "three";
+import { Vector3, Box3, Ray } from "three";
 import { SeededRandom } from "./SeededRandom";
+import { SurfacePoint, SurfaceSampler } from "./SurfaceSampler";
+
+/**
+ * Number of candidates in a row that Poisson-disk sampling may reject before
+ * it shrinks the minimum distance
+ */
+const MAX_POISSON_ATTEMPTS = 100;
+
+/**
+ * Factor the minimum distance is shrunk by when no more seeds fit
+ */
+const POISSON_SHRINK_FACTOR = 0.9;
+
+/**
+ * Default minimum distance, as a fraction of the average seed spacing
+ */
+const DEFAULT_POISSON_SPACING = 0.7;
+
+/**
+ * Smallest fraction of the minimum distance used at an impact point
+ */
+const MIN_IMPACT_SPACING = 0.25;
+
+/**
+ * Fraction of impact-based seeds clustered near the impact point
+ */
+const IMPACT_FRACTION = 0.6;
+
+/**
+ * Greatest depth of surface seeds below the surface, as a fraction of the
+ * average seed spacing
+ */
+const MAX_SURFACE_DEPTH = 0.5;
+
+/**
+ * Number of candidates drawn for a seed that must pass a containment test
+ * before the last one is used regardless, e.g. for meshes that aren't closed
+ */
+const MAX_CONTAINS_ATTEMPTS = 100;
+
+/**
+ * Radius of the outermost ring of a radial pattern, as a fraction of the
+ * distance from its center to the farthest corner of the bounds
+ */
+const OUTER_RING_RADIUS = 0.75;
 
 /**
  * Generates seed points for Voronoi fracturing
@@ -10,20 +55,24 @@ export class SeedPointGenerator {
    * @param bounds The bounding box to generate seeds within
    * @param count Number of seed points to generate
    * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
    * @returns Array of seed points
    */
-  static generateUniform(bounds: Box3, count: number, rng?: SeededRandom): Vector3[] {
+  static generateUniform(
+    bounds: Box3,
+    count: number,
+    rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3[] {
     const seeds: Vector3[] = [];
-    const min = bounds.min;
-    const max = bounds.max;
     const random = rng ? () => rng.random() : () => Math.random();
 
     for (let i = 0; i < count; i++) {
       seeds.push(
-        new Vector3(
-          min.x + random() * (max.x - min.x),
-          min.y + random() * (max.y - min.y),
-          min.z + random() * (max.z - min.z),
+        this.sampleWhere(
+          () => this.randomPointInBounds(bounds, random),
+          contains,
         ),
       );
     }
@@ -31,6 +80,41 @@ export class SeedPointGenerator {
     return seeds;
   }
 
+  /**
+   * Generates seed points with Poisson-disk sampling, so that no two seeds are
+   * closer than a minimum distance. This avoids the clumps of uniform seeds
+   * and gives fragments of a more even size.
+   * @param bounds The bounding box to generate seeds within
+   * @param count Number of seed points to generate
+   * @param minDistance Minimum distance between seeds. Shrunk if `count` seeds
+   * don't fit. Derived from the bounds and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
+   * @returns Array of seed points
+   */
+  static generatePoissonDisk(
+    bounds: Box3,
+    count: number,
+    minDistance?: number,
+    rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+    const size = bounds.getSize(new Vector3());
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ??
+        this.getDefaultSeedDistance([size.x, size.y, size.z], count),
+      () =>
+        this.sampleWhere(
+          () => this.randomPointInBounds(bounds, random),
+          contains,
+        ),
+    );
+  }
+
   /**
    * Generates seed points with higher density near an impact point
    * Uses a hybrid approach: some seeds clustered near impact, others uniform
@@ -39,6 +123,8 @@ export class SeedPointGenerator {
    * @param impactPoint The point of impact
    * @param impactRadius Radius around impact point where density is highest
    * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
    * @returns Array of seed points
    */
   static generateImpactBased(
@@ -47,49 +133,89 @@ export class SeedPointGenerator {
     impactPoint: Vector3,
     impactRadius: number,
     rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
   ): Vector3[] {
     const seeds: Vector3[] = [];
     const random = rng ? () => rng.random() : () => Math.random();
 
     // Clamp impact point to bounds to ensure it's inside the mesh
-    const clampedImpact = new Vector3(
-      Math.max(bounds.min.x, Math.min(bounds.max.x, impactPoint.x)),
-      Math.max(bounds.min.y, Math.min(bounds.max.y, impactPoint.y)),
-      Math.max(bounds.min.z, Math.min(bounds.max.z, impactPoint.z)),
-    );
+    const clampedImpact = bounds.clampPoint(impactPoint, new Vector3());
 
     // Generate 60% of seeds near impact point, 40% uniformly distributed
-    const impactCount = Math.floor(count * 0.6);
+    const impactCount = Math.floor(count * IMPACT_FRACTION);
     const uniformCount = count - impactCount;
 
     // Generate seeds near impact using spherical distribution with falloff
     for (let i = 0; i < impactCount; i++) {
-      // Use power distribution to bias towards center
-      // Random value between 0-1, raised to power > 1 biases towards 0
-      const r = Math.pow(random(), 2.0) * impactRadius;
-      const theta = random() * 2 * Math.PI;
-      const phi = Math.acos(2 * random() - 1);
-
-      const x = clampedImpact.x + r * Math.sin(phi) * Math.cos(theta);
-      const y = clampedImpact.y + r * Math.sin(phi) * Math.sin(theta);
-      const z = clampedImpact.z + r * Math.cos(phi);
-
-      // Clamp to bounds
       seeds.push(
-        new Vector3(
-          Math.max(bounds.min.x, Math.min(bounds.max.x, x)),
-          Math.max(bounds.min.y, Math.min(bounds.max.y, y)),
-          Math.max(bounds.min.z, Math.min(bounds.max.z, z)),
+        this.sampleWhere(
+          () =>
+            this.randomPointNearImpact(
+              bounds,
+              clampedImpact,
+              impactRadius,
+              random,
+            ),
+          contains,
         ),
       );
     }
 
     // Add uniform seeds for variation
-    seeds.push(...this.generateUniform(bounds, uniformCount, rng));
+    seeds.push(...this.generateUniform(bounds, uniformCount, rng, contains));
 
     return seeds;
   }
 
+  /**
+   * Generates Poisson-disk seed points with higher density near an impact
+   * point. The minimum distance shrinks towards the impact point, down to a
+   * quarter at its center, so seeds can still cluster there.
+   * @param bounds The bounding box to generate seeds within
+   * @param count Number of seed points to generate
+   * @param impactPoint The point of impact
+   * @param impactRadius Radius around impact point where density is highest
+   * @param minDistance Minimum distance between seeds away from the impact.
+   * Derived from the bounds and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
+   * @returns Array of seed points
+   */
+  static generateImpactBasedPoissonDisk(
+    bounds: Box3,
+    count: number,
+    impactPoint: Vector3,
+    impactRadius: number,
+    minDistance?: number,
+    rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+    const size = bounds.getSize(new Vector3());
+    const clampedImpact = bounds.clampPoint(impactPoint, new Vector3());
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ??
+        this.getDefaultSeedDistance([size.x, size.y, size.z], count),
+      () =>
+        this.sampleWhere(
+          () =>
+            random() < IMPACT_FRACTION
+              ? this.randomPointNearImpact(
+                  bounds,
+                  clampedImpact,
+                  impactRadius,
+                  random,
+                )
+              : this.randomPointInBounds(bounds, random),
+          contains,
+        ),
+      (point) => this.getImpactSpacing(point, clampedImpact, impactRadius),
+    );
+  }
+
   /**
    * Generates seed points for 2.5D Voronoi fracturing
    * Creates a 2D pattern in one plane and extrudes through the mesh
@@ -97,6 +223,8 @@ export class SeedPointGenerator {
    * @param count Number of seed points to generate
    * @param axis The axis along which to generate the pattern ('x', 'y', or 'z')
    * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
    * @returns Array of seed points in 3D space
    */
   static generate2D(
@@ -104,50 +232,58 @@ export class SeedPointGenerator {
     count: number,
     axis: "x" | "y" | "z",
     rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
   ): Vector3[] {
     const seeds: Vector3[] = [];
-    const min = bounds.min;
-    const max = bounds.max;
-    const center = new Vector3(
-      (min.x + max.x) / 2,
-      (min.y + max.y) / 2,
-      (min.z + max.z) / 2,
-    );
     const random = rng ? () => rng.random() : () => Math.random();
 
     for (let i = 0; i < count; i++) {
-      let seed: Vector3;
-
-      if (axis === "x") {
-        // Generate points in YZ plane at center X
-        seed = new Vector3(
-          center.x,
-          min.y + random() * (max.y - min.y),
-          min.z + random() * (max.z - min.z),
-        );
-      } else if (axis === "y") {
-        // Generate points in XZ plane at center Y
-        seed = new Vector3(
-          min.x + random() * (max.x - min.x),
-          center.y,
-          min.z + random() * (max.z - min.z),
-        );
-      } else {
-        // axis === 'z'
-        // Generate points in XY plane at center Z
-        seed = new Vector3(
-          min.x + random() * (max.x - min.x),
-          min.y + random() * (max.y - min.y),
-          center.z,
-        );
-      }
-
-      seeds.push(seed);
+      seeds.push(
+        this.sampleWhere(
+          () => this.random2DPoint(bounds, axis, random),
+          contains,
+        ),
+      );
     }
 
     return seeds;
   }
 
+  /**
+   * Generates Poisson-disk seed points for 2.5D Voronoi fracturing, so that no
+   * two seeds on the plane are closer than a minimum distance
+   * @param bounds The bounding box to generate seeds within
+   * @param count Number of seed points to generate
+   * @param axis The axis along which to generate the pattern ('x', 'y', or 'z')
+   * @param minDistance Minimum distance between seeds. Shrunk if `count` seeds
+   * don't fit. Derived from the plane's extent and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
+   * @returns Array of seed points in 3D space
+   */
+  static generate2DPoissonDisk(
+    bounds: Box3,
+    count: number,
+    axis: "x" | "y" | "z",
+    minDistance?: number,
+    rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ??
+        this.getDefaultSeedDistance(this.getPlaneExtents(bounds, axis), count),
+      () =>
+        this.sampleWhere(
+          () => this.random2DPoint(bounds, axis, random),
+          contains,
+        ),
+    );
+  }
+
   /**
    * Generates 2D seed points with higher density near an impact point
    * Seeds remain on a plane (for 2.5D mode) but cluster around impact
@@ -157,6 +293,8 @@ export class SeedPointGenerator {
    * @param impactRadius Radius around impact point where density is highest
    * @param axis The axis along which to generate the pattern ('x', 'y', or 'z')
    * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
    * @returns Array of seed points on the specified plane
    */
   static generate2DImpactBased(
@@ -166,73 +304,361 @@ export class SeedPointGenerator {
     impactRadius: number,
     axis: "x" | "y" | "z",
     rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
   ): Vector3[] {
     const seeds: Vector3[] = [];
-    const min = bounds.min;
-    const max = bounds.max;
-    const center = new Vector3(
-      (min.x + max.x) / 2,
-      (min.y + max.y) / 2,
-      (min.z + max.z) / 2,
-    );
     const random = rng ? () => rng.random() : () => Math.random();
-
-    // Project impact point onto the plane
-    let projectedImpact: Vector3;
-    if (axis === "x") {
-      projectedImpact = new Vector3(center.x, impactPoint.y, impactPoint.z);
-    } else if (axis === "y") {
-      projectedImpact = new Vector3(impactPoint.x, center.y, impactPoint.z);
-    } else {
-      // axis === 'z'
-      projectedImpact = new Vector3(impactPoint.x, impactPoint.y, center.z);
-    }
+    const projectedImpact = this.projectOntoPlane(bounds, impactPoint, axis);
 
     // Generate 60% of seeds near impact point, 40% uniformly distributed
-    const impactCount = Math.floor(count * 0.6);
+    const impactCount = Math.floor(count * IMPACT_FRACTION);
     const uniformCount = count - impactCount;
 
     // Generate seeds near impact using 2D distribution
     for (let i = 0; i < impactCount; i++) {
-      // Use power distribution to bias towards center (in 2D)
-      const r = Math.pow(random(), 2.0) * impactRadius;
-      const theta = random() * 2 * Math.PI;
-
-      let seed: Vector3;
-      if (axis === "x") {
-        // Generate in YZ plane at center X
-        const y = projectedImpact.y + r * Math.cos(theta);
-        const z = projectedImpact.z + r * Math.sin(theta);
-        seed = new Vector3(
-          center.x,
-          Math.max(min.y, Math.min(max.y, y)),
-          Math.max(min.z, Math.min(max.z, z)),
-        );
-      } else if (axis === "y") {
-        // Generate in XZ plane at center Y
-        const x = projectedImpact.x + r * Math.cos(theta);
-        const z = projectedImpact.z + r * Math.sin(theta);
-        seed = new Vector3(
-          Math.max(min.x, Math.min(max.x, x)),
-          center.y,
-          Math.max(min.z, Math.min(max.z, z)),
-        );
-      } else {
-        // axis === 'z', generate in XY plane at center Z
-        const x = projectedImpact.x + r * Math.cos(theta);
-        const y = projectedImpact.y + r * Math.sin(theta);
-        seed = new Vector3(
-          Math.max(min.x, Math.min(max.x, x)),
-          Math.max(min.y, Math.min(max.y, y)),
-          center.z,
-        );
+      seeds.push(
+        this.sampleWhere(
+          () =>
+            this.random2DPointNearImpact(
+              bounds,
+              projectedImpact,
+              impactRadius,
+              axis,
+              random,
+            ),
+          contains,
+        ),
+      );
+    }
+
+    // Add uniform 2D seeds for variation
+    seeds.push(...this.generate2D(bounds, uniformCount, axis, rng, contains));
+
+    return seeds;
+  }
+
+  /**
+   * Generates 2D Poisson-disk seed points with higher density near an impact
+   * point. The minimum distance shrinks towards the impact point, down to a
+   * quarter at its center, so seeds can still cluster there.
+   * @param bounds The bounding box to generate seeds within
+   * @param count Number of seed points to generate
+   * @param impactPoint The point of impact
+   * @param impactRadius Radius around impact point where density is highest
+   * @param axis The axis along which to generate the pattern ('x', 'y', or 'z')
+   * @param minDistance Minimum distance between seeds away from the impact.
+   * Derived from the plane's extent and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @param contains Optional test that every seed must pass, e.g. whether it
+   * lies inside the mesh. Candidates that fail are drawn again
+   * @returns Array of seed points on the specified plane
+   */
+  static generate2DImpactBasedPoissonDisk(
+    bounds: Box3,
+    count: number,
+    impactPoint: Vector3,
+    impactRadius: number,
+    axis: "x" | "y" | "z",
+    minDistance?: number,
+    rng?: SeededRandom,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+    const projectedImpact = this.projectOntoPlane(bounds, impactPoint, axis);
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ??
+        this.getDefaultSeedDistance(this.getPlaneExtents(bounds, axis), count),
+      () =>
+        this.sampleWhere(
+          () =>
+            random() < IMPACT_FRACTION
+              ? this.random2DPointNearImpact(
+                  bounds,
+                  projectedImpact,
+                  impactRadius,
+                  axis,
+                  random,
+                )
+              : this.random2DPoint(bounds, axis, random),
+          contains,
+        ),
+      (point) => this.getImpactSpacing(point, projectedImpact, impactRadius),
+    );
+  }
+
+  /**
+   * Generates seed points near the surface of a mesh, picked in proportion to
+   * the area of the surface. Each seed is moved into the middle of the wall
+   * below it, so the cells of thin-walled objects like cups and vases are
+   * separated by walls across the shell, and break into shards that follow
+   * it. In thicker parts, seeds stay within half the average seed spacing of
+   * the surface.
+   * @param surface The surface of the mesh
+   * @param count Number of seed points to generate
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @returns Array of seed points
+   */
+  static generateOnSurface(
+    surface: SurfaceSampler,
+    count: number,
+    rng?: SeededRandom,
+  ): Vector3[] {
+    const seeds: Vector3[] = [];
+    const random = rng ? () => rng.random() : () => Math.random();
+    const maxDepth = this.getMaxSurfaceDepth(surface, count);
+
+    for (let i = 0; i < count; i++) {
+      seeds.push(this.toShellSeed(surface, surface.sample(random), maxDepth));
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Generates seed points near the surface of a mesh with higher density near
+   * an impact point. Seeds near the impact are the points on the surface
+   * closest to points clustered around the impact.
+   * @param surface The surface of the mesh
+   * @param count Number of seed points to generate
+   * @param impactPoint The point of impact
+   * @param impactRadius Radius around impact point where density is highest
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @returns Array of seed points
+   */
+  static generateImpactBasedOnSurface(
+    surface: SurfaceSampler,
+    count: number,
+    impactPoint: Vector3,
+    impactRadius: number,
+    rng?: SeededRandom,
+  ): Vector3[] {
+    const seeds: Vector3[] = [];
+    const random = rng ? () => rng.random() : () => Math.random();
+    const maxDepth = this.getMaxSurfaceDepth(surface, count);
+    const clampedImpact = surface.bounds.clampPoint(impactPoint, new Vector3());
+
+    // Generate 60% of seeds near impact point, 40% uniformly distributed
+    const impactCount = Math.floor(count * IMPACT_FRACTION);
+    for (let i = 0; i < impactCount; i++) {
+      const point = this.randomPointNearImpact(
+        surface.bounds,
+        clampedImpact,
+        impactRadius,
+        random,
+      );
+      seeds.push(
+        this.toShellSeed(surface, surface.closestPoint(point), maxDepth),
+      );
+    }
+
+    for (let i = impactCount; i < count; i++) {
+      seeds.push(this.toShellSeed(surface, surface.sample(random), maxDepth));
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Generates Poisson-disk seed points near the surface of a mesh, so that no
+   * two seeds are closer than a minimum distance
+   * @param surface The surface of the mesh
+   * @param count Number of seed points to generate
+   * @param minDistance Minimum distance between seeds. Shrunk if `count` seeds
+   * don't fit. Derived from the surface area and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @returns Array of seed points
+   */
+  static generatePoissonDiskOnSurface(
+    surface: SurfaceSampler,
+    count: number,
+    minDistance?: number,
+    rng?: SeededRandom,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+    const maxDepth = this.getMaxSurfaceDepth(surface, count);
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ?? DEFAULT_POISSON_SPACING * Math.sqrt(surface.area / count),
+      () => this.toShellSeed(surface, surface.sample(random), maxDepth),
+    );
+  }
+
+  /**
+   * Generates Poisson-disk seed points near the surface of a mesh with higher
+   * density near an impact point. The minimum distance shrinks towards the
+   * impact point, down to a quarter at its center.
+   * @param surface The surface of the mesh
+   * @param count Number of seed points to generate
+   * @param impactPoint The point of impact
+   * @param impactRadius Radius around impact point where density is highest
+   * @param minDistance Minimum distance between seeds away from the impact.
+   * Derived from the surface area and `count` if not provided
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @returns Array of seed points
+   */
+  static generateImpactBasedPoissonDiskOnSurface(
+    surface: SurfaceSampler,
+    count: number,
+    impactPoint: Vector3,
+    impactRadius: number,
+    minDistance?: number,
+    rng?: SeededRandom,
+  ): Vector3[] {
+    const random = rng ? () => rng.random() : () => Math.random();
+    const maxDepth = this.getMaxSurfaceDepth(surface, count);
+    const clampedImpact = surface.bounds.clampPoint(impactPoint, new Vector3());
+
+    return this.samplePoissonDisk(
+      count,
+      minDistance ?? DEFAULT_POISSON_SPACING * Math.sqrt(surface.area / count),
+      () =>
+        this.toShellSeed(
+          surface,
+          random() < IMPACT_FRACTION
+            ? surface.closestPoint(
+                this.randomPointNearImpact(
+                  surface.bounds,
+                  clampedImpact,
+                  impactRadius,
+                  random,
+                ),
+              )
+            : surface.sample(random),
+          maxDepth,
+        ),
+      (point) => this.getImpactSpacing(point, clampedImpact, impactRadius),
+    );
+  }
+
+  /**
+   * Moves seed points towards the centers of their Voronoi cells with Lloyd
+   * relaxation, which evens out the size and shape of the cells. Each cell is
+   * approximated by the samples closest to its seed, so the samples define the
+   * region and density that the seeds are relaxed against.
+   * @param seeds The seed points to relax
+   * @param samples Points sampled from the region, with the density the seeds
+   * should keep
+   * @param iterations Number of relaxation iterations
+   * @param snapToSamples If true, each seed moves to the sample in its cell
+   * closest to the cell's center, which keeps seeds inside non-convex regions
+   * @returns The relaxed seed points
+   */
+  static relax(
+    seeds: Vector3[],
+    samples: Vector3[],
+    iterations: number,
+    snapToSamples: boolean = false,
+  ): Vector3[] {
+    const relaxed = seeds.map((seed) => seed.clone());
+    const centers = relaxed.map(() => new Vector3());
+    const counts = new Array<number>(relaxed.length);
+    const owners = new Array<number>(samples.length);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      centers.forEach((center) => center.set(0, 0, 0));
+      counts.fill(0);
+
+      samples.forEach((sample, j) => {
+        const owner = this.findNearest(relaxed, sample);
+        owners[j] = owner;
+        centers[owner].add(sample);
+        counts[owner]++;
+      });
+
+      // Seeds without samples stay where they are
+      relaxed.forEach((seed, i) => {
+        if (counts[i] > 0) seed.copy(centers[i].divideScalar(counts[i]));
+      });
+
+      if (snapToSamples) {
+        const nearest = new Array<Vector3 | undefined>(relaxed.length);
+        const distances = new Array<number>(relaxed.length).fill(Infinity);
+        samples.forEach((sample, j) => {
+          const owner = owners[j];
+          const distance = sample.distanceToSquared(relaxed[owner]);
+          if (distance < distances[owner]) {
+            distances[owner] = distance;
+            nearest[owner] = sample;
+          }
+        });
+        relaxed.forEach((seed, i) => {
+          const sample = nearest[i];
+          if (sample) seed.copy(sample);
+        });
       }
+    }
 
-      seeds.push(seed);
+    return relaxed;
+  }
+
+  /**
+   * Generates seed points for a shattered glass pattern: rings of seeds
+   * around an impact point with one seed per radial crack in each ring.
+   * Neighboring seeds in a ring are split by cracks running out from the
+   * impact point, and neighboring rings by cracks running around it. The
+   * radii of the rings grow geometrically, so the shards are finest near the
+   * impact point.
+   * @param bounds The bounding box to generate seeds within
+   * @param impactPoint The point of impact, projected onto the plane
+   * @param radialCount Number of radial cracks
+   * @param ringCount Number of rings of seeds
+   * @param ringSpacing Ratio between the radii of consecutive rings
+   * @param axis The axis along which to generate the pattern ('x', 'y', or 'z')
+   * @param irregularity How far seeds stray from the regular pattern (0-1)
+   * @param rng Optional seeded random number generator. If not provided, Math.random() is used
+   * @returns Array of seed points on the specified plane
+   */
+  static generateRadial(
+    bounds: Box3,
+    impactPoint: Vector3,
+    radialCount: number,
+    ringCount: number,
+    ringSpacing: number,
+    axis: "x" | "y" | "z",
+    irregularity: number,
+    rng?: SeededRandom,
+  ): Vector3[] {
+    const seeds: Vector3[] = [];
+    const random = rng ? () => rng.random() : () => Math.random();
+    const center = this.projectOntoPlane(bounds, impactPoint, axis);
+    const [a, b] = this.getPlaneAxes(axis);
+
+    // The outermost ring spans most of the plane, even when the impact point
+    // is near an edge
+    const outerRadius =
+      OUTER_RING_RADIUS *
+      Math.hypot(
+        Math.max(center[a] - bounds.min[a], bounds.max[a] - center[a]),
+        Math.max(center[b] - bounds.min[b], bounds.max[b] - center[b]),
+      );
+
+    // Every ring shares the same spokes, so the radial cracks run straight
+    // out from the impact point
+    const angleStep = (2 * Math.PI) / radialCount;
+    const rotation = random() * angleStep;
+    const spokes: number[] = [];
+    for (let j = 0; j < radialCount; j++) {
+      spokes.push(rotation + (j + irregularity * (random() - 0.5)) * angleStep);
     }
 
-    // Add uniform 2D seeds for variation
-    seeds.push(...this.generate2D(bounds, uniformCount, axis, rng));
+    for (let i = 0; i < ringCount; i++) {
+      const ringRadius = outerRadius * Math.pow(ringSpacing, i + 1 - ringCount);
+      for (const spoke of spokes) {
+        // Small offsets bend the cracks without moving seeds between rings
+        const r =
+          ringRadius *
+          Math.pow(ringSpacing, 0.5 * irregularity * (random() - 0.5));
+        const theta = spoke + 0.5 * irregularity * (random() - 0.5) * angleStep;
+
+        const seed = center.clone();
+        seed[a] += r * Math.cos(theta);
+        seed[b] += r * Math.sin(theta);
+        seeds.push(seed);
+      }
+    }
 
     return seeds;
   }
@@ -259,4 +685,328 @@ export class SeedPointGenerator {
       return "z";
     }
   }
+
+  /**
+   * Draws candidates until `count` of them are accepted, rejecting those
+   * closer than the minimum distance to an accepted seed. If too many
+   * candidates in a row are rejected, the space is considered full and the
+   * minimum distance is shrunk, so exactly `count` seeds are always returned.
+   * @param count Number of seed points to generate
+   * @param minDistance Minimum distance between seeds
+   * @param candidate Returns a random candidate point
+   * @param spacing Scales the minimum distance around a point (0-1)
+   * @returns Array of seed points
+   */
+  private static samplePoissonDisk(
+    count: number,
+    minDistance: number,
+    candidate: () => Vector3,
+    spacing: (point: Vector3) => number = () => 1,
+  ): Vector3[] {
+    const seeds: Vector3[] = [];
+    const scales: number[] = [];
+    let distance = minDistance;
+    let failures = 0;
+
+    // Spacing scales are at most 1, so conflicting seeds are always in
+    // neighboring cells of a grid with cells as large as the minimum distance
+    let grid = new Map<string, number[]>();
+    const getCell = (point: Vector3): [number, number, number] => [
+      Math.floor(point.x / distance),
+      Math.floor(point.y / distance),
+      Math.floor(point.z / distance),
+    ];
+    const addToGrid = (index: number) => {
+      const key = getCell(seeds[index]).join(",");
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        grid.set(key, [index]);
+      }
+    };
+    const isTooClose = (point: Vector3, scale: number): boolean => {
+      const [cx, cy, cz] = getCell(point);
+      for (let x = cx - 1; x <= cx + 1; x++) {
+        for (let y = cy - 1; y <= cy + 1; y++) {
+          for (let z = cz - 1; z <= cz + 1; z++) {
+            for (const i of grid.get(`${x},${y},${z}`) ?? []) {
+              const limit = (distance * (scale + scales[i])) / 2;
+              if (seeds[i].distanceToSquared(point) < limit * limit) {
+                return true;
+              }
+            }
+          }
+        }
+      }
+      return false;
+    };
+
+    while (seeds.length < count) {
+      const point = candidate();
+      const scale = spacing(point);
+
+      if (distance > 0 && isTooClose(point, scale)) {
+        if (++failures >= MAX_POISSON_ATTEMPTS) {
+          distance *= POISSON_SHRINK_FACTOR;
+          failures = 0;
+          grid = new Map();
+          seeds.forEach((_, i) => addToGrid(i));
+        }
+        continue;
+      }
+
+      failures = 0;
+      seeds.push(point);
+      scales.push(scale);
+      if (distance > 0) addToGrid(seeds.length - 1);
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Returns the index of the point closest to `target`
+   */
+  private static findNearest(points: Vector3[], target: Vector3): number {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    points.forEach((point, i) => {
+      const distance = point.distanceToSquared(target);
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Draws candidates until one passes the containment test, or until too
+   * many have failed, in which case the last candidate is returned
+   * @param candidate Returns a random candidate point
+   * @param contains Test that the point must pass. All points pass if not provided
+   * @returns The seed point
+   */
+  private static sampleWhere(
+    candidate: () => Vector3,
+    contains?: (point: Vector3) => boolean,
+  ): Vector3 {
+    let point = candidate();
+    for (
+      let attempt = 1;
+      contains && attempt < MAX_CONTAINS_ATTEMPTS && !contains(point);
+      attempt++
+    ) {
+      point = candidate();
+    }
+    return point;
+  }
+
+  /**
+   * Returns a default minimum distance for Poisson-disk seeds, a fraction of
+   * the average spacing of `count` seeds spread over the given extents. Flat
+   * extents are ignored, so flat meshes get a sensible distance as well.
+   * @param extents Size of the region along each of its dimensions
+   * @param count Number of seed points to generate
+   * @returns The minimum distance between seeds
+   */
+  private static getDefaultSeedDistance(
+    extents: number[],
+    count: number,
+  ): number {
+    const dimensions = extents.filter((extent) => extent > 0);
+    if (dimensions.length === 0 || count <= 0) return 0;
+
+    const measure = dimensions.reduce((product, extent) => product * extent);
+    return (
+      DEFAULT_POISSON_SPACING * Math.pow(measure / count, 1 / dimensions.length)
+    );
+  }
+
+  /**
+   * Returns the greatest depth of surface seeds below the surface
+   */
+  private static getMaxSurfaceDepth(
+    surface: SurfaceSampler,
+    count: number,
+  ): number {
+    return count > 0 ? MAX_SURFACE_DEPTH * Math.sqrt(surface.area / count) : 0;
+  }
+
+  /**
+   * Moves a point on the surface to the middle of the wall below it, or at
+   * most `maxDepth` below the surface. The wall ends where a ray into the
+   * mesh leaves it again.
+   */
+  private static toShellSeed(
+    surface: SurfaceSampler,
+    { position, normal }: SurfacePoint,
+    maxDepth: number,
+  ): Vector3 {
+    if (maxDepth <= 0 || normal.lengthSq() === 0) return position;
+
+    // Start just below the surface so the ray doesn't hit its own triangle
+    const direction = normal.clone().negate();
+    const start = maxDepth * 1e-4;
+    const origin = position.clone().addScaledVector(direction, start);
+    const thickness = surface.raycast(new Ray(origin, direction));
+
+    const depth =
+      thickness === null ? 0 : Math.min((thickness + start) / 2, maxDepth);
+    return position.addScaledVector(direction, depth);
+  }
+
+  /**
+   * Returns the fraction of the minimum distance used around a point, which
+   * shrinks linearly towards the impact point
+   */
+  private static getImpactSpacing(
+    point: Vector3,
+    impactPoint: Vector3,
+    impactRadius: number,
+  ): number {
+    if (impactRadius <= 0) return 1;
+    const t = point.distanceTo(impactPoint) / impactRadius;
+    return Math.max(MIN_IMPACT_SPACING, Math.min(1, t));
+  }
+
+  /**
+   * Returns the extents of the bounds within the plane perpendicular to `axis`
+   */
+  private static getPlaneExtents(
+    bounds: Box3,
+    axis: "x" | "y" | "z",
+  ): number[] {
+    const size = bounds.getSize(new Vector3());
+    if (axis === "x") return [size.y, size.z];
+    if (axis === "y") return [size.x, size.z];
+    return [size.x, size.y];
+  }
+
+  /**
+   * Returns the axes that span the plane perpendicular to `axis`
+   */
+  private static getPlaneAxes(
+    axis: "x" | "y" | "z",
+  ): readonly ["x" | "y", "y" | "z"] {
+    if (axis === "x") return ["y", "z"];
+    if (axis === "y") return ["x", "z"];
+    return ["x", "y"];
+  }
+
+  /**
+   * Projects a point onto the plane through the center of the bounds,
+   * perpendicular to `axis`
+   */
+  private static projectOntoPlane(
+    bounds: Box3,
+    point: Vector3,
+    axis: "x" | "y" | "z",
+  ): Vector3 {
+    const center = bounds.getCenter(new Vector3());
+    const projected = point.clone();
+    projected[axis] = center[axis];
+    return projected;
+  }
+
+  /**
+   * Returns a uniformly distributed random point within the bounds
+   */
+  private static randomPointInBounds(
+    bounds: Box3,
+    random: () => number,
+  ): Vector3 {
+    const { min, max } = bounds;
+    return new Vector3(
+      min.x + random() * (max.x - min.x),
+      min.y + random() * (max.y - min.y),
+      min.z + random() * (max.z - min.z),
+    );
+  }
+
+  /**
+   * Returns a random point near an impact point, clamped to the bounds
+   */
+  private static randomPointNearImpact(
+    bounds: Box3,
+    impactPoint: Vector3,
+    impactRadius: number,
+    random: () => number,
+  ): Vector3 {
+    // Use power distribution to bias towards center
+    // Random value between 0-1, raised to power > 1 biases towards 0
+    const r = Math.pow(random(), 2.0) * impactRadius;
+    const theta = random() * 2 * Math.PI;
+    const phi = Math.acos(2 * random() - 1);
+
+    const x = impactPoint.x + r * Math.sin(phi) * Math.cos(theta);
+    const y = impactPoint.y + r * Math.sin(phi) * Math.sin(theta);
+    const z = impactPoint.z + r * Math.cos(phi);
+
+    // Clamp to bounds
+    return bounds.clampPoint(new Vector3(x, y, z), new Vector3());
+  }
+
+  /**
+   * Returns a uniformly distributed random point on the plane through the
+   * center of the bounds, perpendicular to `axis`
+   */
+  private static random2DPoint(
+    bounds: Box3,
+    axis: "x" | "y" | "z",
+    random: () => number,
+  ): Vector3 {
+    const { min, max } = bounds;
+    const center = bounds.getCenter(new Vector3());
+
+    if (axis === "x") {
+      // Generate points in YZ plane at center X
+      return new Vector3(
+        center.x,
+        min.y + random() * (max.y - min.y),
+        min.z + random() * (max.z - min.z),
+      );
+    } else if (axis === "y") {
+      // Generate points in XZ plane at center Y
+      return new Vector3(
+        min.x + random() * (max.x - min.x),
+        center.y,
+        min.z + random() * (max.z - min.z),
+      );
+    } else {
+      // axis === 'z'
+      // Generate points in XY plane at center Z
+      return new Vector3(
+        min.x + random() * (max.x - min.x),
+        min.y + random() * (max.y - min.y),
+        center.z,
+      );
+    }
+  }
+
+  /**
+   * Returns a random point near an impact point on the plane perpendicular to
+   * `axis`, clamped to the bounds within the plane
+   */
+  private static random2DPointNearImpact(
+    bounds: Box3,
+    projectedImpact: Vector3,
+    impactRadius: number,
+    axis: "x" | "y" | "z",
+    random: () => number,
+  ): Vector3 {
+    // Use power distribution to bias towards center (in 2D)
+    const r = Math.pow(random(), 2.0) * impactRadius;
+    const theta = random() * 2 * Math.PI;
+
+    // In-plane axes, with the plane's own axis left at its center
+    const [a, b] = this.getPlaneAxes(axis);
+    const seed = projectedImpact.clone();
+    seed[a] = projectedImpact[a] + r * Math.cos(theta);
+    seed[b] = projectedImpact[b] + r * Math.sin(theta);
+    seed[a] = Math.max(bounds.min[a], Math.min(bounds.max[a], seed[a]));
+    seed[b] = Math.max(bounds.min[b], Math.min(bounds.max[b], seed[b]));
+    return seed;
+  }
 }
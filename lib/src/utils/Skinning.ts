@@ -0,0 +1,192 @@
+import * as THREE from "three";
+
+const _skinIndex = new THREE.Vector4();
+const _skinWeight = new THREE.Vector4();
+const _boneMatrix = new THREE.Matrix4();
+const _skinMatrix = new THREE.Matrix4();
+const _inverseMatrix = new THREE.Matrix4();
+const _normalMatrix = new THREE.Matrix3();
+const _vector = new THREE.Vector3();
+
+/**
+ * Copies the geometry of a skinned mesh with its current pose baked into the
+ * positions, normals and tangents. The skin attributes are kept, so the
+ * result can be mapped back to the bind pose with `restoreBindPose()`.
+ * Morph targets are ignored.
+ * @param mesh The skinned mesh
+ * @returns The posed geometry, in the local space of the mesh
+ */
+export function bakeSkinnedPose(mesh: THREE.SkinnedMesh): THREE.BufferGeometry {
+  const geometry = mesh.geometry.clone();
+  const { skinIndex, skinWeight } = geometry.attributes;
+  if (!skinIndex || !skinWeight) {
+    throw new Error(
+      "SkinnedMesh geometry must have skinIndex and skinWeight attributes",
+    );
+  }
+
+  updateBoneMatrices(mesh.skeleton);
+
+  const { position, normal, tangent } = geometry.attributes;
+  for (let i = 0; i < position.count; i++) {
+    computeSkinMatrix(mesh, geometry, i, _skinMatrix);
+
+    _vector.fromBufferAttribute(position, i).applyMatrix4(_skinMatrix);
+    position.setXYZ(i, _vector.x, _vector.y, _vector.z);
+
+    if (normal) {
+      _normalMatrix.getNormalMatrix(_skinMatrix);
+      _vector.fromBufferAttribute(normal, i).applyMatrix3(_normalMatrix);
+      _vector.normalize();
+      normal.setXYZ(i, _vector.x, _vector.y, _vector.z);
+    }
+
+    if (tangent) {
+      _vector.fromBufferAttribute(tangent, i).transformDirection(_skinMatrix);
+      tangent.setXYZ(i, _vector.x, _vector.y, _vector.z);
+    }
+  }
+
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+
+  return geometry;
+}
+
+/**
+ * Maps a posed geometry (e.g. a fragment of the geometry returned by
+ * `bakeSkinnedPose()`) back to the bind pose of a skinned mesh. Each vertex
+ * is transformed by the inverse of its own skin matrix, so the geometry lines
+ * up exactly with the current pose when it is skinned with the same skeleton.
+ * @param geometry The posed geometry, with skinIndex and skinWeight attributes
+ * @param mesh The skinned mesh the geometry was baked from
+ */
+export function restoreBindPose(
+  geometry: THREE.BufferGeometry,
+  mesh: THREE.SkinnedMesh,
+): void {
+  updateBoneMatrices(mesh.skeleton);
+
+  const { position, normal, tangent } = geometry.attributes;
+  for (let i = 0; i < position.count; i++) {
+    computeSkinMatrix(mesh, geometry, i, _skinMatrix);
+
+    // Blended skin matrices can be singular in degenerate cases. Leave the
+    // vertex in its posed position rather than produce NaNs.
+    if (Math.abs(_skinMatrix.determinant()) < 1e-10) continue;
+    _inverseMatrix.copy(_skinMatrix).invert();
+
+    _vector.fromBufferAttribute(position, i).applyMatrix4(_inverseMatrix);
+    position.setXYZ(i, _vector.x, _vector.y, _vector.z);
+
+    if (normal) {
+      // Normals are transformed by the inverse transpose, so undo it with
+      // the transpose of the skin matrix
+      _normalMatrix.setFromMatrix4(_skinMatrix).transpose();
+      _vector.fromBufferAttribute(normal, i).applyMatrix3(_normalMatrix);
+      _vector.normalize();
+      normal.setXYZ(i, _vector.x, _vector.y, _vector.z);
+    }
+
+    if (tangent) {
+      _vector
+        .fromBufferAttribute(tangent, i)
+        .transformDirection(_inverseMatrix);
+      tangent.setXYZ(i, _vector.x, _vector.y, _vector.z);
+    }
+  }
+
+  position.needsUpdate = true;
+  if (normal) normal.needsUpdate = true;
+  if (tangent) tangent.needsUpdate = true;
+
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+}
+
+/**
+ * Blends the bone influences of two vertices. Weights of the same bone are
+ * combined, and the strongest influences are kept and normalized.
+ * @param indicesA Bone indices of the first vertex
+ * @param weightsA Bone weights of the first vertex
+ * @param indicesB Bone indices of the second vertex
+ * @param weightsB Bone weights of the second vertex
+ * @param t Interpolation factor (0 = first vertex, 1 = second vertex)
+ * @returns The blended bone indices and weights
+ */
+export function blendSkinWeights(
+  indicesA: number[],
+  weightsA: number[],
+  indicesB: number[],
+  weightsB: number[],
+  t: number,
+): { indices: number[]; weights: number[] } {
+  const influences = new Map<number, number>();
+  const add = (bone: number, weight: number) => {
+    if (weight > 0) {
+      influences.set(bone, (influences.get(bone) ?? 0) + weight);
+    }
+  };
+
+  indicesA.forEach((bone, i) => add(bone, (1 - t) * weightsA[i]));
+  indicesB.forEach((bone, i) => add(bone, t * weightsB[i]));
+
+  const strongest = [...influences.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, indicesA.length);
+  const total = strongest.reduce((sum, [, weight]) => sum + weight, 0);
+
+  const indices = new Array<number>(indicesA.length).fill(0);
+  const weights = new Array<number>(indicesA.length).fill(0);
+  strongest.forEach(([bone, weight], i) => {
+    indices[i] = bone;
+    weights[i] = total > 0 ? weight / total : 0;
+  });
+
+  return { indices, weights };
+}
+
+/**
+ * Updates the world matrices of the bones so the skin matrices reflect the
+ * current pose, even if the scene has not been rendered since it changed
+ */
+function updateBoneMatrices(skeleton: THREE.Skeleton): void {
+  for (const bone of skeleton.bones) {
+    bone.updateWorldMatrix(true, false);
+  }
+}
+
+/**
+ * Computes the matrix that transforms a vertex from the bind pose to the
+ * current pose, in the local space of the mesh. Matches
+ * `SkinnedMesh.applyBoneTransform()`.
+ */
+function computeSkinMatrix(
+  mesh: THREE.SkinnedMesh,
+  geometry: THREE.BufferGeometry,
+  index: number,
+  target: THREE.Matrix4,
+): THREE.Matrix4 {
+  const { bones, boneInverses } = mesh.skeleton;
+  const { skinIndex, skinWeight } = geometry.attributes;
+  _skinIndex.fromBufferAttribute(skinIndex as THREE.BufferAttribute, index);
+  _skinWeight.fromBufferAttribute(skinWeight as THREE.BufferAttribute, index);
+
+  const elements = target.elements;
+  elements.fill(0);
+  for (let i = 0; i < 4; i++) {
+    const weight = _skinWeight.getComponent(i);
+    if (weight === 0) continue;
+
+    const boneIndex = Math.round(_skinIndex.getComponent(i));
+    _boneMatrix.multiplyMatrices(
+      bones[boneIndex].matrixWorld,
+      boneInverses[boneIndex],
+    );
+    for (let j = 0; j < 16; j++) {
+      elements[j] += weight * _boneMatrix.elements[j];
+    }
+  }
+
+  return target.premultiply(mesh.bindMatrixInverse).multiply(mesh.bindMatrix);
+}
@@ -0,0 +1,150 @@
+import { Box3, Ray, Triangle, Vector3 } from "three";
+import { Fragment } from "../entities/Fragment";
+
+/**
+ * A point on the surface of a mesh
+ */
+export interface SurfacePoint {
+  position: Vector3;
+
+  /**
+   * Normal of the triangle the point lies on, facing out of the mesh
+   */
+  normal: Vector3;
+}
+
+/**
+ * Samples points on the surface of a fragment, including its cut faces
+ */
+export class SurfaceSampler {
+  private triangles: Triangle[] = [];
+
+  /**
+   * Running total of the triangle areas, used to pick triangles in proportion
+   * to their area
+   */
+  private cumulativeAreas: number[] = [];
+
+  /**
+   * Total area of the surface
+   */
+  readonly area: number;
+
+  /**
+   * Bounding box of the surface
+   */
+  readonly bounds = new Box3();
+
+  /**
+   * @param fragment The fragment whose surface is sampled
+   */
+  constructor(fragment: Fragment) {
+    const vertices = [...fragment.vertices, ...fragment.cutVertices];
+    let area = 0;
+
+    for (const triangles of fragment.triangles) {
+      for (let i = 0; i < triangles.length; i += 3) {
+        const triangle = new Triangle(
+          vertices[triangles[i]].position,
+          vertices[triangles[i + 1]].position,
+          vertices[triangles[i + 2]].position,
+        );
+
+        // Degenerate triangles can never be picked
+        const triangleArea = triangle.getArea();
+        if (triangleArea <= 0) continue;
+
+        area += triangleArea;
+        this.bounds.expandByPoint(triangle.a);
+        this.bounds.expandByPoint(triangle.b);
+        this.bounds.expandByPoint(triangle.c);
+        this.triangles.push(triangle);
+        this.cumulativeAreas.push(area);
+      }
+    }
+
+    this.area = area;
+  }
+
+  /**
+   * Returns a random point on the surface. Every part of the surface is
+   * equally likely, regardless of how finely it is tessellated.
+   * @param random Returns random numbers between 0 and 1
+   */
+  sample(random: () => number): SurfacePoint {
+    if (this.triangles.length === 0) {
+      return { position: new Vector3(), normal: new Vector3() };
+    }
+
+    // Binary search for the triangle containing the picked area
+    const target = random() * this.area;
+    let low = 0;
+    let high = this.cumulativeAreas.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.cumulativeAreas[mid] < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    const triangle = this.triangles[low];
+
+    // Uniform point in the triangle, reflecting points outside of it back in
+    let u = random();
+    let v = random();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+
+    const position = triangle.a
+      .clone()
+      .addScaledVector(new Vector3().subVectors(triangle.b, triangle.a), u)
+      .addScaledVector(new Vector3().subVectors(triangle.c, triangle.a), v);
+    return { position, normal: triangle.getNormal(new Vector3()) };
+  }
+
+  /**
+   * Returns the point on the surface closest to `point`
+   */
+  closestPoint(point: Vector3): SurfacePoint {
+    const closest = new Vector3();
+    const candidate = new Vector3();
+    let closestTriangle: Triangle | undefined;
+    let closestDistance = Infinity;
+
+    for (const triangle of this.triangles) {
+      triangle.closestPointToPoint(point, candidate);
+      const distance = candidate.distanceToSquared(point);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest.copy(candidate);
+        closestTriangle = triangle;
+      }
+    }
+
+    return {
+      position: closestTriangle ? closest : point.clone(),
+      normal: closestTriangle?.getNormal(new Vector3()) ?? new Vector3(),
+    };
+  }
+
+  /**
+   * Returns the distance along a ray to the nearest triangle it hits, or
+   * null if it doesn't hit any
+   */
+  raycast(ray: Ray): number | null {
+    const hit = new Vector3();
+    let nearest: number | null = null;
+
+    for (const { a, b, c } of this.triangles) {
+      if (ray.intersectTriangle(a, b, c, false, hit)) {
+        const distance = hit.distanceTo(ray.origin);
+        if (nearest === null || distance < nearest) nearest = distance;
+      }
+    }
+
+    return nearest;
+  }
+}
@@ -0,0 +1,160 @@
+import { Box3, Vector3 } from "three";
+import { Fragment } from "../entities/Fragment";
+
+/**
+ * Average number of polygons grouped together when approximating the
+ * winding number
+ */
+const WINDING_CLUSTER_SIZE = 16;
+
+/**
+ * Computes the winding number of a closed mesh, which is 1 for points inside
+ * the mesh and 0 for points outside of it. Clusters of neighboring polygons
+ * that are far from the point are approximated by their area-weighted normal,
+ * as in "Fast Winding Numbers for Soups and Clouds" (Barill et al. 2018).
+ */
+export class WindingNumber {
+  private clusters: {
+    polygons: Vector3[][];
+    center: Vector3;
+    radius: number;
+    areaVector: Vector3;
+  }[] = [];
+
+  /**
+   * @param polygons The vertex positions of the convex polygons of the closed
+   * mesh, wound counter-clockwise when viewed from outside of the mesh
+   */
+  constructor(polygons: Vector3[][]) {
+    const edge1 = new Vector3();
+    const edge2 = new Vector3();
+    const normal = new Vector3();
+
+    // Group the polygons by the cell of a uniform grid that contains them.
+    // Surfaces only fill a layer of cells, so the resolution grows with the
+    // square root of the number of polygons.
+    const meshBounds = new Box3();
+    for (const polygon of polygons) {
+      for (const position of polygon) {
+        meshBounds.expandByPoint(position);
+      }
+    }
+    const resolution = Math.max(
+      1,
+      Math.round(Math.sqrt(polygons.length / WINDING_CLUSTER_SIZE)),
+    );
+    const cellSize = meshBounds
+      .getSize(new Vector3())
+      .divideScalar(resolution)
+      .max(new Vector3(1e-9, 1e-9, 1e-9));
+
+    const cells = new Map<number, Vector3[][]>();
+    for (const polygon of polygons) {
+      const cell = getCentroid(polygon)
+        .sub(meshBounds.min)
+        .divide(cellSize)
+        .floor()
+        .clampScalar(0, resolution - 1);
+      const key = (cell.x * resolution + cell.y) * resolution + cell.z;
+      const cluster = cells.get(key);
+      if (cluster) {
+        cluster.push(polygon);
+      } else {
+        cells.set(key, [polygon]);
+      }
+    }
+
+    for (const cluster of cells.values()) {
+      const bounds = new Box3();
+      const areaVector = new Vector3();
+      for (const positions of cluster) {
+        for (let j = 1; j < positions.length - 1; j++) {
+          edge1.subVectors(positions[j], positions[0]);
+          edge2.subVectors(positions[j + 1], positions[0]);
+          areaVector.addScaledVector(normal.crossVectors(edge1, edge2), 0.5);
+        }
+        for (const position of positions) {
+          bounds.expandByPoint(position);
+        }
+      }
+
+      const center = bounds.getCenter(new Vector3());
+      const radius = bounds.getSize(new Vector3()).length() / 2;
+      this.clusters.push({ polygons: cluster, center, radius, areaVector });
+    }
+  }
+
+  /**
+   * Creates the winding number of the surface of a fragment, including its
+   * cut faces
+   * @param fragment A closed fragment
+   */
+  static fromFragment(fragment: Fragment): WindingNumber {
+    const vertices = [...fragment.vertices, ...fragment.cutVertices];
+    const polygons: Vector3[][] = [];
+    for (const triangles of fragment.triangles) {
+      for (let i = 0; i < triangles.length; i += 3) {
+        polygons.push([
+          vertices[triangles[i]].position,
+          vertices[triangles[i + 1]].position,
+          vertices[triangles[i + 2]].position,
+        ]);
+      }
+    }
+    return new WindingNumber(polygons);
+  }
+
+  /**
+   * Evaluates the winding number at a point
+   */
+  evaluate(point: Vector3): number {
+    const a = new Vector3();
+    const b = new Vector3();
+    const c = new Vector3();
+    const bc = new Vector3();
+
+    // Sum of the solid angles of the polygons, seen from the point
+    let solidAngle = 0;
+    for (const { polygons, center, radius, areaVector } of this.clusters) {
+      a.subVectors(center, point);
+      const distance = a.length();
+      if (distance > 2 * radius) {
+        solidAngle += a.dot(areaVector) / (distance * distance * distance);
+        continue;
+      }
+
+      for (const positions of polygons) {
+        a.subVectors(positions[0], point);
+        for (let i = 1; i < positions.length - 1; i++) {
+          b.subVectors(positions[i], point);
+          c.subVectors(positions[i + 1], point);
+
+          const la = a.length();
+          const lb = b.length();
+          const lc = c.length();
+          const numerator = a.dot(bc.crossVectors(b, c));
+          const denominator =
+            la * lb * lc + a.dot(b) * lc + a.dot(c) * lb + b.dot(c) * la;
+          solidAngle += 2 * Math.atan2(numerator, denominator);
+        }
+      }
+    }
+
+    return solidAngle / (4 * Math.PI);
+  }
+
+  /**
+   * Tests whether a point is inside the mesh
+   */
+  containsPoint(point: Vector3): boolean {
+    return this.evaluate(point) > 0.5;
+  }
+}
+
+function getCentroid(positions: Vector3[]): Vector3 {
+  const centroid = new Vector3();
+  for (const position of positions) {
+    centroid.add(position);
+  }
+  return centroid.divideScalar(positions.length);
+}
@@ -0,0 +1,176 @@
+import * as THREE from "three";
+import { FractureOptions } from "../../entities/FractureOptions";
+import { SliceOptions } from "../../entities/SliceOptions";
+import { fractureGeometry } from "../../fracture/FractureGeometry";
+import {
+  deserializeFragments,
+  serializeFragments,
+} from "../FragmentSerialization";
+import { getSourceOrigin, setSourceOrigin } from "../GeometryConversion";
+
+describe("FragmentSerialization", () => {
+  const createOptions = () =>
+    new FractureOptions({
+      fragmentCount: 4,
+      seed: 42,
+      voronoiOptions: {
+        mode: "3D",
+        seedPoints: [
+          new THREE.Vector3(-0.25, 0, 0),
+          new THREE.Vector3(0.25, 0, 0),
+        ],
+      },
+    });
+
+  it("should round-trip fragment geometries", () => {
+    const geometries = fractureGeometry(
+      new THREE.BoxGeometry(1, 1, 1),
+      createOptions(),
+    );
+
+    const baked = deserializeFragments(serializeFragments(geometries));
+
+    expect(baked.geometries.length).toBe(geometries.length);
+    baked.geometries.forEach((geometry, i) => {
+      const expected = geometries[i];
+      expect(geometry.attributes.position.array).toEqual(
+        expected.attributes.position.array,
+      );
+      expect(geometry.attributes.normal.array).toEqual(
+        expected.attributes.normal.array,
+      );
+      expect(geometry.attributes.uv.array).toEqual(
+        expected.attributes.uv.array,
+      );
+      expect(Array.from(geometry.index!.array)).toEqual(
+        Array.from(expected.index!.array),
+      );
+      expect(geometry.groups).toEqual(expected.groups);
+      expect(geometry.userData.cutFaceMaterialIndex).toBe(
+        expected.userData.cutFaceMaterialIndex,
+      );
+    });
+  });
+
+  it("should store the fragment offsets", () => {
+    const geometries = [new THREE.BoxGeometry(), new THREE.BoxGeometry()];
+    const offsets = [new THREE.Vector3(1, 2, 3), new THREE.Vector3(-1, 0, 5)];
+
+    const baked = deserializeFragments(
+      serializeFragments(geometries, { offsets }),
+    );
+
+    expect(baked.offsets).toEqual(offsets);
+  });
+
+  it("should store the source origin of each fragment", () => {
+    const geometry = new THREE.BoxGeometry();
+    setSourceOrigin(geometry, new THREE.Vector3(-0.325, 0, 0.143));
+
+    const baked = deserializeFragments(
+      serializeFragments([geometry, new THREE.BoxGeometry()]),
+    );
+
+    expect(getSourceOrigin(baked.geometries[0])).toEqual(
+      new THREE.Vector3(-0.325, 0, 0.143),
+    );
+    expect(getSourceOrigin(baked.geometries[1])).toEqual(new THREE.Vector3());
+  });
+
+  it("should default the offsets to the origin", () => {
+    const baked = deserializeFragments(
+      serializeFragments([new THREE.BoxGeometry()]),
+    );
+
+    expect(baked.offsets).toEqual([new THREE.Vector3()]);
+    expect(baked.options).toBeUndefined();
+  });
+
+  it("should store the fracture options and seed", () => {
+    const options = createOptions();
+
+    const baked = deserializeFragments(serializeFragments([], { options }));
+
+    expect(baked.options).toBeInstanceOf(FractureOptions);
+    const restored = baked.options as FractureOptions;
+    expect(restored.seed).toBe(42);
+    expect(restored.fragmentCount).toBe(4);
+    expect(restored.voronoiOptions!.mode).toBe("3D");
+    expect(restored.voronoiOptions!.seedPoints).toEqual(
+      options.voronoiOptions!.seedPoints,
+    );
+  });
+
+  it("should store the slice options", () => {
+    const options = new SliceOptions();
+    options.textureScale.set(2, 3);
+
+    const baked = deserializeFragments(serializeFragments([], { options }));
+
+    expect(baked.options).toBeInstanceOf(SliceOptions);
+    expect((baked.options as SliceOptions).textureScale).toEqual(
+      new THREE.Vector2(2, 3),
+    );
+  });
+
+  it("should store additional vertex attributes", () => {
+    const geometry = new THREE.BoxGeometry();
+    const count = geometry.attributes.position.count;
+    const colors = new Uint8Array(count * 3).fill(51);
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3, true));
+    geometry.setAttribute(
+      "uv1",
+      new THREE.BufferAttribute(new Float32Array(count * 2).fill(0.75), 2),
+    );
+
+    const [restored] = deserializeFragments(
+      serializeFragments([geometry, new THREE.BoxGeometry()]),
+    ).geometries;
+
+    expect(restored.attributes.color.itemSize).toBe(3);
+    expect(restored.attributes.color.getX(0)).toBeCloseTo(0.2);
+    expect(restored.attributes.uv1.array).toEqual(
+      new Float32Array(count * 2).fill(0.75),
+    );
+    expect(Array.from(restored.index!.array)).toEqual(
+      Array.from(geometry.index!.array),
+    );
+  });
+
+  it("should handle geometries without uvs or indices", () => {
+    const geometry = new THREE.BoxGeometry().toNonIndexed();
+    geometry.deleteAttribute("uv");
+
+    const [restored] = deserializeFragments(
+      serializeFragments([geometry]),
+    ).geometries;
+
+    expect(restored.attributes.uv).toBeUndefined();
+    expect(restored.index).toBeNull();
+    expect(restored.attributes.position.array).toEqual(
+      geometry.attributes.position.array,
+    );
+  });
+
+  it("should read from a view into a larger buffer", () => {
+    const data = new Uint8Array(serializeFragments([new THREE.BoxGeometry()]));
+    const padded = new Uint8Array(data.byteLength + 8);
+    padded.set(data, 8);
+
+    const baked = deserializeFragments(padded.subarray(8));
+
+    expect(baked.geometries.length).toBe(1);
+  });
+
+  it("should reject data in a different format", () => {
+    expect(() => deserializeFragments(new ArrayBuffer(32))).toThrow(
+      "Data is not in the baked fragment format",
+    );
+  });
+
+  it("should require one offset per geometry", () => {
+    expect(() =>
+      serializeFragments([new THREE.BoxGeometry()], { offsets: [] }),
+    ).toThrow("Expected one offset per fragment geometry");
+  });
+});
@@ -18,8 +18,12 @@ describe("GeometryConversion", () => {
 
       expect(fragment).toBeInstanceOf(Fragment);
       expect(fragment.vertices.length).toBe(24); // Cube has 24 vertices (4 per face * 6 faces)
-      expect(fragment.triangles[0].length).toBe(36); // 12 triangles * 3 vertices
-      expect(fragment.triangles[1].length).toBe(0); // No cut faces yet
+      expect(fragment.triangleCount).toBe(12);
+      // One submesh per material group (one per face), followed by the cut faces
+      expect(fragment.triangles.length).toBe(7);
+      expect(fragment.triangles[0].length).toBe(6); // 2 triangles * 3 vertices
+      expect(fragment.cutFaceSubmesh).toBe(6);
+      expect(fragment.triangles[6].length).toBe(0); // No cut faces yet
     });
 
     it("should preserve vertex attributes", () => {
@@ -40,6 +44,25 @@ describe("GeometryConversion", () => {
       expect(fragment.vertices[0].uv.x).toBeCloseTo(uvs.getX(0));
       expect(fragment.vertices[0].uv.y).toBeCloseTo(uvs.getY(0));
     });
+
+    it("should carry additional attributes as channels", () => {
+      const count = cube.attributes.position.count;
+      const colors = new Uint8Array(count * 4).fill(255);
+      cube.setAttribute("color", new THREE.BufferAttribute(colors, 4, true));
+      cube.setAttribute(
+        "uv1",
+        new THREE.BufferAttribute(new Float32Array(count * 2).fill(0.5), 2),
+      );
+
+      const fragment = geometryToFragment(cube, { color: [0, 0, 0, 1] });
+
+      expect(fragment.attributes).toEqual([
+        { name: "color", itemSize: 4, offset: 0, fill: [0, 0, 0, 1] },
+        { name: "uv1", itemSize: 2, offset: 4, fill: "interpolate" },
+      ]);
+      // Normalized integer data is converted to floats
+      expect(fragment.vertices[0].attributes).toEqual([1, 1, 1, 1, 0.5, 0.5]);
+    });
   });
 
   describe("fragmentToGeometry", () => {
@@ -109,5 +132,26 @@ describe("GeometryConversion", () => {
       expect(geometry.groups[1].start).toBe(1);
       expect(geometry.groups[1].count).toBe(1);
     });
+
+    it("should write the attribute channels", () => {
+      const fragment = new Fragment();
+      fragment.attributes = [
+        { name: "color", itemSize: 3, offset: 0, fill: "interpolate" },
+      ];
+      fragment.vertices.push(
+        new MeshVertex(undefined, undefined, undefined, [1, 0, 0]),
+      );
+      fragment.cutVertices.push(
+        new MeshVertex(undefined, undefined, undefined, [0, 1, 0]),
+      );
+      fragment.triangles = [[0], [0]];
+
+      const geometry = fragmentToGeometry(fragment);
+
+      expect(geometry.attributes.color.itemSize).toBe(3);
+      expect(Array.from(geometry.attributes.color.array)).toEqual([
+        1, 0, 0, 0, 1, 0,
+      ]);
+    });
   });
 });
@@ -0,0 +1,111 @@
+import * as THREE from "three";
+import {
+  serializeGeometry,
+  deserializeGeometry,
+  getTransferables,
+} from "../GeometrySerialization";
+
+describe("GeometrySerialization", () => {
+  let cube: THREE.BufferGeometry;
+
+  beforeEach(() => {
+    cube = new THREE.BoxGeometry(1, 1, 1);
+  });
+
+  describe("serializeGeometry", () => {
+    it("should copy attribute data into typed arrays", () => {
+      const data = serializeGeometry(cube);
+
+      expect(data.positions).toBeInstanceOf(Float32Array);
+      expect(data.positions).toEqual(
+        new Float32Array(cube.attributes.position.array),
+      );
+      expect(data.positions.buffer).not.toBe(
+        cube.attributes.position.array.buffer,
+      );
+      expect(data.normals.length).toBe(cube.attributes.normal.array.length);
+      expect(data.uvs!.length).toBe(cube.attributes.uv.array.length);
+      expect(data.indices).toBeInstanceOf(Uint32Array);
+      expect(data.indices!.length).toBe(cube.index!.count);
+    });
+
+    it("should store material groups as triplets", () => {
+      const data = serializeGeometry(cube);
+
+      expect(data.groups.length).toBe(cube.groups.length * 3);
+      expect(Array.from(data.groups.slice(0, 3))).toEqual([
+        cube.groups[0].start,
+        cube.groups[0].count,
+        cube.groups[0].materialIndex,
+      ]);
+    });
+
+    it("should omit optional attributes that are missing", () => {
+      cube.deleteAttribute("uv");
+      cube.setIndex(null);
+
+      const data = serializeGeometry(cube);
+
+      expect(data.uvs).toBeUndefined();
+      expect(data.indices).toBeUndefined();
+    });
+
+    it("should throw if normals are missing", () => {
+      cube.deleteAttribute("normal");
+
+      expect(() => serializeGeometry(cube)).toThrow();
+    });
+  });
+
+  describe("deserializeGeometry", () => {
+    it("should round-trip geometry data", () => {
+      const result = deserializeGeometry(serializeGeometry(cube));
+
+      expect(result.attributes.position.array).toEqual(
+        cube.attributes.position.array,
+      );
+      expect(result.attributes.normal.array).toEqual(
+        cube.attributes.normal.array,
+      );
+      expect(result.attributes.uv.array).toEqual(cube.attributes.uv.array);
+      expect(Array.from(result.index!.array)).toEqual(
+        Array.from(cube.index!.array),
+      );
+      expect(result.groups).toEqual(cube.groups);
+    });
+
+    it("should round-trip additional attributes", () => {
+      const colors = new Float32Array(cube.attributes.position.count * 3);
+      colors.fill(0.25);
+      cube.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+
+      const result = deserializeGeometry(serializeGeometry(cube));
+
+      expect(result.attributes.color.itemSize).toBe(3);
+      expect(result.attributes.color.array).toEqual(colors);
+    });
+
+    it("should round-trip the cut-face material index", () => {
+      cube.userData.cutFaceMaterialIndex = 6;
+
+      const result = deserializeGeometry(serializeGeometry(cube));
+
+      expect(result.userData.cutFaceMaterialIndex).toBe(6);
+      expect(
+        deserializeGeometry(serializeGeometry(new THREE.BoxGeometry()))
+          .userData,
+      ).not.toHaveProperty("cutFaceMaterialIndex");
+    });
+  });
+
+  describe("getTransferables", () => {
+    it("should return every buffer in the serialized geometry", () => {
+      const data = serializeGeometry(cube);
+      const buffers = getTransferables(data);
+
+      expect(buffers).toHaveLength(5);
+      expect(buffers).toContain(data.positions.buffer);
+      expect(buffers).toContain(data.indices!.buffer);
+    });
+  });
+});
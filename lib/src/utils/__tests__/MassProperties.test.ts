@@ -0,0 +1,84 @@
+import * as THREE from "three";
+import { computeMassProperties } from "../MassProperties";
+import { slice } from "../../fracture/Slice";
+
+describe("computeMassProperties", () => {
+  it("should compute the volume and centroid of a box", () => {
+    const geometry = new THREE.BoxGeometry(2, 3, 4).translate(1, 2, 3);
+
+    const properties = computeMassProperties(geometry);
+
+    expect(properties.volume).toBeCloseTo(24);
+    expect(properties.mass).toBeCloseTo(24);
+    expect(properties.centroid.x).toBeCloseTo(1);
+    expect(properties.centroid.y).toBeCloseTo(2);
+    expect(properties.centroid.z).toBeCloseTo(3);
+  });
+
+  it("should compute the surface area of a box", () => {
+    const properties = computeMassProperties(new THREE.BoxGeometry(2, 3, 4));
+
+    expect(properties.surfaceArea).toBeCloseTo(2 * (6 + 8 + 12));
+    // The material groups of a BoxGeometry are not cut faces
+    expect(properties.cutFaceArea).toBe(0);
+  });
+
+  it("should compute the inertia tensor about the center of mass", () => {
+    const geometry = new THREE.BoxGeometry(2, 3, 4).translate(5, -1, 2);
+
+    const density = 2;
+    const { inertiaTensor, mass } = computeMassProperties(geometry, density);
+    const e = inertiaTensor.elements;
+
+    expect(mass).toBeCloseTo(48);
+    // Solid box: I = m / 12 * (b^2 + c^2)
+    expect(e[0]).toBeCloseTo((mass / 12) * (9 + 16));
+    expect(e[4]).toBeCloseTo((mass / 12) * (4 + 16));
+    expect(e[8]).toBeCloseTo((mass / 12) * (4 + 9));
+    // Products of inertia vanish for a box aligned with the axes
+    [1, 2, 3, 5, 6, 7].forEach((i) => expect(e[i]).toBeCloseTo(0));
+  });
+
+  it("should split mass properties consistently across a slice", () => {
+    const geometry = new THREE.SphereGeometry(1, 16, 16);
+    const [top, bottom] = slice(
+      geometry,
+      new THREE.Vector3(1, 1, 0).normalize(),
+      new THREE.Vector3(0.25, 0.25, 0),
+      new THREE.Vector2(1, 1),
+      new THREE.Vector2(0, 0),
+    );
+
+    const topProperties = computeMassProperties(top);
+    const bottomProperties = computeMassProperties(bottom);
+
+    expect(topProperties.volume + bottomProperties.volume).toBeCloseTo(
+      computeMassProperties(geometry).volume,
+    );
+    expect(topProperties.cutFaceArea).toBeCloseTo(bottomProperties.cutFaceArea);
+    expect(topProperties.cutFaceArea).toBeGreaterThan(0);
+
+    // Combined center of mass is the center of the sphere
+    const combined = topProperties.centroid
+      .clone()
+      .multiplyScalar(topProperties.volume)
+      .add(
+        bottomProperties.centroid
+          .clone()
+          .multiplyScalar(bottomProperties.volume),
+      );
+    expect(combined.length()).toBeCloseTo(0);
+  });
+
+  it("should return a negative volume for inside-out geometry", () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const index = geometry.index!;
+    for (let i = 0; i < index.count; i += 3) {
+      const a = index.getX(i);
+      index.setX(i, index.getX(i + 1));
+      index.setX(i + 1, a);
+    }
+
+    expect(computeMassProperties(geometry).volume).toBeCloseTo(-1);
+  });
+});
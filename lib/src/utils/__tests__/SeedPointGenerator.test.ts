@@ -0,0 +1,208 @@
+import { Box3, Vector3 } from "three";
+import { SeedPointGenerator } from "../SeedPointGenerator";
+import { SeededRandom } from "../SeededRandom";
+
+/**
+ * Returns the smallest distance between any two of the points
+ */
+function getMinDistance(points: Vector3[]): number {
+  let min = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      min = Math.min(min, points[i].distanceTo(points[j]));
+    }
+  }
+  return min;
+}
+
+describe("SeedPointGenerator Poisson-disk sampling", () => {
+  const bounds = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+  it("should keep seeds at least the minimum distance apart", () => {
+    const seeds = SeedPointGenerator.generatePoissonDisk(
+      bounds,
+      40,
+      0.4,
+      new SeededRandom(1),
+    );
+
+    expect(seeds).toHaveLength(40);
+    expect(getMinDistance(seeds)).toBeGreaterThanOrEqual(0.4);
+    seeds.forEach((seed) => expect(bounds.containsPoint(seed)).toBe(true));
+  });
+
+  it("should space seeds more evenly than uniform sampling", () => {
+    const uniform = SeedPointGenerator.generateUniform(
+      bounds,
+      40,
+      new SeededRandom(2),
+    );
+    const poisson = SeedPointGenerator.generatePoissonDisk(
+      bounds,
+      40,
+      undefined,
+      new SeededRandom(2),
+    );
+
+    expect(getMinDistance(poisson)).toBeGreaterThan(getMinDistance(uniform));
+  });
+
+  it("should still generate every seed if the minimum distance is too large", () => {
+    const seeds = SeedPointGenerator.generatePoissonDisk(
+      bounds,
+      20,
+      10,
+      new SeededRandom(3),
+    );
+
+    expect(seeds).toHaveLength(20);
+  });
+
+  it("should be deterministic for a seeded random number generator", () => {
+    const impactPoint = new Vector3(0.5, 0, 0);
+    const generate = () =>
+      SeedPointGenerator.generateImpactBasedPoissonDisk(
+        bounds,
+        30,
+        impactPoint,
+        0.6,
+        undefined,
+        new SeededRandom(4),
+      );
+
+    expect(generate()).toEqual(generate());
+  });
+
+  it("should cluster impact-based seeds near the impact point", () => {
+    const impactPoint = new Vector3(0.5, 0.5, 0.5);
+    const seeds = SeedPointGenerator.generateImpactBasedPoissonDisk(
+      bounds,
+      40,
+      impactPoint,
+      0.5,
+      0.4,
+      new SeededRandom(5),
+    );
+
+    // A 0.5 radius sphere covers less than 7% of the bounds
+    const nearImpact = seeds.filter(
+      (seed) => seed.distanceTo(impactPoint) < 0.5,
+    );
+    expect(nearImpact.length).toBeGreaterThan(seeds.length * 0.1);
+
+    // Spacing shrinks to a quarter of the minimum distance at the impact
+    expect(getMinDistance(seeds)).toBeGreaterThanOrEqual(0.1);
+  });
+
+  it("should keep 2.5D seeds on a plane", () => {
+    const seeds = [
+      ...SeedPointGenerator.generate2DPoissonDisk(
+        bounds,
+        20,
+        "y",
+        0.3,
+        new SeededRandom(6),
+      ),
+      ...SeedPointGenerator.generate2DImpactBasedPoissonDisk(
+        bounds,
+        20,
+        new Vector3(0.5, 0.8, 0.5),
+        0.5,
+        "y",
+        0.3,
+        new SeededRandom(6),
+      ),
+    ];
+
+    expect(seeds).toHaveLength(40);
+    seeds.forEach((seed) => expect(seed.y).toBe(0));
+    expect(getMinDistance(seeds.slice(0, 20))).toBeGreaterThanOrEqual(0.3);
+  });
+});
+
+describe("SeedPointGenerator Lloyd relaxation", () => {
+  const bounds = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+  it("should spread clumped seeds apart", () => {
+    const rng = new SeededRandom(1);
+    const seeds = SeedPointGenerator.generateUniform(bounds, 20, rng);
+    const samples = SeedPointGenerator.generateUniform(bounds, 2000, rng);
+
+    const relaxed = SeedPointGenerator.relax(seeds, samples, 5);
+
+    expect(relaxed).toHaveLength(20);
+    expect(getMinDistance(relaxed)).toBeGreaterThan(getMinDistance(seeds));
+    relaxed.forEach((seed) => expect(bounds.containsPoint(seed)).toBe(true));
+  });
+
+  it("should move seeds onto samples when snapping", () => {
+    const rng = new SeededRandom(2);
+    const seeds = SeedPointGenerator.generateUniform(bounds, 10, rng);
+    const samples = SeedPointGenerator.generateUniform(bounds, 500, rng);
+
+    const relaxed = SeedPointGenerator.relax(seeds, samples, 3, true);
+
+    relaxed.forEach((seed) => expect(samples).toContainEqual(seed));
+
+    // Every sample belongs to one cell, so no two seeds share a sample
+    const keys = new Set(relaxed.map((seed) => seed.toArray().join()));
+    expect(keys.size).toBe(10);
+  });
+});
+
+describe("SeedPointGenerator radial pattern", () => {
+  const bounds = new Box3(new Vector3(-2, -3, -0.1), new Vector3(2, 3, 0.1));
+
+  it("should place a seed on every spoke of every ring", () => {
+    const impactPoint = new Vector3(0.5, -1, 0.3);
+    const seeds = SeedPointGenerator.generateRadial(
+      bounds,
+      impactPoint,
+      8,
+      3,
+      2,
+      "z",
+      0,
+      new SeededRandom(1),
+    );
+
+    expect(seeds).toHaveLength(24);
+    seeds.forEach((seed) => expect(seed.z).toBe(0));
+
+    // Without irregularity, the rings are circles whose radii double
+    const radii = seeds.map((seed) =>
+      Math.hypot(seed.x - impactPoint.x, seed.y - impactPoint.y),
+    );
+    for (let i = 0; i < 8; i++) {
+      expect(radii[8 + i]).toBeCloseTo(radii[0] * 2, 10);
+      expect(radii[16 + i]).toBeCloseTo(radii[0] * 4, 10);
+    }
+
+    // Seeds in the same ring are evenly spaced around the impact point
+    const angles = seeds
+      .slice(0, 8)
+      .map((seed) =>
+        Math.atan2(seed.y - impactPoint.y, seed.x - impactPoint.x),
+      );
+    for (let i = 1; i < 8; i++) {
+      const step = (angles[i] - angles[i - 1] + 2 * Math.PI) % (2 * Math.PI);
+      expect(step).toBeCloseTo(Math.PI / 4, 10);
+    }
+  });
+
+  it("should be deterministic for a seeded random number generator", () => {
+    const generate = () =>
+      SeedPointGenerator.generateRadial(
+        bounds,
+        new Vector3(),
+        6,
+        4,
+        1.6,
+        "z",
+        0.5,
+        new SeededRandom(2),
+      );
+
+    expect(generate()).toEqual(generate());
+  });
+});
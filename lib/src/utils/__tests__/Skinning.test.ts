@@ -0,0 +1,129 @@
+import * as THREE from "three";
+import {
+  bakeSkinnedPose,
+  blendSkinWeights,
+  restoreBindPose,
+} from "../Skinning";
+
+/**
+ * Creates a cylinder skinned to two bones, with the upper bone rotated
+ */
+function createSkinnedCylinder(): THREE.SkinnedMesh {
+  const geometry = new THREE.CylinderGeometry(0.5, 0.5, 2, 8, 4);
+  const position = geometry.attributes.position;
+  const skinIndices: number[] = [];
+  const skinWeights: number[] = [];
+  for (let i = 0; i < position.count; i++) {
+    const weight = THREE.MathUtils.clamp(position.getY(i) + 0.5, 0, 1);
+    skinIndices.push(0, 1, 0, 0);
+    skinWeights.push(1 - weight, weight, 0, 0);
+  }
+  geometry.setAttribute(
+    "skinIndex",
+    new THREE.Uint16BufferAttribute(skinIndices, 4),
+  );
+  geometry.setAttribute(
+    "skinWeight",
+    new THREE.Float32BufferAttribute(skinWeights, 4),
+  );
+
+  const root = new THREE.Bone();
+  root.position.y = -1;
+  const child = new THREE.Bone();
+  child.position.y = 1;
+  root.add(child);
+
+  const mesh = new THREE.SkinnedMesh(geometry, new THREE.MeshBasicMaterial());
+  mesh.add(root);
+  mesh.bind(new THREE.Skeleton([root, child]));
+
+  child.rotation.z = Math.PI / 4;
+  return mesh;
+}
+
+describe("Skinning", () => {
+  describe("bakeSkinnedPose", () => {
+    it("should apply the current pose to the positions", () => {
+      const mesh = createSkinnedCylinder();
+
+      const posed = bakeSkinnedPose(mesh);
+
+      const expected = new THREE.Vector3();
+      for (let i = 0; i < posed.attributes.position.count; i++) {
+        expected.fromBufferAttribute(mesh.geometry.attributes.position, i);
+        mesh.applyBoneTransform(i, expected);
+        expect(posed.attributes.position.getX(i)).toBeCloseTo(expected.x);
+        expect(posed.attributes.position.getY(i)).toBeCloseTo(expected.y);
+        expect(posed.attributes.position.getZ(i)).toBeCloseTo(expected.z);
+      }
+    });
+
+    it("should leave the source geometry untouched", () => {
+      const mesh = createSkinnedCylinder();
+      const original = mesh.geometry.attributes.position.clone();
+
+      bakeSkinnedPose(mesh);
+
+      expect(mesh.geometry.attributes.position.array).toEqual(original.array);
+    });
+
+    it("should throw if the geometry has no skin weights", () => {
+      const mesh = createSkinnedCylinder();
+      mesh.geometry.deleteAttribute("skinWeight");
+
+      expect(() => bakeSkinnedPose(mesh)).toThrow();
+    });
+  });
+
+  describe("restoreBindPose", () => {
+    it("should undo bakeSkinnedPose", () => {
+      const mesh = createSkinnedCylinder();
+      const { position, normal } = mesh.geometry.attributes;
+
+      const geometry = bakeSkinnedPose(mesh);
+      restoreBindPose(geometry, mesh);
+
+      for (let i = 0; i < position.count; i++) {
+        expect(geometry.attributes.position.getX(i)).toBeCloseTo(
+          position.getX(i),
+        );
+        expect(geometry.attributes.position.getY(i)).toBeCloseTo(
+          position.getY(i),
+        );
+        expect(geometry.attributes.normal.getX(i)).toBeCloseTo(normal.getX(i));
+        expect(geometry.attributes.normal.getY(i)).toBeCloseTo(normal.getY(i));
+      }
+    });
+  });
+
+  describe("blendSkinWeights", () => {
+    it("should combine the weights of shared bones", () => {
+      const { indices, weights } = blendSkinWeights(
+        [0, 1, 0, 0],
+        [0.5, 0.5, 0, 0],
+        [1, 2, 0, 0],
+        [0.5, 0.5, 0, 0],
+        0.5,
+      );
+
+      expect(indices.slice(0, 3)).toEqual([1, 0, 2]);
+      expect(weights[0]).toBeCloseTo(0.5);
+      expect(weights[1]).toBeCloseTo(0.25);
+      expect(weights[2]).toBeCloseTo(0.25);
+      expect(weights[3]).toBe(0);
+    });
+
+    it("should keep the strongest influences and normalize them", () => {
+      const { indices, weights } = blendSkinWeights(
+        [0, 1, 2, 3],
+        [0.4, 0.3, 0.2, 0.1],
+        [4, 5, 6, 7],
+        [0.4, 0.3, 0.2, 0.1],
+        0.5,
+      );
+
+      expect(indices).toEqual([0, 4, 1, 5]);
+      expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1);
+    });
+  });
+});
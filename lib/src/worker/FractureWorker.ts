@@ -0,0 +1,160 @@
+import * as THREE from "three";
+import { Vector2, Vector3 } from "three";
+import {
+  fractureGeometry,
+  toVoronoiFractureOptions,
+} from "../fracture/FractureGeometry";
+import { slice } from "../fracture/Slice";
+import { computeVoronoiCells } from "../fracture/VoronoiFracture";
+import {
+  fragmentToGeometry,
+  geometryToFragment,
+} from "../utils/GeometryConversion";
+import {
+  SerializedGeometry,
+  deserializeGeometry,
+  getTransferables,
+  serializeGeometry,
+} from "../utils/GeometrySerialization";
+import {
+  FractureWorkerRequest,
+  FractureWorkerResponse,
+  SerializedVoronoiCellOptions,
+  deserializeFractureOptions,
+  deserializePoints,
+} from "./FractureWorkerMessages";
+
+/**
+ * Minimal interface of the global scope inside a dedicated worker
+ */
+export interface FractureWorkerScope {
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<FractureWorkerRequest>) => void,
+  ): void;
+  postMessage(message: FractureWorkerResponse, transfer: ArrayBuffer[]): void;
+}
+
+/**
+ * Executes a fracture or slice request and returns the serialized results.
+ * This runs inside the worker, but is also used directly on the main thread
+ * when workers are unavailable.
+ * @param request The request to process
+ * @returns The response containing the fragment geometries or an error message
+ */
+export function processFractureRequest(
+  request: FractureWorkerRequest,
+): FractureWorkerResponse {
+  try {
+    const geometry = deserializeGeometry(request.geometry);
+
+    if (request.type === "voronoiCells") {
+      return {
+        id: request.id,
+        ...processVoronoiCells(geometry, request.options),
+      };
+    }
+
+    let geometries;
+    if (request.type === "fracture") {
+      geometries = fractureGeometry(
+        geometry,
+        deserializeFractureOptions(request.options),
+      );
+    } else {
+      const {
+        sliceNormal,
+        sliceOrigin,
+        textureScale,
+        textureOffset,
+        attributeFill,
+        cutFaceNoise,
+        cutFaceUVMode,
+        generateTangents,
+        generateSourcePositions,
+      } = request.options;
+      geometries = slice(
+        geometry,
+        new Vector3(...sliceNormal),
+        new Vector3(...sliceOrigin),
+        new Vector2(...textureScale),
+        new Vector2(...textureOffset),
+        attributeFill,
+        cutFaceNoise,
+        cutFaceUVMode,
+        generateTangents,
+        generateSourcePositions,
+      );
+    }
+
+    return {
+      id: request.id,
+      geometries: geometries.map((g) => serializeGeometry(g)),
+    };
+  } catch (error) {
+    return {
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Computes a batch of Voronoi cells. Each resulting geometry is tagged with
+ * the index of the cell it belongs to so batches can be merged in order.
+ */
+function processVoronoiCells(
+  geometry: THREE.BufferGeometry,
+  options: SerializedVoronoiCellOptions,
+): { geometries: SerializedGeometry[]; cellIndices: Uint32Array } {
+  const fractureOptions = deserializeFractureOptions(options.fracture);
+  const cells = computeVoronoiCells(
+    geometryToFragment(
+      geometry,
+      fractureOptions.attributeFill,
+      fractureOptions.generateTangents,
+      fractureOptions.generateSourcePositions,
+    ),
+    deserializePoints(options.seeds),
+    toVoronoiFractureOptions(fractureOptions),
+    options.cellIndices,
+  );
+
+  const geometries: SerializedGeometry[] = [];
+  const cellIndices: number[] = [];
+  cells.forEach((fragments, i) => {
+    for (const fragment of fragments) {
+      geometries.push(serializeGeometry(fragmentToGeometry(fragment)));
+      cellIndices.push(options.cellIndices[i]);
+    }
+  });
+
+  return { geometries, cellIndices: new Uint32Array(cellIndices) };
+}
+
+/**
+ * Registers the fracture message handler on the worker's global scope.
+ * Call this from the module that is loaded as the worker, e.g.
+ *
+ * ```ts
+ * // fracture.worker.ts
+ * import { registerFractureWorker } from "@dgreenheck/three-pinata";
+ * registerFractureWorker();
+ * ```
+ * @param scope The worker global scope (defaults to `self`)
+ */
+export function registerFractureWorker(
+  scope: FractureWorkerScope = globalThis as unknown as FractureWorkerScope,
+): void {
+  scope.addEventListener("message", (event) => {
+    const response = processFractureRequest(event.data);
+    const transfer: ArrayBuffer[] = [];
+    if ("geometries" in response) {
+      response.geometries.forEach((g) => transfer.push(...getTransferables(g)));
+      if (response.cellIndices) {
+        transfer.push(response.cellIndices.buffer as ArrayBuffer);
+      }
+    }
+    scope.postMessage(response, transfer);
+  });
+}
@@ -0,0 +1,238 @@
+import { getTransferables } from "../utils/GeometrySerialization";
+import { processFractureRequest } from "./FractureWorker";
+import {
+  FractureWorkerResponse,
+  FractureWorkerResult,
+  FractureWorkerTask,
+  findCallbackFillPolicy,
+} from "./FractureWorkerMessages";
+
+/**
+ * Function that creates a new worker running `registerFractureWorker()`
+ */
+export type FractureWorkerFactory = () => Worker;
+
+type PendingRequest = {
+  resolve: (result: FractureWorkerResult) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Sends fracture tasks to a single worker and matches up the responses
+ */
+export class FractureWorkerClient {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+
+    this.worker.onmessage = (event: MessageEvent<FractureWorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if ("error" in response) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve({
+          geometries: response.geometries,
+          cellIndices: response.cellIndices,
+        });
+      }
+    };
+
+    this.worker.onerror = (event: ErrorEvent) => {
+      // An uncaught error leaves the worker in an unknown state, so fail
+      // every request that is still in flight
+      const error = new Error(event.message || "Fracture worker error");
+      this.pending.forEach((request) => request.reject(error));
+      this.pending.clear();
+    };
+  }
+
+  /**
+   * Number of tasks that have been sent but not yet completed
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Sends a task to the worker. The geometry buffers in `task` are transferred
+   * to the worker and can no longer be used by the caller.
+   * @param task The task to run
+   * @returns Promise resolving to the result of the task
+   */
+  run(task: FractureWorkerTask): Promise<FractureWorkerResult> {
+    // Fail with a clear message rather than a DataCloneError
+    const callbackAttribute = findCallbackFillPolicy(task);
+    if (callbackAttribute !== undefined) {
+      return Promise.reject(
+        new Error(
+          `The fill policy of attribute "${callbackAttribute}" is a callback, ` +
+            "which can't be posted to a fracture worker",
+        ),
+      );
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      try {
+        this.worker.postMessage(
+          { ...task, id },
+          getTransferables(task.geometry),
+        );
+      } catch (error) {
+        // The worker never received the task, so it won't respond to it
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Terminates the worker. Any pending tasks are rejected.
+   */
+  terminate(): void {
+    this.worker.terminate();
+    const error = new Error("Fracture worker was terminated");
+    this.pending.forEach((request) => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+/**
+ * A fixed-size pool of fracture workers. Each task is sent to the worker with
+ * the fewest tasks in flight.
+ */
+export class FractureWorkerPool {
+  private clients: FractureWorkerClient[];
+
+  /**
+   * Creates a new worker pool
+   * @param factory Function used to create each worker
+   * @param size Number of workers in the pool
+   */
+  constructor(factory: FractureWorkerFactory, size: number = 1) {
+    if (size < 1) {
+      throw new Error("Worker pool size must be at least 1");
+    }
+
+    this.clients = [];
+    try {
+      for (let i = 0; i < size; i++) {
+        this.clients.push(new FractureWorkerClient(factory()));
+      }
+    } catch (error) {
+      // Don't leak the workers that were created before the failure
+      this.terminate();
+      throw error;
+    }
+  }
+
+  /**
+   * Number of workers in the pool
+   */
+  get size(): number {
+    return this.clients.length;
+  }
+
+  /**
+   * Sends a task to the least busy worker in the pool
+   * @param task The task to run
+   * @returns Promise resolving to the result of the task
+   */
+  run(task: FractureWorkerTask): Promise<FractureWorkerResult> {
+    let client = this.clients[0];
+    for (const candidate of this.clients) {
+      if (candidate.pendingCount < client.pendingCount) {
+        client = candidate;
+      }
+    }
+    return client.run(task);
+  }
+
+  /**
+   * Terminates all workers in the pool. Any pending tasks are rejected.
+   */
+  terminate(): void {
+    this.clients.forEach((client) => client.terminate());
+  }
+}
+
+let workerFactory: FractureWorkerFactory | null = null;
+let workerPoolSize = 1;
+let sharedPool: FractureWorkerPool | null = null;
+
+/**
+ * Sets the factory used to create the workers for `fractureAsync()` and
+ * `sliceAsync()`. If no factory is set, the work is performed on the main
+ * thread instead. Pass `null` to terminate the current workers and return to
+ * main-thread execution.
+ *
+ * ```ts
+ * setFractureWorkerFactory(
+ *   () => new Worker(new URL("./fracture.worker.ts", import.meta.url), { type: "module" }),
+ *   navigator.hardwareConcurrency,
+ * );
+ * ```
+ * @param factory The worker factory
+ * @param poolSize Number of workers to create. Voronoi cells are spread
+ * across all workers in the pool.
+ */
+export function setFractureWorkerFactory(
+  factory: FractureWorkerFactory | null,
+  poolSize: number = 1,
+): void {
+  if (sharedPool) {
+    sharedPool.terminate();
+    sharedPool = null;
+  }
+  workerFactory = factory;
+  workerPoolSize = Math.max(1, Math.floor(poolSize));
+}
+
+/**
+ * Returns the shared worker pool, creating it if necessary. Returns null if
+ * no worker factory has been set or workers cannot be created.
+ */
+export function getFractureWorkerPool(): FractureWorkerPool | null {
+  if (!sharedPool && workerFactory) {
+    try {
+      sharedPool = new FractureWorkerPool(workerFactory, workerPoolSize);
+    } catch (error) {
+      // Workers are not supported in this environment (e.g. Node),
+      // so fall back to the main thread from now on
+      console.warn("Failed to create fracture worker:", error);
+      workerFactory = null;
+    }
+  }
+  return sharedPool;
+}
+
+/**
+ * Runs a fracture task on the shared worker pool, or on the main thread if no
+ * worker is available. Either way, the result is delivered asynchronously.
+ * @param task The task to run
+ * @returns Promise resolving to the result of the task
+ */
+export function runFractureTask(
+  task: FractureWorkerTask,
+): Promise<FractureWorkerResult> {
+  const pool = getFractureWorkerPool();
+  if (pool) {
+    return pool.run(task);
+  }
+
+  return Promise.resolve().then(() => {
+    const response = processFractureRequest({ ...task, id: 0 });
+    if ("error" in response) {
+      throw new Error(response.error);
+    }
+    return response;
+  });
+}
@@ -0,0 +1,334 @@
+import { Matrix3, Vector2, Vector3 } from "three";
+import {
+  FractureOptions,
+  GlassOptions,
+  VoronoiOptions,
+} from "../entities/FractureOptions";
+import { SliceOptions } from "../entities/SliceOptions";
+import { AttributeFillPolicy } from "../entities/VertexAttributeChannel";
+import { CutFaceNoiseOptions } from "../entities/CutFaceNoiseOptions";
+import { CutFaceUVMode } from "../entities/CutFaceUVMode";
+import { SerializedGeometry } from "../utils/GeometrySerialization";
+
+type Vec2 = [number, number];
+type Vec3 = [number, number, number];
+
+/**
+ * Plain-data representation of VoronoiOptions. Vectors are stored as tuples
+ * since class instances lose their prototype when posted to a worker.
+ */
+export interface SerializedVoronoiOptions {
+  mode: "3D" | "2.5D";
+  seedPoints?: Float64Array;
+  impactPoint?: Vec3;
+  impactRadius?: number;
+  projectionAxis?: "x" | "y" | "z" | "auto";
+  projectionNormal?: Vec3;
+  useApproximation?: boolean;
+  approximationNeighborCount?: number;
+  useDelaunayNeighbors?: boolean;
+  seedDistribution?: "uniform" | "poisson";
+  minSeedDistance?: number;
+  seedPlacement?: "bounds" | "interior" | "surface";
+  relaxationIterations?: number;
+  grainDirection?: Vec3;
+  grainStretch?: number;
+  metric?: number[];
+}
+
+/**
+ * Plain-data representation of GlassOptions
+ */
+export interface SerializedGlassOptions {
+  impactPoint?: Vec3;
+  projectionAxis?: "x" | "y" | "z" | "auto";
+  radialCrackCount?: number;
+  ringCount?: number;
+  ringSpacing?: number;
+  irregularity?: number;
+}
+
+/**
+ * Plain-data representation of FractureOptions
+ */
+export interface SerializedFractureOptions {
+  fractureMethod: "voronoi" | "simple" | "glass";
+  fragmentCount: number;
+  voronoiOptions?: SerializedVoronoiOptions;
+  glassOptions?: SerializedGlassOptions;
+  fracturePlanes: { x: boolean; y: boolean; z: boolean };
+  textureScale: Vec2;
+  textureOffset: Vec2;
+  seed?: number;
+  pivot: "boundingBox" | "centerOfMass";
+  /**
+   * Passed through as-is, so callback policies only work on the main thread.
+   * Tasks with callback policies are rejected before they are posted.
+   */
+  attributeFill?: Record<string, AttributeFillPolicy>;
+  cutFaceNoise?: CutFaceNoiseOptions;
+  cutFaceUVMode?: CutFaceUVMode;
+  generateTangents?: boolean;
+  generateSourcePositions?: boolean;
+}
+
+/**
+ * Plain-data representation of a slice operation
+ */
+export interface SerializedSliceOptions {
+  sliceNormal: Vec3;
+  sliceOrigin: Vec3;
+  textureScale: Vec2;
+  textureOffset: Vec2;
+  attributeFill?: Record<string, AttributeFillPolicy>;
+  cutFaceNoise?: CutFaceNoiseOptions;
+  cutFaceUVMode?: CutFaceUVMode;
+  generateTangents?: boolean;
+  generateSourcePositions?: boolean;
+}
+
+/**
+ * Plain-data representation of a batch of Voronoi cells to compute
+ */
+export interface SerializedVoronoiCellOptions {
+  /**
+   * All seed points stored as xyz triplets
+   */
+  seeds: Float64Array;
+  /**
+   * Indices of the seeds to compute cells for
+   */
+  cellIndices: Uint32Array;
+  /**
+   * Options of the fracture the cells belong to
+   */
+  fracture: SerializedFractureOptions;
+}
+
+/**
+ * Work to be performed by a fracture worker
+ */
+export type FractureWorkerTask =
+  | {
+      type: "fracture";
+      geometry: SerializedGeometry;
+      options: SerializedFractureOptions;
+    }
+  | {
+      type: "slice";
+      geometry: SerializedGeometry;
+      options: SerializedSliceOptions;
+    }
+  | {
+      type: "voronoiCells";
+      geometry: SerializedGeometry;
+      options: SerializedVoronoiCellOptions;
+    };
+
+/**
+ * Message sent from the main thread to a fracture worker
+ */
+export type FractureWorkerRequest = FractureWorkerTask & { id: number };
+
+/**
+ * Result of a completed fracture worker task
+ */
+export interface FractureWorkerResult {
+  geometries: SerializedGeometry[];
+  /**
+   * For "voronoiCells" tasks, the index of the cell each geometry belongs to
+   */
+  cellIndices?: Uint32Array;
+}
+
+/**
+ * Message sent from a fracture worker back to the main thread
+ */
+export type FractureWorkerResponse =
+  | ({ id: number } & FractureWorkerResult)
+  | { id: number; error: string };
+
+/**
+ * Returns the name of an attribute whose fill policy in the task is a
+ * callback, which can't be posted to a worker
+ */
+export function findCallbackFillPolicy(
+  task: FractureWorkerTask,
+): string | undefined {
+  const attributeFill =
+    task.type === "voronoiCells"
+      ? task.options.fracture.attributeFill
+      : task.options.attributeFill;
+  return Object.keys(attributeFill ?? {}).find(
+    (name) => typeof attributeFill![name] === "function",
+  );
+}
+
+/**
+ * Converts FractureOptions into a form that can be posted to a worker
+ */
+export function serializeFractureOptions(
+  options: FractureOptions,
+): SerializedFractureOptions {
+  return {
+    fractureMethod: options.fractureMethod,
+    fragmentCount: options.fragmentCount,
+    voronoiOptions: options.voronoiOptions
+      ? serializeVoronoiOptions(options.voronoiOptions)
+      : undefined,
+    glassOptions: options.glassOptions
+      ? serializeGlassOptions(options.glassOptions)
+      : undefined,
+    fracturePlanes: { ...options.fracturePlanes },
+    textureScale: [options.textureScale.x, options.textureScale.y],
+    textureOffset: [options.textureOffset.x, options.textureOffset.y],
+    seed: options.seed,
+    pivot: options.pivot,
+    attributeFill: options.attributeFill,
+    cutFaceNoise: options.cutFaceNoise,
+    cutFaceUVMode: options.cutFaceUVMode,
+    generateTangents: options.generateTangents,
+    generateSourcePositions: options.generateSourcePositions,
+  };
+}
+
+/**
+ * Rebuilds FractureOptions from its serialized form
+ */
+export function deserializeFractureOptions(
+  data: SerializedFractureOptions,
+): FractureOptions {
+  return new FractureOptions({
+    fractureMethod: data.fractureMethod,
+    fragmentCount: data.fragmentCount,
+    voronoiOptions: data.voronoiOptions
+      ? deserializeVoronoiOptions(data.voronoiOptions)
+      : undefined,
+    glassOptions: data.glassOptions
+      ? deserializeGlassOptions(data.glassOptions)
+      : undefined,
+    fracturePlanes: { ...data.fracturePlanes },
+    textureScale: new Vector2(...data.textureScale),
+    textureOffset: new Vector2(...data.textureOffset),
+    seed: data.seed,
+    pivot: data.pivot,
+    attributeFill: data.attributeFill,
+    cutFaceNoise: data.cutFaceNoise,
+    cutFaceUVMode: data.cutFaceUVMode,
+    generateTangents: data.generateTangents,
+    generateSourcePositions: data.generateSourcePositions,
+  });
+}
+
+/**
+ * Converts slice parameters into a form that can be posted to a worker
+ */
+export function serializeSliceOptions(
+  sliceNormal: Vector3,
+  sliceOrigin: Vector3,
+  options: SliceOptions,
+): SerializedSliceOptions {
+  return {
+    sliceNormal: sliceNormal.toArray() as Vec3,
+    sliceOrigin: sliceOrigin.toArray() as Vec3,
+    textureScale: [options.textureScale.x, options.textureScale.y],
+    textureOffset: [options.textureOffset.x, options.textureOffset.y],
+    attributeFill: options.attributeFill,
+    cutFaceNoise: options.cutFaceNoise,
+    cutFaceUVMode: options.cutFaceUVMode,
+    generateTangents: options.generateTangents,
+    generateSourcePositions: options.generateSourcePositions,
+  };
+}
+
+/**
+ * Packs an array of points into a flat array of xyz triplets
+ */
+export function serializePoints(points: Vector3[]): Float64Array {
+  const data = new Float64Array(points.length * 3);
+  points.forEach((p, i) => p.toArray(data, 3 * i));
+  return data;
+}
+
+/**
+ * Unpacks a flat array of xyz triplets into an array of points
+ */
+export function deserializePoints(data: ArrayLike<number>): Vector3[] {
+  const points: Vector3[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    points.push(new Vector3().fromArray(data, i));
+  }
+  return points;
+}
+
+function serializeVoronoiOptions(
+  options: VoronoiOptions,
+): SerializedVoronoiOptions {
+  return {
+    mode: options.mode,
+    seedPoints: options.seedPoints
+      ? serializePoints(options.seedPoints)
+      : undefined,
+    impactPoint: options.impactPoint?.toArray() as Vec3 | undefined,
+    impactRadius: options.impactRadius,
+    projectionAxis: options.projectionAxis,
+    projectionNormal: options.projectionNormal?.toArray() as Vec3 | undefined,
+    useApproximation: options.useApproximation,
+    approximationNeighborCount: options.approximationNeighborCount,
+    useDelaunayNeighbors: options.useDelaunayNeighbors,
+    seedDistribution: options.seedDistribution,
+    minSeedDistance: options.minSeedDistance,
+    seedPlacement: options.seedPlacement,
+    relaxationIterations: options.relaxationIterations,
+    grainDirection: options.grainDirection?.toArray() as Vec3 | undefined,
+    grainStretch: options.grainStretch,
+    metric: options.metric?.toArray(),
+  };
+}
+
+function deserializeVoronoiOptions(
+  data: SerializedVoronoiOptions,
+): VoronoiOptions {
+  return {
+    mode: data.mode,
+    seedPoints: data.seedPoints
+      ? deserializePoints(data.seedPoints)
+      : undefined,
+    impactPoint: data.impactPoint
+      ? new Vector3(...data.impactPoint)
+      : undefined,
+    impactRadius: data.impactRadius,
+    projectionAxis: data.projectionAxis,
+    projectionNormal: data.projectionNormal
+      ? new Vector3(...data.projectionNormal)
+      : undefined,
+    useApproximation: data.useApproximation,
+    approximationNeighborCount: data.approximationNeighborCount,
+    useDelaunayNeighbors: data.useDelaunayNeighbors,
+    seedDistribution: data.seedDistribution,
+    minSeedDistance: data.minSeedDistance,
+    seedPlacement: data.seedPlacement,
+    relaxationIterations: data.relaxationIterations,
+    grainDirection: data.grainDirection
+      ? new Vector3(...data.grainDirection)
+      : undefined,
+    grainStretch: data.grainStretch,
+    metric: data.metric ? new Matrix3().fromArray(data.metric) : undefined,
+  };
+}
+
+function serializeGlassOptions(options: GlassOptions): SerializedGlassOptions {
+  return {
+    ...options,
+    impactPoint: options.impactPoint?.toArray() as Vec3 | undefined,
+  };
+}
+
+function deserializeGlassOptions(data: SerializedGlassOptions): GlassOptions {
+  return {
+    ...data,
+    impactPoint: data.impactPoint
+      ? new Vector3(...data.impactPoint)
+      : undefined,
+  };
+}
@@ -0,0 +1,85 @@
+import * as THREE from "three";
+import { FractureOptions } from "../entities/FractureOptions";
+import { toVoronoiFractureOptions } from "../fracture/FractureGeometry";
+import {
+  generateVoronoiSeeds,
+  warnIfApproximate,
+} from "../fracture/VoronoiFracture";
+import { geometryToFragment } from "../utils/GeometryConversion";
+import {
+  SerializedGeometry,
+  deserializeGeometry,
+  serializeGeometry,
+} from "../utils/GeometrySerialization";
+import { SeededRandom } from "../utils/SeededRandom";
+import { FractureWorkerPool } from "./FractureWorkerClient";
+import {
+  serializeFractureOptions,
+  serializePoints,
+} from "./FractureWorkerMessages";
+
+/**
+ * Fractures a mesh using Voronoi tessellation, spreading the cells across
+ * the workers in `pool`. The seed points are generated on the calling thread
+ * so the result is identical to `voronoiFracture()` for the same seed,
+ * including the order of the fragments.
+ *
+ * @param geometry The source geometry to fracture
+ * @param options Fracture options (fractureMethod must be 'voronoi')
+ * @param pool The worker pool to compute the cells on
+ * @returns Promise resolving to the array of fractured geometry pieces
+ */
+export async function voronoiFractureParallel(
+  geometry: THREE.BufferGeometry,
+  options: FractureOptions,
+  pool: FractureWorkerPool,
+): Promise<THREE.BufferGeometry[]> {
+  const voronoiOptions = toVoronoiFractureOptions(options);
+
+  // Generate the seeds exactly as voronoiFracture() does so the pattern
+  // is deterministic for a given seed
+  const rng = new SeededRandom(voronoiOptions.seed);
+  const sourceFragment = geometryToFragment(geometry);
+  const seeds = generateVoronoiSeeds(sourceFragment, voronoiOptions, rng);
+
+  warnIfApproximate(voronoiOptions, seeds.length);
+
+  // Interleave the cells between batches so that expensive regions of the
+  // mesh are shared between workers
+  const batchCount = Math.min(pool.size, seeds.length);
+  const batches: number[][] = Array.from({ length: batchCount }, () => []);
+  for (let i = 0; i < seeds.length; i++) {
+    batches[i % batchCount].push(i);
+  }
+
+  // All batches must use the same seed as the seed points were generated with
+  const serializedOptions = serializeFractureOptions(options);
+  serializedOptions.seed = rng.getSeed();
+  const serializedSeeds = serializePoints(seeds);
+
+  const results = await Promise.all(
+    batches.map((cellIndices) =>
+      pool.run({
+        type: "voronoiCells",
+        geometry: serializeGeometry(geometry),
+        options: {
+          seeds: serializedSeeds.slice(),
+          cellIndices: new Uint32Array(cellIndices),
+          fracture: serializedOptions,
+        },
+      }),
+    ),
+  );
+
+  // Merge the batches back into seed order. Array.sort is stable, so the
+  // fragments within each cell keep their original order.
+  const entries: { cell: number; geometry: SerializedGeometry }[] = [];
+  for (const result of results) {
+    result.geometries.forEach((geometry, i) => {
+      entries.push({ cell: result.cellIndices![i], geometry });
+    });
+  }
+  entries.sort((a, b) => a.cell - b.cell);
+
+  return entries.map((entry) => deserializeGeometry(entry.geometry));
+}
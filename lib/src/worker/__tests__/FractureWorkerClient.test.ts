@@ -0,0 +1,206 @@
+import * as THREE from "three";
+import { FakeWorker } from "../../__tests__/utils/FakeWorker";
+import { FractureOptions } from "../../entities/FractureOptions";
+import { serializeGeometry } from "../../utils/GeometrySerialization";
+import {
+  FractureWorkerClient,
+  FractureWorkerPool,
+} from "../FractureWorkerClient";
+import {
+  deserializeFractureOptions,
+  serializeFractureOptions,
+} from "../FractureWorkerMessages";
+
+describe("FractureWorkerClient", () => {
+  const geometry = new THREE.SphereGeometry(1, 8, 8);
+
+  it("should round-trip fracture options", () => {
+    const options = new FractureOptions({
+      fragmentCount: 7,
+      seed: 42,
+      voronoiOptions: {
+        mode: "2.5D",
+        seedPoints: [new THREE.Vector3(0.1, 0.2, 0.3)],
+        impactPoint: new THREE.Vector3(1, 2, 3),
+        projectionNormal: new THREE.Vector3(0, 1, 0),
+      },
+    });
+
+    const result = deserializeFractureOptions(
+      serializeFractureOptions(options),
+    );
+
+    expect(result.fragmentCount).toBe(7);
+    expect(result.seed).toBe(42);
+    expect(result.voronoiOptions!.mode).toBe("2.5D");
+    expect(result.voronoiOptions!.seedPoints![0]).toEqual(
+      new THREE.Vector3(0.1, 0.2, 0.3),
+    );
+    expect(result.voronoiOptions!.impactPoint).toBeInstanceOf(THREE.Vector3);
+    expect(result.textureScale).toBeInstanceOf(THREE.Vector2);
+  });
+
+  it("should round-trip glass options", () => {
+    const options = new FractureOptions({
+      fractureMethod: "glass",
+      glassOptions: {
+        impactPoint: new THREE.Vector3(1, 2, 3),
+        radialCrackCount: 9,
+      },
+    });
+
+    const result = deserializeFractureOptions(
+      serializeFractureOptions(options),
+    );
+
+    expect(result.fractureMethod).toBe("glass");
+    expect(result.glassOptions!.impactPoint).toEqual(
+      new THREE.Vector3(1, 2, 3),
+    );
+    expect(result.glassOptions!.radialCrackCount).toBe(9);
+  });
+
+  it("should resolve with the fragment geometries from the worker", async () => {
+    const client = new FractureWorkerClient(
+      new FakeWorker() as unknown as Worker,
+    );
+
+    const results = await client.run({
+      type: "fracture",
+      geometry: serializeGeometry(geometry),
+      options: serializeFractureOptions(
+        new FractureOptions({ fragmentCount: 4, seed: 1 }),
+      ),
+    });
+
+    expect(results.geometries.length).toBeGreaterThan(0);
+    expect(client.pendingCount).toBe(0);
+  });
+
+  it("should reject when the worker reports an error", async () => {
+    const client = new FractureWorkerClient(
+      new FakeWorker() as unknown as Worker,
+    );
+
+    // Geometry with no vertices cannot be fractured
+    await expect(
+      client.run({
+        type: "fracture",
+        geometry: {
+          positions: new Float32Array(0),
+          normals: new Float32Array(0),
+          groups: new Uint32Array(0),
+        },
+        options: serializeFractureOptions(new FractureOptions()),
+      }),
+    ).rejects.toThrow();
+  });
+
+  it("should reject pending tasks when terminated", async () => {
+    const client = new FractureWorkerClient(
+      new FakeWorker() as unknown as Worker,
+    );
+
+    const promise = client.run({
+      type: "fracture",
+      geometry: serializeGeometry(geometry),
+      options: serializeFractureOptions(new FractureOptions()),
+    });
+    client.terminate();
+
+    await expect(promise).rejects.toThrow("terminated");
+  });
+
+  it("should forget tasks that could not be posted", async () => {
+    const worker = new FakeWorker();
+    jest.spyOn(worker, "postMessage").mockImplementation(() => {
+      throw new Error("DataCloneError");
+    });
+    const client = new FractureWorkerClient(worker as unknown as Worker);
+
+    await expect(
+      client.run({
+        type: "fracture",
+        geometry: serializeGeometry(geometry),
+        options: serializeFractureOptions(new FractureOptions()),
+      }),
+    ).rejects.toThrow("DataCloneError");
+    expect(client.pendingCount).toBe(0);
+  });
+
+  it("should reject callback fill policies without posting them", async () => {
+    const worker = new FakeWorker();
+    jest.spyOn(worker, "postMessage");
+    const client = new FractureWorkerClient(worker as unknown as Worker);
+
+    await expect(
+      client.run({
+        type: "fracture",
+        geometry: serializeGeometry(geometry),
+        options: serializeFractureOptions(
+          new FractureOptions({ attributeFill: { color: () => [1, 0, 0] } }),
+        ),
+      }),
+    ).rejects.toThrow('The fill policy of attribute "color" is a callback');
+    expect(worker.postMessage).not.toHaveBeenCalled();
+    expect(client.pendingCount).toBe(0);
+  });
+});
+
+describe("FractureWorkerPool", () => {
+  const geometry = new THREE.SphereGeometry(1, 8, 8);
+
+  it("should create one worker per slot", () => {
+    const factory = jest.fn(() => new FakeWorker() as unknown as Worker);
+    const pool = new FractureWorkerPool(factory, 3);
+
+    expect(pool.size).toBe(3);
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it("should reject invalid pool sizes", () => {
+    expect(
+      () =>
+        new FractureWorkerPool(() => new FakeWorker() as unknown as Worker, 0),
+    ).toThrow();
+  });
+
+  it("should terminate created workers if the factory fails", () => {
+    const created: FakeWorker[] = [];
+    const factory = () => {
+      if (created.length === 2) throw new Error("Worker is not defined");
+      const worker = new FakeWorker();
+      created.push(worker);
+      return worker as unknown as Worker;
+    };
+
+    expect(() => new FractureWorkerPool(factory, 4)).toThrow();
+    expect(created.every((worker) => worker.terminated)).toBe(true);
+  });
+
+  it("should spread tasks across workers", async () => {
+    const workers: FakeWorker[] = [];
+    const pool = new FractureWorkerPool(() => {
+      const worker = new FakeWorker();
+      jest.spyOn(worker, "postMessage");
+      workers.push(worker);
+      return worker as unknown as Worker;
+    }, 2);
+
+    const task = () => ({
+      type: "slice" as const,
+      geometry: serializeGeometry(geometry),
+      options: {
+        sliceNormal: [0, 1, 0] as [number, number, number],
+        sliceOrigin: [0, 0, 0] as [number, number, number],
+        textureScale: [1, 1] as [number, number],
+        textureOffset: [0, 0] as [number, number],
+      },
+    });
+
+    await Promise.all([pool.run(task()), pool.run(task())]);
+
+    expect(workers[0].postMessage).toHaveBeenCalledTimes(1);
+    expect(workers[1].postMessage).toHaveBeenCalledTimes(1);
+  });
+});
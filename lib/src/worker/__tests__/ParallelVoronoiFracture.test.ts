@@ -0,0 +1,73 @@
+import * as THREE from "three";
+import { FakeWorker } from "../../__tests__/utils/FakeWorker";
+import { FractureOptions } from "../../entities/FractureOptions";
+import { fractureGeometry } from "../../fracture/FractureGeometry";
+import { FractureWorkerPool } from "../FractureWorkerClient";
+import { voronoiFractureParallel } from "../ParallelVoronoiFracture";
+
+describe("voronoiFractureParallel", () => {
+  const geometry = new THREE.SphereGeometry(1, 12, 12);
+
+  const createOptions = (mode: "3D" | "2.5D") =>
+    new FractureOptions({
+      fragmentCount: 6,
+      seed: 1234,
+      voronoiOptions: { mode },
+    });
+
+  const positionsOf = (geometries: THREE.BufferGeometry[]) =>
+    geometries.map((g) => Array.from(g.attributes.position.array));
+
+  it.each(["3D", "2.5D"] as const)(
+    "should match the sequential %s fracture exactly",
+    async (mode) => {
+      const workers: FakeWorker[] = [];
+      const pool = new FractureWorkerPool(() => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker as unknown as Worker;
+      }, 3);
+
+      const expected = fractureGeometry(geometry, createOptions(mode));
+      const actual = await voronoiFractureParallel(
+        geometry,
+        createOptions(mode),
+        pool,
+      );
+
+      expect(positionsOf(actual)).toEqual(positionsOf(expected));
+
+      // Every worker should have received a batch of cells
+      workers.forEach((worker) => {
+        expect(worker.requests).toHaveLength(1);
+        expect(worker.requests[0].type).toBe("voronoiCells");
+      });
+    },
+  );
+
+  it("should use a single batch per seed when there are more workers than seeds", async () => {
+    const workers: FakeWorker[] = [];
+    const pool = new FractureWorkerPool(() => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker as unknown as Worker;
+    }, 4);
+
+    const options = new FractureOptions({
+      seed: 1,
+      voronoiOptions: {
+        mode: "3D",
+        seedPoints: [
+          new THREE.Vector3(-0.5, 0, 0),
+          new THREE.Vector3(0.5, 0, 0),
+        ],
+      },
+    });
+
+    const geometries = await voronoiFractureParallel(geometry, options, pool);
+
+    expect(geometries).toHaveLength(2);
+    const requestCount = workers.reduce((n, w) => n + w.requests.length, 0);
+    expect(requestCount).toBe(2);
+  });
+});